@@ -1,6 +1,10 @@
-import { describe, expect, it } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { parseCLIArgs } from "./args";
 import { LogLevel } from "./log";
+import { DEFAULT_TRAILER_KEYS } from "./trailers";
 
 describe("parseCLIArgs", () => {
   it("defaults command to sync when no positional given", () => {
@@ -33,6 +37,199 @@ describe("parseCLIArgs", () => {
     expect(result.releaseVersion).toBe("1.2.0");
   });
 
+  describe("preview", () => {
+    it("accepts plan as an alias", () => {
+      expect(parseCLIArgs(["plan", "--base-ref=main"]).command).toBe("preview");
+    });
+
+    it("takes the range from --base-ref", () => {
+      const result = parseCLIArgs(["preview", "--base-ref=v1.0.0"]);
+      expect(result.baseRef).toBe("v1.0.0");
+      expect(result.headRef).toBeUndefined();
+    });
+
+    it("takes the range from a positional <base>..<head>", () => {
+      expect(parseCLIArgs(["preview", "origin/main..feature"])).toMatchObject({
+        baseRef: "origin/main",
+        headRef: "feature",
+      });
+      expect(parseCLIArgs(["preview", "v1.0.0.."])).toMatchObject({ baseRef: "v1.0.0", headRef: undefined });
+    });
+
+    it("requires a range", () => {
+      expect(() => parseCLIArgs(["preview"])).toThrow("preview requires --base-ref=<ref> or a range like main..HEAD");
+    });
+
+    it("rejects invalid or conflicting ranges", () => {
+      expect(() => parseCLIArgs(["preview", "main...HEAD"])).toThrow("Use a two-dot range");
+      expect(() => parseCLIArgs(["preview", "..HEAD"])).toThrow('Invalid preview range: "..HEAD"');
+      expect(() => parseCLIArgs(["preview", "main..HEAD", "--base-ref=main"])).toThrow("Conflicting range arguments");
+    });
+
+    it("takes the range end from --to", () => {
+      expect(parseCLIArgs(["preview", "--base-ref=v1.0.0", "--to=v1.1.0"])).toMatchObject({
+        baseRef: "v1.0.0",
+        headRef: "v1.1.0",
+      });
+      expect(parseCLIArgs(["preview", "v1.0.0..", "--to=v1.1.0"]).headRef).toBe("v1.1.0");
+      expect(() => parseCLIArgs(["preview", "v1.0.0..main", "--to=v1.1.0"])).toThrow(
+        'Conflicting range arguments: "v1.0.0..main", --to. Use only one.',
+      );
+    });
+  });
+
+  describe("backfill", () => {
+    it("takes the tag glob from --tags", () => {
+      expect(parseCLIArgs(["backfill", "--tags=v*", "--dry-run"])).toMatchObject({
+        command: "backfill",
+        backfillTags: "v*",
+        dryRun: true,
+      });
+    });
+
+    it("requires --tags and rejects it elsewhere", () => {
+      expect(() => parseCLIArgs(["backfill"])).toThrow('backfill requires --tags=<glob>, e.g. --tags="v*"');
+      expect(() => parseCLIArgs(["sync", "--tags=v*"])).toThrow("--tags is only supported by the backfill command");
+    });
+
+    it("rejects name and version flags", () => {
+      expect(() => parseCLIArgs(["backfill", "--tags=v*", "--name=Release", "--release-version=1.0.0"])).toThrow(
+        "--name, --release-version cannot be used with backfill; each release is named after its tag",
+      );
+    });
+  });
+
+  describe("--to", () => {
+    it("sets the target ref for sync and complete", () => {
+      expect(parseCLIArgs([]).targetRef).toBeUndefined();
+      expect(parseCLIArgs(["--base-ref=v1.0.0", "--to= v1.1.0 "]).targetRef).toBe("v1.1.0");
+      expect(parseCLIArgs(["complete", "--to=abc1234"]).targetRef).toBe("abc1234");
+    });
+
+    it("rejects empty values and the update command", () => {
+      expect(() => parseCLIArgs(["--to="])).toThrow('Invalid --to value: ""');
+      expect(() => parseCLIArgs(["update", "--stage=prod", "--to=main"])).toThrow(
+        "--to is only supported by the sync, complete, preview, explain commands",
+      );
+    });
+  });
+
+  describe("release markers", () => {
+    it("parses --write-git-notes, --tag-release, and --push-release-markers", () => {
+      expect(parseCLIArgs([])).toMatchObject({
+        writeGitNotes: false,
+        tagRelease: undefined,
+        pushReleaseMarkers: false,
+      });
+      expect(
+        parseCLIArgs([
+          "complete",
+          "--write-git-notes",
+          "--tag-release= linear/{{release.version}} ",
+          "--push-release-markers",
+        ]),
+      ).toMatchObject({ writeGitNotes: true, tagRelease: "linear/{{release.version}}", pushReleaseMarkers: true });
+    });
+
+    it("rejects other commands, empty templates, and pushing nothing", () => {
+      expect(() => parseCLIArgs(["update", "--stage=prod", "--write-git-notes", "--tag-release=v1"])).toThrow(
+        "--write-git-notes, --tag-release are only supported by the sync, complete commands",
+      );
+      expect(() => parseCLIArgs(["--tag-release="])).toThrow('Invalid --tag-release value: ""');
+      expect(() => parseCLIArgs(["--push-release-markers"])).toThrow(
+        "--push-release-markers requires --write-git-notes or --tag-release",
+      );
+    });
+  });
+
+  describe("explain", () => {
+    it("parses an issue identifier target, normalized", () => {
+      expect(parseCLIArgs(["explain", "eng-0042"]).explainTarget).toEqual({ kind: "issue", identifier: "ENG-42" });
+    });
+
+    it("treats anything else as a commit", () => {
+      expect(parseCLIArgs(["explain", "a1b2c3d", "--base-ref=v1.0.0"])).toMatchObject({
+        explainTarget: { kind: "commit", ref: "a1b2c3d" },
+        baseRef: "v1.0.0",
+      });
+    });
+
+    it("requires a target", () => {
+      expect(() => parseCLIArgs(["explain"])).toThrow("explain requires an issue identifier or commit");
+    });
+  });
+
+  describe("--generate-release-notes", () => {
+    it("parses --generate-release-notes with an output file", () => {
+      const result = parseCLIArgs(["--generate-release-notes", "--release-notes-output=CHANGES.md"]);
+      expect(result.generateReleaseNotes).toBe(true);
+      expect(result.releaseNotesOutput).toBe("CHANGES.md");
+    });
+
+    it("defaults to off", () => {
+      const result = parseCLIArgs([]);
+      expect(result.generateReleaseNotes).toBe(false);
+      expect(result.releaseNotesOutput).toBeUndefined();
+    });
+
+    it("throws when combined with explicit release notes", () => {
+      expect(() => parseCLIArgs(["--generate-release-notes", "--release-notes=hi"])).toThrow(
+        "Conflicting release notes flags",
+      );
+      expect(() => parseCLIArgs(["--generate-release-notes", "--release-notes-file=notes.md"])).toThrow(
+        "Conflicting release notes flags",
+      );
+    });
+
+    it("throws outside sync", () => {
+      expect(() => parseCLIArgs(["complete", "--generate-release-notes"])).toThrow(
+        "--generate-release-notes is only supported by the sync command",
+      );
+    });
+
+    it("throws on --release-notes-output without --generate-release-notes", () => {
+      expect(() => parseCLIArgs(["--release-notes-output=CHANGES.md"])).toThrow(
+        "--release-notes-output requires --generate-release-notes",
+      );
+    });
+  });
+
+  describe("--version-from", () => {
+    it("parses --version-from with a tag pattern", () => {
+      const result = parseCLIArgs(["--version-from=tag", "--version-tag-pattern=web-v*"]);
+      expect(result.versionFrom).toBe("tag");
+      expect(result.versionTagPattern).toBe("web-v*");
+    });
+
+    it("parses --version-from with a manifest path", () => {
+      const result = parseCLIArgs(["--version-from=Cargo.toml", "--version-file=crates/app/Cargo.toml"]);
+      expect(result.versionFrom).toBe("Cargo.toml");
+      expect(result.versionFile).toBe("crates/app/Cargo.toml");
+    });
+
+    it("throws on an unknown source", () => {
+      expect(() => parseCLIArgs(["--version-from=setup.py"])).toThrow(
+        'Invalid --version-from value: "setup.py". Expected one of: tag, package.json, Cargo.toml, pyproject, VERSION.',
+      );
+    });
+
+    it("throws when combined with --release-version", () => {
+      expect(() => parseCLIArgs(["--version-from=tag", "--release-version=1.0.0"])).toThrow(
+        "Conflicting version flags",
+      );
+    });
+
+    it("throws on options that don't apply to the source", () => {
+      expect(() => parseCLIArgs(["--version-from=tag", "--version-file=package.json"])).toThrow(
+        "--version-file cannot be used with --version-from=tag",
+      );
+      expect(() => parseCLIArgs(["--version-from=VERSION", "--version-tag-pattern=v*"])).toThrow(
+        "--version-tag-pattern requires --version-from=tag",
+      );
+      expect(() => parseCLIArgs(["--version-tag-pattern=v*"])).toThrow("require --version-from");
+    });
+  });
+
   it("parses --name", () => {
     const result = parseCLIArgs(["--name", "Release 1.2.0"]);
     expect(result.releaseName).toBe("Release 1.2.0");
@@ -417,4 +614,509 @@ describe("parseCLIArgs", () => {
   it("throws when --quiet and --verbose are both passed", () => {
     expect(() => parseCLIArgs(["--quiet", "--verbose"])).toThrow("Conflicting log level flags");
   });
+
+  describe("--team-keys", () => {
+    it("parses allowed and denied keys", () => {
+      expect(parseCLIArgs(["--team-keys=eng, WEB,!utf"]).teamKeys).toEqual({
+        allow: ["ENG", "WEB"],
+        deny: ["UTF"],
+        auto: false,
+      });
+    });
+
+    it("defaults to no filter", () => {
+      expect(parseCLIArgs([]).teamKeys).toBeNull();
+    });
+
+    it("accepts auto for sync", () => {
+      expect(parseCLIArgs(["--team-keys=auto"]).teamKeys).toEqual({ allow: [], deny: [], auto: true });
+    });
+
+    it("rejects auto for commands that run without an access key", () => {
+      expect(() => parseCLIArgs(["preview", "main..HEAD", "--team-keys=auto"])).toThrow(
+        "--team-keys=auto fetches team keys with an access key, which preview does not use",
+      );
+      expect(() => parseCLIArgs(["explain", "ENG-1", "--base-ref=main", "--team-keys=auto"])).toThrow(
+        "which explain --base-ref does not use",
+      );
+    });
+  });
+
+  describe("trailer flags", () => {
+    it("defaults to the built-in trailer keys", () => {
+      const { trailerKeys } = parseCLIArgs([]);
+      expect(trailerKeys).toEqual(DEFAULT_TRAILER_KEYS);
+    });
+
+    it("replaces each list independently", () => {
+      const result = parseCLIArgs(["--issue-trailers=Ticket, Jira-Issue", "--exclude-trailers=Not-Released"]);
+      expect(result.trailerKeys).toEqual({
+        issues: ["Ticket", "Jira-Issue"],
+        pullRequests: DEFAULT_TRAILER_KEYS.pullRequests,
+        exclude: ["Not-Released"],
+      });
+      expect(result.settingSources.trailerKeys).toBe("cli");
+    });
+
+    it("turns a list off when the flag is empty", () => {
+      expect(parseCLIArgs(["--pr-trailers="]).trailerKeys.pullRequests).toEqual([]);
+    });
+
+    it("rejects keys git would not parse as trailers", () => {
+      expect(() => parseCLIArgs(["--issue-trailers=Fixed by"])).toThrow(
+        'Invalid --issue-trailers entry: "Fixed by". Trailer keys are letters, digits, and "-".',
+      );
+    });
+  });
+
+  describe("repository overrides", () => {
+    it("parses --repo-provider and --repo-url", () => {
+      const result = parseCLIArgs([
+        "--repo-provider=gitlab",
+        "--repo-url=ssh://git@code.corp.example:2222/team/repo.git",
+      ]);
+      expect(result.repoProvider).toBe("gitlab");
+      expect(result.repoUrl).toBe("ssh://git@code.corp.example:2222/team/repo.git");
+    });
+
+    it("rejects unknown providers", () => {
+      expect(() => parseCLIArgs(["--repo-provider=gitea"])).toThrow(
+        'Invalid --repo-provider value: "gitea". Expected one of: github, gitlab, bitbucket, azure, gerrit.',
+      );
+    });
+
+    it("rejects URLs that don't name a repository", () => {
+      expect(() => parseCLIArgs(["--repo-url=code.corp.example"])).toThrow(
+        'Invalid --repo-url value: "code.corp.example"',
+      );
+    });
+  });
+
+  it("parses --exclude-subjects and the author flags", () => {
+    const result = parseCLIArgs([
+      "--exclude-subjects=^chore",
+      "--include-authors=*@example.com",
+      "--exclude-authors=renovate[bot], dependabot[bot]",
+    ]);
+    expect(result.excludeSubjects).toBe("^chore");
+    expect(result.includeAuthors).toEqual(["*@example.com"]);
+    expect(result.excludeAuthors).toEqual(["renovate[bot]", "dependabot[bot]"]);
+    expect(result.settingSources.excludeSubjects).toBe("cli");
+    expect(result.settingSources.authors).toBe("cli");
+    expect(() => parseCLIArgs(["--exclude-subjects=("])).toThrow("Invalid --exclude-subjects regex");
+  });
+
+  it("parses --exclude-paths", () => {
+    const result = parseCLIArgs(["--exclude-paths=apps/web/e2e/**, pnpm-lock.yaml"]);
+    expect(result.excludePaths).toEqual(["apps/web/e2e/**", "pnpm-lock.yaml"]);
+    expect(result.settingSources.excludePaths).toBe("cli");
+  });
+
+  it("parses --workspace as a repeatable, comma-separated list", () => {
+    expect(parseCLIArgs([]).workspaces).toEqual([]);
+    const result = parseCLIArgs(["--workspace=@acme/web", "--workspace", "@acme/admin,@acme/web"]);
+    expect(result.workspaces).toEqual(["@acme/web", "@acme/admin"]);
+    expect(result.settingSources.workspaces).toBe("cli");
+  });
+
+  it("parses --recurse-submodules", () => {
+    expect(parseCLIArgs([]).recurseSubmodules).toBe(false);
+    const result = parseCLIArgs(["--recurse-submodules"]);
+    expect(result.recurseSubmodules).toBe(true);
+    expect(result.settingSources.recurseSubmodules).toBe("cli");
+  });
+
+  it("parses --max-release-lookback, defaulting to 100 releases", () => {
+    expect(parseCLIArgs([]).maxReleaseLookback).toBe(100);
+    const result = parseCLIArgs(["--max-release-lookback=250"]);
+    expect(result.maxReleaseLookback).toBe(250);
+    expect(result.settingSources.maxReleaseLookback).toBe("cli");
+    expect(() => parseCLIArgs(["--max-release-lookback=2.5"])).toThrow('Invalid --max-release-lookback value: "2.5"');
+    expect(() => parseCLIArgs(["--max-release-lookback=0"])).toThrow('Invalid --max-release-lookback value: "0"');
+  });
+
+  it("parses --first-sync strategies, defaulting to head", () => {
+    expect(parseCLIArgs([]).firstSync).toEqual({ kind: "head" });
+    expect(parseCLIArgs(["--first-sync=merge-base:origin/main"]).firstSync).toEqual({
+      kind: "merge-base",
+      ref: "origin/main",
+    });
+    expect(parseCLIArgs(["--first-sync=since:2026-01-31"]).firstSync).toEqual({ kind: "since", date: "2026-01-31" });
+    expect(parseCLIArgs(["--first-sync=tag:v*"]).firstSync).toEqual({ kind: "tag", pattern: "v*" });
+    const result = parseCLIArgs(["--first-sync=commits:50"]);
+    expect(result.firstSync).toEqual({ kind: "commits", count: 50 });
+    expect(result.settingSources.firstSync).toBe("cli");
+  });
+
+  it("rejects malformed --first-sync values", () => {
+    expect(() => parseCLIArgs(["--first-sync=all"])).toThrow(
+      'Invalid --first-sync value: "all". Expected head, merge-base:<branch>, since:<date>, tag:<glob>, or commits:<n>.',
+    );
+    expect(() => parseCLIArgs(["--first-sync=merge-base:"])).toThrow('Invalid --first-sync value: "merge-base:"');
+    expect(() => parseCLIArgs(["--first-sync=since:last tuesday"])).toThrow('"last tuesday" is not a date');
+    expect(() => parseCLIArgs(["--first-sync=commits:0"])).toThrow('"0" is not a positive whole number of commits');
+  });
+
+  describe("--repo-path", () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), "linear-release-repos-"));
+      mkdirSync(join(root, "web"));
+      mkdirSync(join(root, "api"));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it("defaults to no repository paths", () => {
+      expect(parseCLIArgs([]).repoPaths).toEqual([]);
+    });
+
+    it("resolves each path against the working directory", () => {
+      const result = parseCLIArgs(["--repo-path=web", "--repo-path", "api"], { cwd: root });
+      expect(result.repoPaths).toEqual([join(root, "web"), join(root, "api")]);
+    });
+
+    it("rejects missing directories", () => {
+      expect(() => parseCLIArgs(["--repo-path=mobile"], { cwd: root })).toThrow(
+        'Invalid --repo-path value: "mobile". Expected a directory containing a git checkout.',
+      );
+    });
+
+    it("rejects the same repository twice", () => {
+      expect(() => parseCLIArgs(["--repo-path=web", "--repo-path=./web/"], { cwd: root })).toThrow(
+        'Duplicate --repo-path "./web/"',
+      );
+    });
+
+    it("is only supported by sync", () => {
+      expect(() => parseCLIArgs(["complete", "--repo-path=web"], { cwd: root })).toThrow(
+        "--repo-path is only supported by the sync command",
+      );
+    });
+
+    it("rejects single-repository flags with several repositories", () => {
+      expect(() =>
+        parseCLIArgs(["--repo-path=web", "--repo-path=api", "--base-ref=v1", "--repo-url=git@github.com:o/r.git"], {
+          cwd: root,
+        }),
+      ).toThrow("--base-ref, --repo-url cannot be used with more than one --repo-path");
+      expect(() => parseCLIArgs(["--repo-path=web", "--repo-path=api", "--workspace=web"], { cwd: root })).toThrow(
+        "--workspace cannot be used with more than one --repo-path",
+      );
+      expect(parseCLIArgs(["--repo-path=web", "--base-ref=v1"], { cwd: root }).baseRef).toBe("v1");
+    });
+  });
+
+  describe("project config file", () => {
+    let repo: string;
+
+    beforeEach(() => {
+      repo = mkdtempSync(join(tmpdir(), "linear-release-args-"));
+      mkdirSync(join(repo, ".git"));
+    });
+
+    afterEach(() => {
+      rmSync(repo, { recursive: true, force: true });
+    });
+
+    function writeConfig(name: string, config: unknown) {
+      writeFileSync(join(repo, name), JSON.stringify(config));
+    }
+
+    it("reports defaults and no config path when no config file exists", () => {
+      const result = parseCLIArgs([], { cwd: repo });
+      expect(result.configPath).toBeNull();
+      expect(result.settingSources).toEqual({
+        includePaths: "default",
+        excludePaths: "default",
+        workspaces: "default",
+        includeSubjects: "default",
+        excludeSubjects: "default",
+        authors: "default",
+        links: "default",
+        extractionRules: "default",
+        teamKeys: "default",
+        trailerKeys: "default",
+        recurseSubmodules: "default",
+        maxReleaseLookback: "default",
+        stateFile: "default",
+        firstSync: "default",
+        timeoutSeconds: "default",
+      });
+    });
+
+    it("uses discovered config values when flags are absent", () => {
+      writeConfig(".linear-release.json", {
+        includePaths: ["apps/web/**"],
+        includeSubjects: "^feat",
+        links: ["CI=https://ci.example.com"],
+        timeout: 120,
+      });
+      mkdirSync(join(repo, "apps", "web"), { recursive: true });
+      const result = parseCLIArgs([], { cwd: join(repo, "apps", "web") });
+      expect(result.configPath).toBe(join(repo, ".linear-release.json"));
+      expect(result.includePaths).toEqual(["apps/web/**"]);
+      expect(result.includeSubjects).toBe("^feat");
+      expect(result.links).toEqual([{ label: "CI", url: "https://ci.example.com/" }]);
+      expect(result.timeoutSeconds).toBe(120);
+      expect(result.settingSources).toEqual({
+        includePaths: "config",
+        excludePaths: "default",
+        workspaces: "default",
+        includeSubjects: "config",
+        excludeSubjects: "default",
+        authors: "default",
+        links: "config",
+        extractionRules: "default",
+        teamKeys: "default",
+        trailerKeys: "default",
+        recurseSubmodules: "default",
+        maxReleaseLookback: "default",
+        stateFile: "default",
+        firstSync: "default",
+        timeoutSeconds: "config",
+      });
+    });
+
+    it("lets CLI flags override config values", () => {
+      writeConfig(".linear-release.json", {
+        includePaths: ["apps/web/**"],
+        includeSubjects: "^feat",
+        links: ["https://ci.example.com"],
+        timeout: 120,
+      });
+      const result = parseCLIArgs(
+        ["--include-paths=apps/api/**", "--include-subjects=^fix", "--link=https://other.example.com", "--timeout=5"],
+        { cwd: repo },
+      );
+      expect(result.includePaths).toEqual(["apps/api/**"]);
+      expect(result.includeSubjects).toBe("^fix");
+      expect(result.links).toEqual([{ url: "https://other.example.com/" }]);
+      expect(result.timeoutSeconds).toBe(5);
+      expect(result.settingSources).toEqual({
+        includePaths: "cli",
+        excludePaths: "default",
+        workspaces: "default",
+        includeSubjects: "cli",
+        excludeSubjects: "default",
+        authors: "default",
+        links: "cli",
+        extractionRules: "default",
+        teamKeys: "default",
+        trailerKeys: "default",
+        recurseSubmodules: "default",
+        maxReleaseLookback: "default",
+        stateFile: "default",
+        firstSync: "default",
+        timeoutSeconds: "cli",
+      });
+    });
+
+    it("resolves the config's stateFile against the config and --state-file against the working directory", () => {
+      writeConfig(".linear-release.json", { stateFile: ".cache/linear-release.json" });
+      mkdirSync(join(repo, "apps", "web"), { recursive: true });
+      const fromConfig = parseCLIArgs([], { cwd: join(repo, "apps", "web") });
+      expect(fromConfig.stateFile).toBe(join(repo, ".cache", "linear-release.json"));
+      expect(fromConfig.settingSources.stateFile).toBe("config");
+
+      const fromFlag = parseCLIArgs(["--state-file=state.json"], { cwd: join(repo, "apps", "web") });
+      expect(fromFlag.stateFile).toBe(join(repo, "apps", "web", "state.json"));
+      expect(fromFlag.settingSources.stateFile).toBe("cli");
+      expect(() => parseCLIArgs(["--state-file= "], { cwd: repo })).toThrow('Invalid --state-file value: " "');
+    });
+
+    it("reads trailer keys from the config, with flags taking precedence per list", () => {
+      writeConfig(".linear-release.json", { issueTrailers: ["Ticket"], excludeTrailers: ["Skip-Release"] });
+      const fromConfig = parseCLIArgs([], { cwd: repo });
+      expect(fromConfig.trailerKeys.issues).toEqual(["Ticket"]);
+      expect(fromConfig.trailerKeys.exclude).toEqual(["Skip-Release"]);
+      expect(fromConfig.settingSources.trailerKeys).toBe("config");
+
+      const overridden = parseCLIArgs(["--exclude-trailers=Not-Released"], { cwd: repo });
+      expect(overridden.trailerKeys.issues).toEqual(["Ticket"]);
+      expect(overridden.trailerKeys.exclude).toEqual(["Not-Released"]);
+      expect(overridden.settingSources.trailerKeys).toBe("cli");
+    });
+
+    it("reads repoHosts from the config", () => {
+      writeConfig(".linear-release.json", { repoHosts: { "code.corp.example": "gitlab" } });
+      expect(parseCLIArgs([], { cwd: repo }).repoHosts).toEqual({ "code.corp.example": "gitlab" });
+    });
+
+    it("reads excludePaths from the config unless --exclude-paths is passed", () => {
+      writeConfig(".linear-release.json", { excludePaths: ["**/*.lock"] });
+      const result = parseCLIArgs([], { cwd: repo });
+      expect(result.excludePaths).toEqual(["**/*.lock"]);
+      expect(result.settingSources.excludePaths).toBe("config");
+
+      const cleared = parseCLIArgs(["--exclude-paths="], { cwd: repo });
+      expect(cleared.excludePaths).toEqual([]);
+      expect(cleared.settingSources.excludePaths).toBe("cli");
+    });
+
+    it("reads the author lists from the config one at a time", () => {
+      writeConfig(".linear-release.json", { includeAuthors: ["*@example.com"], excludeAuthors: ["*[bot]"] });
+      const result = parseCLIArgs(["--exclude-authors=ci"], { cwd: repo });
+      expect(result.includeAuthors).toEqual(["*@example.com"]);
+      expect(result.excludeAuthors).toEqual(["ci"]);
+      expect(result.settingSources.authors).toBe("cli");
+    });
+
+    it("reads workspaces from the config unless --workspace is passed", () => {
+      writeConfig(".linear-release.json", { workspaces: ["@acme/web"] });
+      const result = parseCLIArgs([], { cwd: repo });
+      expect(result.workspaces).toEqual(["@acme/web"]);
+      expect(result.settingSources.workspaces).toBe("config");
+      expect(parseCLIArgs(["--workspace=@acme/api"], { cwd: repo }).workspaces).toEqual(["@acme/api"]);
+    });
+
+    it("reads recurseSubmodules from the config", () => {
+      writeConfig(".linear-release.json", { recurseSubmodules: true });
+      const result = parseCLIArgs([], { cwd: repo });
+      expect(result.recurseSubmodules).toBe(true);
+      expect(result.settingSources.recurseSubmodules).toBe("config");
+    });
+
+    it("lets an empty --include-subjects switch off the config filter", () => {
+      writeConfig(".linear-release.json", { includeSubjects: "^feat" });
+      const result = parseCLIArgs(["--include-subjects="], { cwd: repo });
+      expect(result.includeSubjects).toBeNull();
+      expect(result.settingSources.includeSubjects).toBe("cli");
+    });
+
+    it("compiles extraction rules from the config, and lets --extraction-rule replace them", () => {
+      writeConfig(".linear-release.json", {
+        extractionRules: [
+          { name: "ticket", target: "trailer", trailer: "Ticket", pattern: "(?<team>\\w+)-(?<number>\\d+)" },
+        ],
+      });
+      const fromConfig = parseCLIArgs([], { cwd: repo });
+      expect(fromConfig.extractionRules.map((rule) => rule.name)).toEqual(["ticket"]);
+      expect(fromConfig.settingSources.extractionRules).toBe("config");
+
+      const fromCli = parseCLIArgs(["--extraction-rule=snake:branch:^(?<team>[a-z]+)_(?<number>\\d+)_"], { cwd: repo });
+      expect(fromCli.extractionRules.map((rule) => rule.name)).toEqual(["snake"]);
+      expect(fromCli.settingSources.extractionRules).toBe("cli");
+    });
+
+    it("names the config key when an extraction rule regex is invalid", () => {
+      writeConfig(".linear-release.json", {
+        extractionRules: [{ name: "ticket", target: "body", pattern: "(?<team>\\w+)-(\\d+)" }],
+      });
+      expect(() => parseCLIArgs([], { cwd: repo })).toThrow(
+        `Invalid extractionRules[0] in ${join(repo, ".linear-release.json")} regex for rule "ticket": missing named group (?<number>…)`,
+      );
+    });
+
+    it("rejects duplicate extraction rule names", () => {
+      const rule = "--extraction-rule=dup:subject:(?<team>[a-z]+)(?<number>\\d+)";
+      expect(() => parseCLIArgs([rule, rule], { cwd: repo })).toThrow('Duplicate extraction rule name "dup"');
+    });
+
+    it("loads an explicit --config path relative to cwd", () => {
+      mkdirSync(join(repo, "ci"));
+      writeFileSync(join(repo, "ci", "release.yml"), "timeout: 30\n");
+      const result = parseCLIArgs(["--config=ci/release.yml"], { cwd: repo });
+      expect(result.configPath).toBe(join(repo, "ci", "release.yml"));
+      expect(result.timeoutSeconds).toBe(30);
+    });
+
+    it("throws when an explicit --config path does not exist", () => {
+      expect(() => parseCLIArgs(["--config=missing.yml"], { cwd: repo })).toThrow(/Failed to read config file/);
+    });
+
+    describe("profiles", () => {
+      beforeEach(() => {
+        writeConfig(".linear-release.json", {
+          includePaths: ["shared/**"],
+          profiles: {
+            web: { accessKeyEnv: "KEY_WEB", includePaths: ["apps/web/**"], workspaces: ["@acme/web"], name: "Web" },
+            api: { accessKeyEnv: "KEY_API", releaseVersion: "2.0.0" },
+          },
+        });
+      });
+
+      it("selects no profiles by default", () => {
+        expect(parseCLIArgs([], { cwd: repo }).profiles).toEqual([]);
+      });
+
+      it("layers profile values over top-level config values", () => {
+        const result = parseCLIArgs(["--profile=web", "--profile=api"], { cwd: repo });
+        expect(result.profiles).toEqual([
+          {
+            name: "web",
+            accessKeyEnv: "KEY_WEB",
+            includePaths: ["apps/web/**"],
+            includePathsSource: "profile",
+            workspaces: ["@acme/web"],
+            workspacesSource: "profile",
+            releaseName: "Web",
+            releaseVersion: undefined,
+          },
+          {
+            name: "api",
+            accessKeyEnv: "KEY_API",
+            includePaths: ["shared/**"],
+            includePathsSource: "config",
+            workspaces: [],
+            workspacesSource: "default",
+            releaseName: undefined,
+            releaseVersion: "2.0.0",
+          },
+        ]);
+      });
+
+      it("lets CLI flags override profile values", () => {
+        const [web] = parseCLIArgs(["--profile=web", "--include-paths=apps/**", "--name=Override"], {
+          cwd: repo,
+        }).profiles;
+        expect(web?.includePaths).toEqual(["apps/**"]);
+        expect(web?.includePathsSource).toBe("cli");
+        expect(web?.releaseName).toBe("Override");
+
+        const [withWorkspace] = parseCLIArgs(["--profile=web", "--workspace=@acme/admin"], { cwd: repo }).profiles;
+        expect(withWorkspace?.workspaces).toEqual(["@acme/admin"]);
+        expect(withWorkspace?.workspacesSource).toBe("cli");
+      });
+
+      it("selects every profile with --all-profiles", () => {
+        const result = parseCLIArgs(["--all-profiles"], { cwd: repo });
+        expect(result.profiles.map((p) => p.name)).toEqual(["web", "api"]);
+      });
+
+      it("throws on an unknown profile", () => {
+        expect(() => parseCLIArgs(["--profile=mobile"], { cwd: repo })).toThrow(
+          'Unknown --profile "mobile" (available: web, api)',
+        );
+      });
+
+      it("throws when --profile and --all-profiles are combined", () => {
+        expect(() => parseCLIArgs(["--profile=web", "--all-profiles"], { cwd: repo })).toThrow(
+          "Conflicting profile flags",
+        );
+      });
+
+      it("throws when profiles are used with a command other than sync", () => {
+        expect(() => parseCLIArgs(["complete", "--all-profiles"], { cwd: repo })).toThrow(
+          "--all-profiles is only supported by the sync command",
+        );
+      });
+    });
+
+    it("throws when --all-profiles is used without a config file", () => {
+      expect(() => parseCLIArgs(["--all-profiles"], { cwd: repo })).toThrow(
+        "--all-profiles requires a config file defining profiles",
+      );
+    });
+
+    it("names the config file in invalid includeSubjects errors", () => {
+      writeConfig(".linear-release.json", { includeSubjects: "([unclosed" });
+      expect(() => parseCLIArgs([], { cwd: repo })).toThrow(
+        /Invalid includeSubjects in .*\.linear-release\.json regex/,
+      );
+    });
+  });
 });
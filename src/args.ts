@@ -1,6 +1,16 @@
-import { basename, extname } from "node:path";
+import { existsSync, statSync } from "node:fs";
+import { basename, dirname, extname, resolve } from "node:path";
 import { parseArgs } from "node:util";
+import { parseAuthorPatterns } from "./authors";
+import { findConfigFile, loadConfigFile, ProfileConfig, ProjectConfig } from "./config";
 import { LogLevel } from "./log";
+import { ExplainTarget } from "./explain";
+import { isRepoProvider, parseRepoUrl, REPO_PROVIDERS, RepoProvider } from "./git";
+import { createExtractionRule, ExtractionRule, parseExtractionRuleSpec } from "./extraction-rules";
+import { isVersionSource, VERSION_SOURCES, VersionSource } from "./release-version";
+import { FirstSyncStrategy, parseFirstSyncStrategy } from "./scan-base";
+import { parseTeamKeys, TeamKeysSetting } from "./team-keys";
+import { DEFAULT_TRAILER_KEYS, parseTrailerKeyList, TrailerKeys } from "./trailers";
 
 export type ReleaseLink = {
   label?: string;
@@ -19,24 +29,108 @@ export type ReleaseNoteSpec = {
   source: ReleaseContentSource;
 };
 
+/** Which layer an effective setting came from. `pipeline` is only resolved later, in `syncCommand`. */
+export type SettingSource = "cli" | "profile" | "config" | "pipeline" | "default";
+
+export type SettingSources = {
+  includePaths: SettingSource;
+  excludePaths: SettingSource;
+  workspaces: SettingSource;
+  includeSubjects: SettingSource;
+  excludeSubjects: SettingSource;
+  /** `cli` when either author flag is set, otherwise `config` when either author config key is. */
+  authors: SettingSource;
+  links: SettingSource;
+  extractionRules: SettingSource;
+  teamKeys: SettingSource;
+  /** `cli` when any trailer flag is set, otherwise `config` when any trailer config key is. */
+  trailerKeys: SettingSource;
+  recurseSubmodules: SettingSource;
+  maxReleaseLookback: SettingSource;
+  stateFile: SettingSource;
+  firstSync: SettingSource;
+  timeoutSeconds: SettingSource;
+};
+
+/** A config profile selected with `--profile` / `--all-profiles`, with CLI flags layered over it. */
+export type SelectedProfile = {
+  name: string;
+  accessKeyEnv: string;
+  includePaths: string[];
+  includePathsSource: SettingSource;
+  workspaces: string[];
+  workspacesSource: SettingSource;
+  releaseName?: string;
+  releaseVersion?: string;
+};
+
 export type ParsedCLIArgs = {
   command: string;
   releaseName?: string;
   releaseVersion?: string;
+  versionFrom?: VersionSource;
+  versionTagPattern?: string;
+  versionFile?: string;
   stageName?: string;
   baseRef?: string;
+  /** End of the range for `preview` (`<base>..<head>` or `--to`); defaults to HEAD. */
+  headRef?: string;
+  /** Commit to release instead of HEAD (`--to`); the end of the scan range and the release's `commitSha`. */
+  targetRef?: string;
+  /** What `explain` reports on. */
+  explainTarget?: ExplainTarget;
+  /** Glob of the tags `backfill` replays as releases. */
+  backfillTags?: string;
   includePaths: string[];
+  /** Files that don't count toward the include paths; see `buildPathspecArgs`. */
+  excludePaths: string[];
+  /** Workspace packages whose directories, with their internal dependencies', are added to the include paths. */
+  workspaces: string[];
   includeSubjects: string | null;
+  excludeSubjects: string | null;
+  /** Author patterns; see `matchesAuthor`. */
+  includeAuthors: string[];
+  excludeAuthors: string[];
+  extractionRules: ExtractionRule[];
+  /** Null when identifiers from every team key are accepted. */
+  teamKeys: TeamKeysSetting | null;
+  trailerKeys: TrailerKeys;
+  /** Also scan the commits behind submodule pointer changes. */
+  recurseSubmodules: boolean;
+  /** How many recent releases to check, paging back, when looking for the previous release to scan from. */
+  maxReleaseLookback: number;
+  /** File recording each sync's commits, absolute: a fallback and cross-check for the scan base. */
+  stateFile?: string;
+  /** How far back the scan reaches when there is no usable previous release. */
+  firstSync: FirstSyncStrategy;
+  /** Replaces the provider detected from the remote URL. */
+  repoProvider?: RepoProvider;
+  /** Remote URL to read repository info from instead of `origin`. */
+  repoUrl?: string;
+  repoHosts: Record<string, RepoProvider>;
+  /** Checkouts synced into one release, absolute. Empty means the working directory. */
+  repoPaths: string[];
   links: ReleaseLink[];
   documents: ReleaseDocumentSpec[];
   releaseNotes?: ReleaseNoteSpec;
+  generateReleaseNotes: boolean;
+  releaseNotesOutput?: string;
+  /** Attach a note to the released commit under `refs/notes/linear-release`. */
+  writeGitNotes: boolean;
+  /** Template for a lightweight tag on the released commit. */
+  tagRelease?: string;
+  /** Push the notes and tag to `origin`. */
+  pushReleaseMarkers: boolean;
   jsonOutput: boolean;
   dryRun: boolean;
   timeoutSeconds: number;
   logLevel: LogLevel;
+  configPath: string | null;
+  settingSources: SettingSources;
+  profiles: SelectedProfile[];
 };
 
-function parseReleaseLink(value: string): ReleaseLink {
+function parseReleaseLink(value: string, flag: string = "--link"): ReleaseLink {
   const bareUrl = parseAbsoluteUrl(value.trim());
   if (bareUrl) {
     return { url: bareUrl.href };
@@ -44,20 +138,24 @@ function parseReleaseLink(value: string): ReleaseLink {
 
   const separatorIndex = value.indexOf("=");
   if (separatorIndex === -1) {
-    throw new Error(`Invalid --link value: "${value}". Expected "https://example.com" or "Label=https://example.com".`);
+    throw new Error(
+      `Invalid ${flag} value: "${value}". Expected "https://example.com" or "Label=https://example.com".`,
+    );
   }
   const label = value.slice(0, separatorIndex).trim();
   const url = value.slice(separatorIndex + 1).trim();
   if (!label) {
-    throw new Error(`Invalid --link value: "${value}". Link label must not be empty.`);
+    throw new Error(`Invalid ${flag} value: "${value}". Link label must not be empty.`);
   }
   if (!url) {
-    throw new Error(`Invalid --link value: "${value}". Link URL must not be empty.`);
+    throw new Error(`Invalid ${flag} value: "${value}". Link URL must not be empty.`);
   }
 
   const parsedUrl = parseAbsoluteUrl(url);
   if (!parsedUrl) {
-    throw new Error(`Invalid --link URL: "${url}". Expected an absolute URL with a scheme (e.g. https://example.com).`);
+    throw new Error(
+      `Invalid ${flag} URL: "${url}". Expected an absolute URL with a scheme (e.g. https://example.com).`,
+    );
   }
 
   return { label, url: parsedUrl.href };
@@ -123,24 +221,339 @@ function parseReleaseDocumentFile(raw: string): ReleaseDocumentSpec {
   return { title, source: { kind: "file", path } };
 }
 
-export function parseCLIArgs(argv: string[]): ParsedCLIArgs {
+function parseSubjectRegex(raw: string | undefined, label: string): string | null {
+  if (raw === undefined || raw.length === 0) {
+    return null;
+  }
+  try {
+    new RegExp(raw);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid ${label} regex: ${detail}`);
+  }
+  return raw;
+}
+
+function selectProfiles(
+  names: string[],
+  all: boolean,
+  command: string,
+  config: ProjectConfig,
+  configPath: string | null,
+): [string, ProfileConfig][] {
+  if (names.length === 0 && !all) {
+    return [];
+  }
+  const flag = all ? "--all-profiles" : "--profile";
+  if (names.length > 0 && all) {
+    throw new Error("Conflicting profile flags: --profile, --all-profiles. Use only one.");
+  }
+  if (command !== "sync") {
+    throw new Error(`${flag} is only supported by the sync command`);
+  }
+  const defined = config.profiles ?? {};
+  const available = Object.keys(defined);
+  if (available.length === 0) {
+    throw new Error(
+      configPath
+        ? `${flag} requires profiles in ${configPath}, but none are defined`
+        : `${flag} requires a config file defining profiles`,
+    );
+  }
+  if (all) {
+    return Object.entries(defined);
+  }
+  const selected: [string, ProfileConfig][] = [];
+  for (const name of names) {
+    const profile = defined[name];
+    if (!profile) {
+      throw new Error(`Unknown --profile "${name}" (available: ${available.join(", ")})`);
+    }
+    if (!selected.some(([existing]) => existing === name)) {
+      selected.push([name, profile]);
+    }
+  }
+  return selected;
+}
+
+function parseVersionFrom(values: {
+  "release-version"?: string;
+  "version-from"?: string;
+  "version-tag-pattern"?: string;
+  "version-file"?: string;
+}): VersionSource | undefined {
+  const raw = values["version-from"];
+  if (raw === undefined) {
+    if (values["version-tag-pattern"] !== undefined || values["version-file"] !== undefined) {
+      throw new Error("--version-tag-pattern and --version-file require --version-from");
+    }
+    return undefined;
+  }
+  if (!isVersionSource(raw)) {
+    throw new Error(`Invalid --version-from value: "${raw}". Expected one of: ${VERSION_SOURCES.join(", ")}.`);
+  }
+  if (values["release-version"] !== undefined) {
+    throw new Error("Conflicting version flags: --release-version, --version-from. Use only one.");
+  }
+  if (raw === "tag" && values["version-file"] !== undefined) {
+    throw new Error("--version-file cannot be used with --version-from=tag");
+  }
+  if (raw !== "tag" && values["version-tag-pattern"] !== undefined) {
+    throw new Error(`--version-tag-pattern requires --version-from=tag, not ${raw}`);
+  }
+  return raw;
+}
+
+function parseRepoProvider(raw: string | undefined): RepoProvider | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRepoProvider(raw)) {
+    throw new Error(`Invalid --repo-provider value: "${raw}". Expected one of: ${REPO_PROVIDERS.join(", ")}.`);
+  }
+  return raw;
+}
+
+function parseRepoUrlFlag(raw: string | undefined): string | undefined {
+  if (raw === undefined) return undefined;
+  const url = raw.trim();
+  if (!parseRepoUrl(url)) {
+    throw new Error(
+      `Invalid --repo-url value: "${raw}". Expected a remote URL such as https://host/group/repo.git, git@host:group/repo.git, or ssh://git@host:2222/group/repo.git.`,
+    );
+  }
+  return url;
+}
+
+function parseRepoPaths(raw: string[], cwd: string): string[] {
+  const paths: string[] = [];
+  for (const value of raw) {
+    const path = resolve(cwd, value.trim());
+    if (!value.trim() || !existsSync(path) || !statSync(path).isDirectory()) {
+      throw new Error(`Invalid --repo-path value: "${value}". Expected a directory containing a git checkout.`);
+    }
+    if (paths.includes(path)) {
+      throw new Error(`Duplicate --repo-path "${value}". Each repository can only be synced once.`);
+    }
+    paths.push(path);
+  }
+  return paths;
+}
+
+function parseReleaseNotesOutput(raw: string | undefined, generate: boolean): string | undefined {
+  if (raw === undefined) return undefined;
+  if (!generate) {
+    throw new Error("--release-notes-output requires --generate-release-notes");
+  }
+  const path = raw.trim();
+  if (!path) {
+    throw new Error(`Invalid --release-notes-output value: "${raw}". Path must not be empty.`);
+  }
+  return path;
+}
+
+/**
+ * `preview` takes its range either as `--base-ref=<ref>` or as a positional
+ * `<base>..<head>` (`<head>` defaults to HEAD when omitted, as in git).
+ */
+function parsePreviewRange(
+  command: string,
+  range: string | undefined,
+  baseRefFlag: string | undefined,
+  targetRef: string | undefined,
+): { baseRef?: string; headRef?: string } {
+  if (command !== "preview") {
+    return { baseRef: baseRefFlag };
+  }
+  if (range === undefined) {
+    if (baseRefFlag === undefined) {
+      throw new Error("preview requires --base-ref=<ref> or a range like main..HEAD");
+    }
+    return { baseRef: baseRefFlag, headRef: targetRef };
+  }
+  if (baseRefFlag !== undefined) {
+    throw new Error(`Conflicting range arguments: --base-ref, "${range}". Use only one.`);
+  }
+  if (range.includes("...")) {
+    throw new Error(`Invalid preview range: "${range}". Use a two-dot range like main..HEAD.`);
+  }
+  const separatorIndex = range.indexOf("..");
+  const base = separatorIndex === -1 ? range : range.slice(0, separatorIndex);
+  const head = separatorIndex === -1 ? "" : range.slice(separatorIndex + 2);
+  if (!base.trim()) {
+    throw new Error(`Invalid preview range: "${range}". Expected <base>..<head>.`);
+  }
+  if (head.trim() && targetRef !== undefined) {
+    throw new Error(`Conflicting range arguments: "${range}", --to. Use only one.`);
+  }
+  return { baseRef: base.trim(), headRef: head.trim() || targetRef };
+}
+
+/** `backfill --tags=<glob>` names each release after its tag, so it takes no name or version flags. */
+function parseBackfillTags(
+  command: string,
+  values: { tags?: string; name?: string; "release-version"?: string; "version-from"?: string },
+): string | undefined {
+  if (command !== "backfill") {
+    if (values.tags !== undefined) {
+      throw new Error("--tags is only supported by the backfill command");
+    }
+    return undefined;
+  }
+  const pattern = values.tags?.trim();
+  if (!pattern) {
+    throw new Error('backfill requires --tags=<glob>, e.g. --tags="v*"');
+  }
+  const conflicting = (["name", "release-version", "version-from"] as const)
+    .filter((flag) => values[flag] !== undefined)
+    .map((flag) => `--${flag}`);
+  if (conflicting.length > 0) {
+    throw new Error(`${conflicting.join(", ")} cannot be used with backfill; each release is named after its tag`);
+  }
+  return pattern;
+}
+
+const TARGET_REF_COMMANDS = ["sync", "complete", "preview", "explain"];
+
+/** `--to` names the commit a release is for; `update` only moves a release between stages. */
+function parseTargetRef(command: string, raw: string | undefined): string | undefined {
+  if (raw === undefined) return undefined;
+  if (!TARGET_REF_COMMANDS.includes(command)) {
+    throw new Error(`--to is only supported by the ${TARGET_REF_COMMANDS.join(", ")} commands`);
+  }
+  const ref = raw.trim();
+  if (!ref) {
+    throw new Error('Invalid --to value: "". Expected a commit SHA, tag, or branch.');
+  }
+  return ref;
+}
+
+const RELEASE_MARKER_COMMANDS = ["sync", "complete"];
+
+/**
+ * `--write-git-notes`, `--tag-release` and `--push-release-markers` mark the
+ * released commit once Linear has the release, so only commands that release
+ * a commit take them.
+ */
+function parseReleaseMarkers(
+  command: string,
+  values: { writeGitNotes: boolean; tagRelease: string | undefined; push: boolean },
+): { writeGitNotes: boolean; tagRelease?: string; pushReleaseMarkers: boolean } {
+  const flags = [
+    values.writeGitNotes && "--write-git-notes",
+    values.tagRelease !== undefined && "--tag-release",
+    values.push && "--push-release-markers",
+  ].filter(Boolean);
+  if (flags.length > 0 && !RELEASE_MARKER_COMMANDS.includes(command)) {
+    throw new Error(
+      `${flags.join(", ")} ${flags.length === 1 ? "is" : "are"} only supported by the ${RELEASE_MARKER_COMMANDS.join(", ")} commands`,
+    );
+  }
+  if (values.tagRelease !== undefined && !values.tagRelease.trim()) {
+    throw new Error(
+      'Invalid --tag-release value: "". Expected a tag name template, e.g. --tag-release="linear/{{release.version}}"',
+    );
+  }
+  if (values.push && !values.writeGitNotes && values.tagRelease === undefined) {
+    throw new Error("--push-release-markers requires --write-git-notes or --tag-release");
+  }
+  return {
+    writeGitNotes: values.writeGitNotes,
+    tagRelease: values.tagRelease?.trim(),
+    pushReleaseMarkers: values.push,
+  };
+}
+
+const EXPLAIN_ISSUE_REGEX = /^(\w{1,7})-([0-9]{1,9})$/;
+
+/** `explain ENG-123` targets an issue; anything else is taken as a commit SHA or ref. */
+function parseExplainTarget(raw: string | undefined): ExplainTarget {
+  const value = raw?.trim();
+  if (!value) {
+    throw new Error("explain requires an issue identifier or commit, e.g. explain ENG-123");
+  }
+  const issue = value.match(EXPLAIN_ISSUE_REGEX);
+  if (issue) {
+    return { kind: "issue", identifier: `${issue[1]!.toUpperCase()}-${Number(issue[2])}` };
+  }
+  return { kind: "commit", ref: value };
+}
+
+function splitCommaList(raw: string | undefined): string[] {
+  return raw
+    ? raw
+        .split(",")
+        .map((p) => p.trim())
+        .filter((p) => p.length > 0)
+    : [];
+}
+
+/**
+ * Loads the project config: the explicit `--config` path when given (a missing
+ * file is an error), otherwise the nearest config file discovered from `cwd`.
+ */
+function loadProjectConfig(
+  explicitPath: string | undefined,
+  cwd: string,
+): { path: string | null; config: ProjectConfig } {
+  if (explicitPath !== undefined) {
+    if (!explicitPath.trim()) {
+      throw new Error('Invalid --config value: "". Path must not be empty.');
+    }
+    const path = resolve(cwd, explicitPath.trim());
+    return { path, config: loadConfigFile(path) };
+  }
+  const path = findConfigFile(cwd);
+  return { path, config: path ? loadConfigFile(path) : {} };
+}
+
+export function parseCLIArgs(argv: string[], options: { cwd?: string } = {}): ParsedCLIArgs {
+  const { cwd = process.cwd() } = options;
   const { values, positionals, tokens } = parseArgs({
     args: argv,
     options: {
+      config: { type: "string" },
+      profile: { type: "string", multiple: true },
+      "all-profiles": { type: "boolean", default: false },
       name: { type: "string" },
       "release-version": { type: "string" },
+      "version-from": { type: "string" },
+      "version-tag-pattern": { type: "string" },
+      "version-file": { type: "string" },
       stage: { type: "string" },
       "base-ref": { type: "string" },
+      to: { type: "string" },
+      tags: { type: "string" },
       "include-paths": { type: "string" },
+      "exclude-paths": { type: "string" },
+      workspace: { type: "string", multiple: true },
       "include-subjects": { type: "string" },
+      "exclude-subjects": { type: "string" },
+      "include-authors": { type: "string" },
+      "exclude-authors": { type: "string" },
+      "extraction-rule": { type: "string", multiple: true },
+      "team-keys": { type: "string" },
+      "issue-trailers": { type: "string" },
+      "pr-trailers": { type: "string" },
+      "exclude-trailers": { type: "string" },
+      "recurse-submodules": { type: "boolean" },
+      "repo-provider": { type: "string" },
+      "repo-url": { type: "string" },
+      "repo-path": { type: "string", multiple: true },
       link: { type: "string", multiple: true },
       document: { type: "string", multiple: true },
       "document-file": { type: "string", multiple: true },
       "release-notes": { type: "string", multiple: true },
       "release-notes-file": { type: "string", multiple: true },
+      "generate-release-notes": { type: "boolean", default: false },
+      "write-git-notes": { type: "boolean", default: false },
+      "tag-release": { type: "string" },
+      "push-release-markers": { type: "boolean", default: false },
+      "release-notes-output": { type: "string" },
       json: { type: "boolean", default: false },
       "dry-run": { type: "boolean", default: false },
       timeout: { type: "string" },
+      "max-release-lookback": { type: "string" },
+      "state-file": { type: "string" },
+      "first-sync": { type: "string" },
       quiet: { type: "boolean", default: false },
       verbose: { type: "boolean", default: false },
     },
@@ -149,14 +562,22 @@ export function parseCLIArgs(argv: string[]): ParsedCLIArgs {
     tokens: true,
   });
 
+  const { path: configPath, config } = loadProjectConfig(values.config, cwd);
+  const configLabel = (key: string) => `${key} in ${configPath}`;
+
   const DEFAULT_TIMEOUT_SECONDS = 60;
   let timeoutSeconds = DEFAULT_TIMEOUT_SECONDS;
+  let timeoutSource: SettingSource = "default";
   if (values.timeout !== undefined) {
     const parsed = Number(values.timeout);
     if (Number.isNaN(parsed) || parsed <= 0) {
       throw new Error(`Invalid --timeout value: "${values.timeout}". Must be a positive number of seconds.`);
     }
     timeoutSeconds = parsed;
+    timeoutSource = "cli";
+  } else if (config.timeout !== undefined) {
+    timeoutSeconds = config.timeout;
+    timeoutSource = "config";
   }
 
   if (values.quiet && values.verbose) {
@@ -167,19 +588,222 @@ export function parseCLIArgs(argv: string[]): ParsedCLIArgs {
   if (values.quiet) logLevel = LogLevel.Quiet;
   else if (values.verbose) logLevel = LogLevel.Verbose;
 
-  let includeSubjects: string | null = null;
-  const rawIncludeSubjects = values["include-subjects"];
-  if (rawIncludeSubjects !== undefined && rawIncludeSubjects.length > 0) {
+  const versionFrom = parseVersionFrom(values);
+
+  // A flag that is passed — even empty — overrides the config value, so
+  // `--include-subjects=""` can switch off a filter the config file sets.
+  let includeSubjects: string | null;
+  let includeSubjectsSource: SettingSource = "default";
+  if (values["include-subjects"] !== undefined) {
+    includeSubjects = parseSubjectRegex(values["include-subjects"], "--include-subjects");
+    includeSubjectsSource = "cli";
+  } else {
+    includeSubjects = parseSubjectRegex(config.includeSubjects, configLabel("includeSubjects"));
+    if (includeSubjects !== null) includeSubjectsSource = "config";
+  }
+
+  let excludeSubjects: string | null;
+  let excludeSubjectsSource: SettingSource = "default";
+  if (values["exclude-subjects"] !== undefined) {
+    excludeSubjects = parseSubjectRegex(values["exclude-subjects"], "--exclude-subjects");
+    excludeSubjectsSource = "cli";
+  } else {
+    excludeSubjects = parseSubjectRegex(config.excludeSubjects, configLabel("excludeSubjects"));
+    if (excludeSubjects !== null) excludeSubjectsSource = "config";
+  }
+
+  // Like the trailer lists, each author list is set on its own.
+  const authors = { include: [] as string[], exclude: [] as string[] };
+  let authorsSource: SettingSource = "default";
+  for (const [field, flag, configKey] of [
+    ["include", "include-authors", "includeAuthors"],
+    ["exclude", "exclude-authors", "excludeAuthors"],
+  ] as const) {
+    const cliValue = values[flag];
+    const configValue = config[configKey];
+    if (cliValue !== undefined) {
+      authors[field] = parseAuthorPatterns(splitCommaList(cliValue), `--${flag}`);
+      authorsSource = "cli";
+    } else if (configValue !== undefined) {
+      authors[field] = parseAuthorPatterns(configValue, configLabel(configKey));
+      if (authorsSource === "default") authorsSource = "config";
+    }
+  }
+
+  let includePaths: string[] = [];
+  let includePathsSource: SettingSource = "default";
+  if (values["include-paths"] !== undefined) {
+    includePaths = splitCommaList(values["include-paths"]);
+    includePathsSource = "cli";
+  } else if (config.includePaths && config.includePaths.length > 0) {
+    includePaths = config.includePaths;
+    includePathsSource = "config";
+  }
+
+  let excludePaths: string[] = [];
+  let excludePathsSource: SettingSource = "default";
+  if (values["exclude-paths"] !== undefined) {
+    excludePaths = splitCommaList(values["exclude-paths"]);
+    excludePathsSource = "cli";
+  } else if (config.excludePaths && config.excludePaths.length > 0) {
+    excludePaths = config.excludePaths;
+    excludePathsSource = "config";
+  }
+
+  let workspaces: string[] = [];
+  let workspacesSource: SettingSource = "default";
+  if (values.workspace !== undefined) {
+    workspaces = [...new Set(values.workspace.flatMap((value) => splitCommaList(value)))];
+    workspacesSource = "cli";
+  } else if (config.workspaces && config.workspaces.length > 0) {
+    workspaces = config.workspaces;
+    workspacesSource = "config";
+  }
+
+  // Rules from the CLI replace the config's list rather than extending it, like --link.
+  let extractionRules: ExtractionRule[] = [];
+  let extractionRulesSource: SettingSource = "default";
+  if (values["extraction-rule"] !== undefined) {
+    extractionRules = values["extraction-rule"].map((value) => parseExtractionRuleSpec(value));
+    extractionRulesSource = "cli";
+  } else if (config.extractionRules && config.extractionRules.length > 0) {
+    extractionRules = config.extractionRules.map((rule, index) =>
+      createExtractionRule(rule, configLabel(`extractionRules[${index}]`)),
+    );
+    extractionRulesSource = "config";
+  }
+  const duplicateRule = extractionRules.find(
+    (rule, index) => extractionRules.findIndex((other) => other.name === rule.name) !== index,
+  );
+  if (duplicateRule) {
+    throw new Error(`Duplicate extraction rule name "${duplicateRule.name}". Rule names must be unique.`);
+  }
+
+  let teamKeys: TeamKeysSetting | null = null;
+  let teamKeysSource: SettingSource = "default";
+  if (values["team-keys"] !== undefined) {
+    teamKeys = parseTeamKeys(splitCommaList(values["team-keys"]), "--team-keys");
+    teamKeysSource = "cli";
+  } else if (config.teamKeys && config.teamKeys.length > 0) {
+    teamKeys = parseTeamKeys(config.teamKeys, configLabel("teamKeys"));
+    teamKeysSource = "config";
+  }
+
+  // Each list is set on its own; an empty --issue-trailers= turns issue trailers off.
+  const trailerKeys: TrailerKeys = { ...DEFAULT_TRAILER_KEYS };
+  let trailerKeysSource: SettingSource = "default";
+  for (const [field, flag, configKey] of [
+    ["issues", "issue-trailers", "issueTrailers"],
+    ["pullRequests", "pr-trailers", "pullRequestTrailers"],
+    ["exclude", "exclude-trailers", "excludeTrailers"],
+  ] as const) {
+    const cliValue = values[flag];
+    const configValue = config[configKey];
+    if (cliValue !== undefined) {
+      trailerKeys[field] = parseTrailerKeyList(splitCommaList(cliValue), `--${flag}`);
+      trailerKeysSource = "cli";
+    } else if (configValue !== undefined) {
+      trailerKeys[field] = parseTrailerKeyList(configValue, configLabel(configKey));
+      if (trailerKeysSource === "default") trailerKeysSource = "config";
+    }
+  }
+
+  let recurseSubmodules = false;
+  let recurseSubmodulesSource: SettingSource = "default";
+  if (values["recurse-submodules"] !== undefined) {
+    recurseSubmodules = values["recurse-submodules"];
+    recurseSubmodulesSource = "cli";
+  } else if (config.recurseSubmodules !== undefined) {
+    recurseSubmodules = config.recurseSubmodules;
+    recurseSubmodulesSource = "config";
+  }
+
+  const DEFAULT_MAX_RELEASE_LOOKBACK = 100;
+  let maxReleaseLookback = DEFAULT_MAX_RELEASE_LOOKBACK;
+  let maxReleaseLookbackSource: SettingSource = "default";
+  if (values["max-release-lookback"] !== undefined) {
+    const parsed = Number(values["max-release-lookback"]);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(
+        `Invalid --max-release-lookback value: "${values["max-release-lookback"]}". Must be a positive whole number of releases.`,
+      );
+    }
+    maxReleaseLookback = parsed;
+    maxReleaseLookbackSource = "cli";
+  } else if (config.maxReleaseLookback !== undefined) {
+    maxReleaseLookback = config.maxReleaseLookback;
+    maxReleaseLookbackSource = "config";
+  }
+
+  // A config's state file is relative to the config, which is usually committed
+  // at the repository root; the flag is relative to the working directory.
+  let stateFile: string | undefined;
+  let stateFileSource: SettingSource = "default";
+  if (values["state-file"] !== undefined) {
+    if (!values["state-file"].trim()) {
+      throw new Error(`Invalid --state-file value: "${values["state-file"]}". Path must not be empty.`);
+    }
+    stateFile = resolve(cwd, values["state-file"].trim());
+    stateFileSource = "cli";
+  } else if (config.stateFile !== undefined) {
+    stateFile = resolve(configPath ? dirname(configPath) : cwd, config.stateFile.trim());
+    stateFileSource = "config";
+  }
+
+  let firstSync: FirstSyncStrategy = { kind: "head" };
+  let firstSyncSource: SettingSource = "default";
+  if (values["first-sync"] !== undefined) {
     try {
-      new RegExp(rawIncludeSubjects);
-    } catch (err) {
-      const detail = err instanceof Error ? err.message : String(err);
-      throw new Error(`Invalid --include-subjects regex: ${detail}`);
+      firstSync = parseFirstSyncStrategy(values["first-sync"]);
+    } catch (e) {
+      const detail = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid --first-sync value: "${values["first-sync"]}". ${detail}`);
+    }
+    firstSyncSource = "cli";
+  } else if (config.firstSync !== undefined) {
+    firstSync = parseFirstSyncStrategy(config.firstSync);
+    firstSyncSource = "config";
+  }
+
+  const repoProvider = parseRepoProvider(values["repo-provider"]);
+  const repoUrl = parseRepoUrlFlag(values["repo-url"]);
+  const repoPaths = parseRepoPaths(values["repo-path"] ?? [], cwd);
+
+  // `plan` is an alias of `preview`.
+  const command = positionals[0] === "plan" ? "preview" : positionals[0] || "sync";
+  const targetRef = parseTargetRef(command, values.to);
+  const { baseRef, headRef } = parsePreviewRange(command, positionals[1], values["base-ref"], targetRef);
+  if (repoPaths.length > 0 && command !== "sync") {
+    throw new Error("--repo-path is only supported by the sync command");
+  }
+  if (repoPaths.length > 1) {
+    // These name a single repository; each checkout reads its own origin remote, scan base, and workspace.
+    const conflicting = [
+      baseRef !== undefined && "--base-ref",
+      repoUrl !== undefined && "--repo-url",
+      workspaces.length > 0 && "--workspace",
+      targetRef !== undefined && "--to",
+    ].filter(Boolean);
+    if (conflicting.length > 0) {
+      throw new Error(`${conflicting.join(", ")} cannot be used with more than one --repo-path`);
     }
-    includeSubjects = rawIncludeSubjects;
   }
-  const command = positionals[0] || "sync";
-  const links = (values.link ?? []).map(parseReleaseLink);
+  if (teamKeys?.auto && (command === "preview" || (command === "explain" && baseRef))) {
+    throw new Error(
+      `--team-keys=auto fetches team keys with an access key, which ${command === "preview" ? "preview" : "explain --base-ref"} does not use. List the team keys instead.`,
+    );
+  }
+  const explainTarget = command === "explain" ? parseExplainTarget(positionals[1]) : undefined;
+  const backfillTags = parseBackfillTags(command, values);
+  let links: ReleaseLink[] = [];
+  let linksSource: SettingSource = "default";
+  if (values.link !== undefined) {
+    links = values.link.map((value) => parseReleaseLink(value));
+    linksSource = "cli";
+  } else if (config.links && config.links.length > 0) {
+    links = config.links.map((value) => parseReleaseLink(value, configLabel("links")));
+    linksSource = "config";
+  }
 
   // Walk tokens in argv order so cross-flag last-wins and same-title overrides work correctly
   // (parseArgs's `values` map groups by flag name and loses cross-flag ordering — see
@@ -212,27 +836,112 @@ export function parseCLIArgs(argv: string[]): ParsedCLIArgs {
     }
   }
   const releaseNotes = noteSpecs.length > 0 ? noteSpecs[noteSpecs.length - 1] : undefined;
+  const generateReleaseNotes = values["generate-release-notes"] ?? false;
+  const releaseNotesOutput = parseReleaseNotesOutput(values["release-notes-output"], generateReleaseNotes);
+  if (generateReleaseNotes) {
+    if (command !== "sync") {
+      throw new Error("--generate-release-notes is only supported by the sync command");
+    }
+    if (releaseNotes) {
+      throw new Error(
+        "Conflicting release notes flags: --generate-release-notes, --release-notes/--release-notes-file. Use only one.",
+      );
+    }
+  }
+
+  const releaseMarkers = parseReleaseMarkers(command, {
+    writeGitNotes: values["write-git-notes"] ?? false,
+    tagRelease: values["tag-release"],
+    push: values["push-release-markers"] ?? false,
+  });
+
+  // Profile values slot in between CLI flags and the top-level config keys.
+  const profiles = selectProfiles(
+    values.profile ?? [],
+    values["all-profiles"] ?? false,
+    command,
+    config,
+    configPath,
+  ).map(([name, profile]): SelectedProfile => {
+    const useProfilePaths = includePathsSource !== "cli" && (profile.includePaths?.length ?? 0) > 0;
+    const useProfileWorkspaces = workspacesSource !== "cli" && (profile.workspaces?.length ?? 0) > 0;
+    return {
+      name,
+      accessKeyEnv: profile.accessKeyEnv,
+      includePaths: useProfilePaths ? profile.includePaths! : includePaths,
+      includePathsSource: useProfilePaths ? "profile" : includePathsSource,
+      workspaces: useProfileWorkspaces ? profile.workspaces! : workspaces,
+      workspacesSource: useProfileWorkspaces ? "profile" : workspacesSource,
+      releaseName: values.name ?? profile.name,
+      // --version-from replaces the profile's static version like any other CLI flag.
+      releaseVersion: values["release-version"] ?? (versionFrom ? undefined : profile.releaseVersion),
+    };
+  });
+
+  if (releaseNotesOutput && profiles.length > 1) {
+    throw new Error("--release-notes-output cannot be used when syncing more than one profile");
+  }
 
   return {
     command,
     releaseName: values.name,
     releaseVersion: values["release-version"],
+    versionFrom,
+    versionTagPattern: values["version-tag-pattern"],
+    versionFile: values["version-file"],
     stageName: values.stage,
-    baseRef: values["base-ref"],
-    includePaths: values["include-paths"]
-      ? values["include-paths"]
-          .split(",")
-          .map((p) => p.trim())
-          .filter((p) => p.length > 0)
-      : [],
+    baseRef,
+    headRef,
+    targetRef,
+    explainTarget,
+    backfillTags,
+    includePaths,
+    excludePaths,
+    workspaces,
     includeSubjects,
+    excludeSubjects,
+    includeAuthors: authors.include,
+    excludeAuthors: authors.exclude,
+    extractionRules,
+    teamKeys,
+    trailerKeys,
+    recurseSubmodules,
+    maxReleaseLookback,
+    stateFile,
+    firstSync,
+    repoProvider,
+    repoUrl,
+    repoHosts: config.repoHosts ?? {},
+    repoPaths,
     links,
     documents,
     releaseNotes,
+    generateReleaseNotes,
+    releaseNotesOutput,
+    ...releaseMarkers,
     jsonOutput: values.json ?? false,
     dryRun: values["dry-run"] ?? false,
     timeoutSeconds,
     logLevel,
+    configPath,
+    settingSources: {
+      includePaths: includePathsSource,
+      excludePaths: excludePathsSource,
+      workspaces: workspacesSource,
+      includeSubjects: includeSubjectsSource,
+      excludeSubjects: excludeSubjectsSource,
+      authors: authorsSource,
+      links: linksSource,
+      extractionRules: extractionRulesSource,
+      teamKeys: teamKeysSource,
+      trailerKeys: trailerKeysSource,
+      recurseSubmodules: recurseSubmodulesSource,
+      maxReleaseLookback: maxReleaseLookbackSource,
+      stateFile: stateFileSource,
+      firstSync: firstSyncSource,
+      timeoutSeconds: timeoutSource,
+    },
+    profiles,
   };
 }
 
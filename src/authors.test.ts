@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { matchesAuthor, parseAuthorPatterns } from "./authors";
+
+describe("parseAuthorPatterns", () => {
+  it("accepts names, emails, and wildcards", () => {
+    expect(parseAuthorPatterns(["renovate[bot]", "*@example.com"], "--exclude-authors")).toEqual([
+      "renovate[bot]",
+      "*@example.com",
+    ]);
+  });
+
+  it.each(["*", " ** "])("rejects %j", (entry) => {
+    expect(() => parseAuthorPatterns([entry], "--exclude-authors")).toThrow(
+      `Invalid --exclude-authors entry: "${entry}"`,
+    );
+  });
+});
+
+describe("matchesAuthor", () => {
+  const renovate = { name: "renovate[bot]", email: "29139614+renovate[bot]@users.noreply.github.com" };
+
+  it("matches the whole name or email, ignoring case", () => {
+    expect(matchesAuthor(["Renovate[bot]"], renovate)).toBe(true);
+    expect(matchesAuthor(["renovate"], renovate)).toBe(false);
+    expect(matchesAuthor(["*@users.noreply.github.com"], renovate)).toBe(true);
+  });
+
+  it("treats * as a wildcard and everything else literally", () => {
+    expect(matchesAuthor(["*[bot]"], renovate)).toBe(true);
+    expect(matchesAuthor(["renovate.bot."], renovate)).toBe(false);
+  });
+
+  it("matches nothing for an unknown author", () => {
+    expect(matchesAuthor(["*bot*"], null)).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import { CommitAuthor } from "./types";
+
+/**
+ * Validates `--include-authors` / `--exclude-authors` entries. Each entry is
+ * matched, case-insensitively, against the whole author name or email; `*`
+ * matches any run of characters (`*[bot]`, `*@users.noreply.github.com`).
+ *
+ * @param label - Names the flag or config key in error messages
+ */
+export function parseAuthorPatterns(entries: string[], label: string): string[] {
+  for (const entry of entries) {
+    if (!entry.replace(/\*/g, "").trim()) {
+      throw new Error(`Invalid ${label} entry: "${entry}". An author pattern needs more than wildcards.`);
+    }
+  }
+  return entries;
+}
+
+/** Whether any pattern matches the author's name or email. An unknown author matches nothing. */
+export function matchesAuthor(patterns: string[], author: CommitAuthor | null | undefined): boolean {
+  if (!author) {
+    return false;
+  }
+  return patterns.some((pattern) => {
+    const regex = new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`, "i");
+    return regex.test(author.name) || regex.test(author.email);
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
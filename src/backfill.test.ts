@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { BackfillEntry, fetchBackfillReleases, formatBackfillSummary, planBackfill } from "./backfill";
+import { Release } from "./types";
+
+const sha = (n: number) => String(n).repeat(40);
+
+const tags = [
+  { name: "v1.0.0", sha: sha(1) },
+  { name: "v1.1.0", sha: sha(2) },
+  { name: "v1.1.0-final", sha: sha(2) },
+  { name: "v1.2.0", sha: sha(3) },
+];
+
+describe("planBackfill", () => {
+  it("replays consecutive tag ranges, starting from the first tag", () => {
+    const plan = planBackfill(tags, { tagPattern: "v*" });
+    expect(plan).toEqual({
+      steps: [
+        { tag: "v1.1.0", sha: sha(2), from: sha(1), name: "v1.1.0", version: "1.1.0" },
+        { tag: "v1.2.0", sha: sha(3), from: sha(2), name: "v1.2.0", version: "1.2.0" },
+      ],
+      resumedAfter: null,
+      uncompleted: [],
+      duplicateTags: ["v1.1.0-final"],
+    });
+  });
+
+  it("also releases the first tag when a base SHA bounds its range", () => {
+    const plan = planBackfill(tags, { tagPattern: "v*", baseSha: sha(9) });
+    expect(plan.steps[0]).toEqual({ tag: "v1.0.0", sha: sha(1), from: sha(9), name: "v1.0.0", version: "1.0.0" });
+    expect(plan.steps).toHaveLength(3);
+  });
+
+  it("resumes after the newest tag that already has a release, by commit or version", () => {
+    const bySha = planBackfill(tags, {
+      tagPattern: "v*",
+      baseSha: sha(9),
+      releases: [{ id: "r1", name: "v1.1.0", commitSha: sha(2), createdAt: "2026-01-01T00:00:00Z" }],
+    });
+    expect(bySha.resumedAfter).toBe("v1.1.0-final");
+    expect(bySha.steps.map((step) => [step.tag, step.from])).toEqual([["v1.2.0", sha(2)]]);
+
+    const byVersion = planBackfill(tags, {
+      tagPattern: "v*",
+      releases: [{ id: "r1", name: "1.0.0", version: "1.0.0", createdAt: "2026-01-01T00:00:00Z" }],
+    });
+    expect(byVersion.resumedAfter).toBe("v1.0.0");
+    expect(byVersion.steps.map((step) => step.tag)).toEqual(["v1.1.0", "v1.2.0"]);
+  });
+
+  it("has nothing to do once every tag has a release", () => {
+    const plan = planBackfill(tags, {
+      tagPattern: "v*",
+      releases: [{ id: "r3", name: "v1.2.0", commitSha: sha(3), createdAt: "2026-01-01T00:00:00Z" }],
+    });
+    expect(plan.steps).toEqual([]);
+    expect(plan.resumedAfter).toBe("v1.2.0");
+  });
+
+  it("lists skipped releases an earlier run didn't complete", () => {
+    const plan = planBackfill(tags, {
+      tagPattern: "v*",
+      releases: [
+        {
+          id: "r2",
+          name: "v1.1.0",
+          commitSha: sha(2),
+          createdAt: "2026-01-02T00:00:00Z",
+          stage: { name: "Started", type: "started" },
+        },
+        {
+          id: "r1",
+          name: "v1.0.0",
+          commitSha: sha(1),
+          createdAt: "2026-01-01T00:00:00Z",
+          stage: { name: "Released", type: "completed" },
+        },
+      ],
+    });
+    expect(plan.resumedAfter).toBe("v1.1.0-final");
+    expect(plan.uncompleted).toEqual([{ tag: "v1.1.0", sha: sha(2), name: "v1.1.0", version: "1.1.0" }]);
+    expect(plan.steps.map((step) => step.tag)).toEqual(["v1.2.0"]);
+  });
+
+  it("strips the pattern's literal prefix from versions", () => {
+    const plan = planBackfill(
+      [
+        { name: "web-v1.0.0", sha: sha(1) },
+        { name: "web-v1.1.0", sha: sha(2) },
+      ],
+      { tagPattern: "web-v*" },
+    );
+    expect(plan.steps[0]).toMatchObject({ name: "web-v1.1.0", version: "1.1.0" });
+  });
+});
+
+describe("fetchBackfillReleases", () => {
+  const release = (n: number, commitSha = sha(n)): Release => ({
+    id: `r${n}`,
+    name: `release ${n}`,
+    commitSha,
+    createdAt: "2026-01-01T00:00:00Z",
+  });
+
+  it("pages back until a release covers the oldest tag", async () => {
+    const pages: Record<string, Release[]> = {
+      first: [release(8), release(7)],
+      r7: [release(6), release(1)],
+      r1: [release(0)],
+    };
+    const requested: string[] = [];
+    const releases = await fetchBackfillReleases(tags, "v*", async (before) => {
+      requested.push(before ?? "first");
+      return pages[before ?? "first"]!;
+    });
+    expect(requested).toEqual(["first", "r7"]);
+    expect(releases.map((entry) => entry.id)).toEqual(["r8", "r7", "r6", "r1"]);
+  });
+
+  it("stops when the history runs out", async () => {
+    const requested: string[] = [];
+    const releases = await fetchBackfillReleases(tags, "v*", async (before) => {
+      requested.push(before ?? "first");
+      return before ? [] : [release(8)];
+    });
+    expect(requested).toEqual(["first", "r8"]);
+    expect(releases.map((entry) => entry.id)).toEqual(["r8"]);
+  });
+});
+
+describe("formatBackfillSummary", () => {
+  const entry: BackfillEntry = {
+    tag: "v1.1.0",
+    sha: sha(2),
+    from: sha(1),
+    name: "v1.1.0",
+    version: "1.1.0",
+    commitCount: 4,
+    issues: [
+      { identifier: "ENG-1", commitSha: sha(2) },
+      { identifier: "ENG-2", commitSha: sha(2) },
+    ],
+    revertedIssues: [],
+    pullRequests: [12],
+    release: null,
+  };
+
+  it("renders a row per release with totals", () => {
+    expect(formatBackfillSummary([entry], { dryRun: true })).toBe(
+      [
+        "Would backfill 1 release",
+        "",
+        "TAG     VERSION  RANGE             COMMITS  ISSUES  PRS",
+        "v1.1.0  1.1.0    1111111..2222222  4        2       1",
+        "",
+        "Issues: 2",
+      ].join("\n"),
+    );
+  });
+
+  it("reports when there is nothing to backfill", () => {
+    expect(formatBackfillSummary([], { dryRun: false })).toBe("Backfilled 0 releases");
+  });
+});
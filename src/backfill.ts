@@ -0,0 +1,162 @@
+import { versionFromTag } from "./release-version";
+import { ReleaseSummary } from "./result";
+import { IssueReference, Release } from "./types";
+import { pluralize } from "./util";
+
+/** One release to replay: the commits of `from..sha` become the release named after `tag`. */
+export type BackfillStep = {
+  tag: string;
+  /** The tag's commit; the release's `commitSha`. */
+  sha: string;
+  /** Exclusive start of the range: the previous tag's commit, or `--base-ref` for the first tag. */
+  from: string;
+  name: string;
+  version: string;
+};
+
+/** A tag an earlier run released but didn't complete, so its release is completed again. */
+export type BackfillCompletion = Omit<BackfillStep, "from">;
+
+export type BackfillPlan = {
+  steps: BackfillStep[];
+  /** The newest tag that already has a release; earlier tags are skipped. */
+  resumedAfter: string | null;
+  /** Skipped tags whose release isn't in a completed stage, oldest first. */
+  uncompleted: BackfillCompletion[];
+  /** Tags skipped because they point at the same commit as the tag before them. */
+  duplicateTags: string[];
+};
+
+/** What one replayed release contained, and the release created for it (null in a dry run). */
+export type BackfillEntry = BackfillStep & {
+  commitCount: number;
+  issues: IssueReference[];
+  revertedIssues: IssueReference[];
+  pullRequests: number[];
+  release: ReleaseSummary | null;
+};
+
+/**
+ * Pages back through the pipeline's releases, most recent first, until one
+ * belongs to the oldest of `tags` or the history runs out, so a resumed
+ * backfill sees every release the earlier run created.
+ *
+ * @param tags - The tags backfill releases, oldest first
+ * @param fetchPage - Fetches the page of releases created before the given release id, or the first page
+ */
+export async function fetchBackfillReleases(
+  tags: { name: string; sha: string }[],
+  tagPattern: string,
+  fetchPage: (before?: string) => Promise<Release[]>,
+): Promise<Release[]> {
+  const releases: Release[] = [];
+  const oldest = tags[0];
+  if (!oldest) {
+    return releases;
+  }
+  const oldestVersion = versionFromTag(oldest.name, tagPattern);
+  let page = await fetchPage();
+  while (page.length > 0) {
+    releases.push(...page);
+    if (page.some((release) => release.commitSha === oldest.sha || release.version === oldestVersion)) {
+      break;
+    }
+    page = await fetchPage(page[page.length - 1]!.id);
+  }
+  return releases;
+}
+
+/**
+ * Turns tags (oldest first) into consecutive ranges. The first tag only marks
+ * where history starts unless `baseSha` (`--base-ref`) bounds its range. To
+ * resume an interrupted backfill, tags up to the newest one whose commit or
+ * version already has a release are skipped, and that tag starts the range.
+ * Skipped releases whose stage is known and isn't completed are listed in
+ * `uncompleted`, since the earlier run stopped between syncing and completing.
+ *
+ * @param tagPattern - The `--tags` glob; its literal prefix is stripped from versions
+ */
+export function planBackfill(
+  tags: { name: string; sha: string }[],
+  options: { tagPattern: string; baseSha?: string | null; releases?: Release[] },
+): BackfillPlan {
+  const { tagPattern, baseSha = null, releases = [] } = options;
+  // Releases come most recent first; the newest one for a commit or version wins.
+  const releasesBySha = new Map<string, Release>();
+  const releasesByVersion = new Map<string, Release>();
+  for (const release of releases) {
+    if (release.commitSha && !releasesBySha.has(release.commitSha)) {
+      releasesBySha.set(release.commitSha, release);
+    }
+    if (release.version && !releasesByVersion.has(release.version)) {
+      releasesByVersion.set(release.version, release);
+    }
+  }
+
+  let resumeIndex = -1;
+  const uncompleted: BackfillCompletion[] = [];
+  const pendingIds = new Set<string>();
+  tags.forEach((tag, index) => {
+    const version = versionFromTag(tag.name, tagPattern);
+    const release = releasesBySha.get(tag.sha) ?? releasesByVersion.get(version);
+    if (!release) {
+      return;
+    }
+    resumeIndex = index;
+    const stageType = release.stage?.type;
+    if (stageType !== undefined && stageType !== "completed" && !pendingIds.has(release.id)) {
+      pendingIds.add(release.id);
+      uncompleted.push({ tag: tag.name, sha: tag.sha, name: tag.name, version });
+    }
+  });
+
+  const steps: BackfillStep[] = [];
+  const duplicateTags: string[] = [];
+  let from = resumeIndex >= 0 ? tags[resumeIndex]!.sha : baseSha;
+  for (const tag of tags.slice(resumeIndex + 1)) {
+    if (tag.sha === from) {
+      duplicateTags.push(tag.name);
+      continue;
+    }
+    if (from) {
+      steps.push({ tag: tag.name, sha: tag.sha, from, name: tag.name, version: versionFromTag(tag.name, tagPattern) });
+    }
+    from = tag.sha;
+  }
+  return { steps, resumedAfter: resumeIndex >= 0 ? tags[resumeIndex]!.name : null, uncompleted, duplicateTags };
+}
+
+/** Renders the replayed releases as a table followed by totals. */
+export function formatBackfillSummary(entries: BackfillEntry[], options: { dryRun: boolean }): string {
+  const lines: string[] = [];
+  const releaseCount = `${entries.length} ${pluralize(entries.length, "release")}`;
+  lines.push(options.dryRun ? `Would backfill ${releaseCount}` : `Backfilled ${releaseCount}`);
+  if (entries.length === 0) {
+    return lines.join("\n");
+  }
+  const rows = [
+    ["TAG", "VERSION", "RANGE", "COMMITS", "ISSUES", "PRS"],
+    ...entries.map((entry) => [
+      entry.tag,
+      entry.version,
+      `${entry.from.slice(0, 7)}..${entry.sha.slice(0, 7)}`,
+      String(entry.commitCount),
+      String(entry.issues.length),
+      String(entry.pullRequests.length),
+    ]),
+  ];
+  const widths = rows[0]!.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)));
+  lines.push("");
+  for (const row of rows) {
+    lines.push(
+      row
+        .map((cell, column) => cell.padEnd(widths[column]!))
+        .join("  ")
+        .trimEnd(),
+    );
+  }
+  const issueCount = entries.reduce((total, entry) => total + entry.issues.length, 0);
+  lines.push("");
+  lines.push(`Issues: ${issueCount}`);
+  return lines.join("\n");
+}
@@ -83,49 +83,140 @@ describe("findBaseSha", () => {
     if (repo) rmSync(repo.cwd, { recursive: true, force: true });
   });
 
-  it("scenario A — healthy single train: picks the only candidate", () => {
+  it("scenario A — healthy single train: picks the only candidate", async () => {
     const candidates = [release("1.71.0", repo.mainPrev, 5)];
-    expect(findBaseSha(candidates, repo.mainHead, deps)).toEqual({ kind: "found", sha: repo.mainPrev });
+    expect(await findBaseSha(candidates, repo.mainHead, deps)).toEqual({
+      kind: "found",
+      sha: repo.mainPrev,
+      candidatesConsidered: 1,
+    });
   });
 
-  it("scenario B — concurrent trains, hotfix listed first: skips hotfix, picks main", () => {
+  it("scenario B — concurrent trains, hotfix listed first: skips hotfix, picks main", async () => {
     // The hotfix candidate sorts ahead of the main-train candidate, but its
     // commitSha sits on a side branch — not reachable from HEAD. Using it as
     // the base would scan a range covering everything the main train already
     // shipped between the fork point and HEAD. Walk past it to the main
     // release whose SHA is reachable.
     const candidates = [release("1.70.1", repo.hotfixSha, 3), release("1.71.0", repo.mainPrev, 10)];
-    expect(findBaseSha(candidates, repo.mainHead, deps)).toEqual({ kind: "found", sha: repo.mainPrev });
+    expect(await findBaseSha(candidates, repo.mainHead, deps)).toEqual({
+      kind: "found",
+      sha: repo.mainPrev,
+      candidatesConsidered: 2,
+    });
   });
 
-  it("scenario C — CI on the hotfix branch, main listed first: skips main, picks hotfix", () => {
+  it("scenario C — CI on the hotfix branch, main listed first: skips main, picks hotfix", async () => {
     // Mirror of scenario B: HEAD is on the hotfix branch and the main-train
     // candidate sorts first. The main SHA isn't reachable from the hotfix
     // HEAD, so the walk continues to the hotfix's own previous release.
     const candidates = [release("1.71.0", repo.mainPrev, 3), release("1.70.1", repo.hotfixSha, 10)];
-    expect(findBaseSha(candidates, repo.hotfixHead, deps)).toEqual({ kind: "found", sha: repo.hotfixSha });
+    expect(await findBaseSha(candidates, repo.hotfixHead, deps)).toEqual({
+      kind: "found",
+      sha: repo.hotfixSha,
+      candidatesConsidered: 2,
+    });
   });
 
-  it("scenario D — newly created release with null commitSha: skipped, walks to previous release", () => {
+  it("scenario D — newly created release with null commitSha: skipped, walks to previous release", async () => {
     // A release just created via the API has no commitSha until the first CI
     // sync writes one. Treating null as "no prior release" would under-cover
     // everything that landed since the actual previous release; the walk
     // skips the null entry and lands on the previous real release.
     const candidates = [release("1.72.0", undefined, 1), release("1.71.0", repo.mainPrev, 10)];
-    expect(findBaseSha(candidates, repo.mainHead, deps)).toEqual({ kind: "found", sha: repo.mainPrev });
+    expect(await findBaseSha(candidates, repo.mainHead, deps)).toEqual({
+      kind: "found",
+      sha: repo.mainPrev,
+      candidatesConsidered: 2,
+    });
   });
 
-  it("scenario E — all candidates non-ancestors: returns fallback", () => {
+  it("scenario E — all candidates non-ancestors: returns fallback", async () => {
     // Every candidate's commitSha lives on a history disjoint from HEAD —
     // shape produced by force-pushes that orphan old release SHAs, manual
     // edits, or stale rows the API hasn't pruned. The walk exhausts the list
     // and returns fallback so the caller can decide how to scan.
     const candidates = [release("1.70.1", repo.hotfixSha, 3), release("hotfix-tip", repo.hotfixHead, 1)];
-    expect(findBaseSha(candidates, repo.mainHead, deps)).toEqual({ kind: "fallback" });
+    expect(await findBaseSha(candidates, repo.mainHead, deps)).toEqual({
+      kind: "fallback",
+      candidatesConsidered: 2,
+      lookbackExhausted: false,
+    });
   });
 
-  it("scenario F — empty list (first-ever sync): returns fallback", () => {
-    expect(findBaseSha([], repo.mainHead, deps)).toEqual({ kind: "fallback" });
+  it("scenario F — empty list (first-ever sync): returns fallback", async () => {
+    expect(await findBaseSha([], repo.mainHead, deps)).toEqual({
+      kind: "fallback",
+      candidatesConsidered: 0,
+      lookbackExhausted: false,
+    });
+  });
+
+  it("scenario G — previous release older than the first page: pages back until it's found", async () => {
+    // A burst of hotfix releases fills the first page, pushing the main
+    // train's previous release off it. Stopping at the page boundary would
+    // fall back to the first-sync boundary and under-cover; the walk asks for
+    // the next page, keyed by the oldest release it has seen.
+    const pages: Record<string, Release[]> = {
+      "id-1.70.3": [release("1.70.2", repo.hotfixSha, 4)],
+      "id-1.70.2": [release("1.71.0", repo.mainPrev, 10), release("1.70.0", repo.mainPrev, 20)],
+    };
+    const requested: string[] = [];
+    const paging: FindBaseShaDeps = {
+      ...deps,
+      fetchOlderReleases: async (before) => {
+        requested.push(before);
+        return pages[before] ?? [];
+      },
+    };
+    const candidates = [release("1.70.4", repo.hotfixHead, 1), release("1.70.3", repo.hotfixSha, 2)];
+
+    expect(await findBaseSha(candidates, repo.mainHead, paging)).toEqual({
+      kind: "found",
+      sha: repo.mainPrev,
+      candidatesConsidered: 4,
+    });
+    expect(requested).toEqual(["id-1.70.3", "id-1.70.2"]);
+  });
+
+  it("scenario H — lookback limit reached: stops paging and reports it", async () => {
+    const fetched: string[] = [];
+    const paging: FindBaseShaDeps = {
+      ...deps,
+      fetchOlderReleases: async (before) => {
+        fetched.push(before);
+        return [release(`older-than-${before}`, repo.hotfixSha, 5), release("1.71.0", repo.mainPrev, 10)];
+      },
+    };
+    const candidates = [release("1.70.2", repo.hotfixHead, 1), release("1.70.1", repo.hotfixSha, 2)];
+
+    expect(await findBaseSha(candidates, repo.mainHead, paging, { maxCandidates: 3 })).toEqual({
+      kind: "fallback",
+      candidatesConsidered: 3,
+      lookbackExhausted: true,
+    });
+    expect(fetched).toEqual(["id-1.70.1"]);
+    expect(await findBaseSha(candidates, repo.mainHead, paging, { maxCandidates: 2 })).toMatchObject({
+      kind: "fallback",
+      lookbackExhausted: true,
+    });
+    expect(fetched).toHaveLength(1);
+  });
+
+  it("scenario I — an older page fails to load: stops paging instead of failing the sync", async () => {
+    const paging: FindBaseShaDeps = {
+      ...deps,
+      fetchOlderReleases: async () => {
+        throw new Error('Cannot query field "before"');
+      },
+    };
+    const candidates = [release("1.70.2", repo.hotfixHead, 1)];
+
+    expect(await findBaseSha(candidates, repo.mainHead, paging)).toEqual({
+      kind: "fallback",
+      candidatesConsidered: 1,
+      lookbackExhausted: true,
+    });
   });
 });
 
@@ -181,12 +272,12 @@ describe("findBaseSha — shallow clone with sibling release branch", () => {
     if (ci) rmSync(ci, { recursive: true, force: true });
   });
 
-  it("picks main-train release A even though A's object was pulled in as a side-branch boundary", () => {
+  it("picks main-train release A even though A's object was pulled in as a side-branch boundary", async () => {
     const candidates = [
       release("1.52.1", B, 3), // side-branch candidate first (sorted by createdAt DESC)
       release("1.52.0", A, 10),
     ];
-    expect(findBaseSha(candidates, C, deps)).toEqual({ kind: "found", sha: A });
+    expect(await findBaseSha(candidates, C, deps)).toEqual({ kind: "found", sha: A, candidatesConsidered: 2 });
   });
 });
 
@@ -227,9 +318,9 @@ describe("end-to-end: concurrent trains", () => {
     expect(messages).toEqual(["m4 (1.72.0 HEAD)", "m3 (1.71.0 release)", "m2"]);
   });
 
-  it("findBaseSha picks the main release; range collapses to just the new bump", () => {
-    const result = findBaseSha(candidates, repo.mainHead, deps);
-    expect(result).toEqual({ kind: "found", sha: repo.mainPrev });
+  it("findBaseSha picks the main release; range collapses to just the new bump", async () => {
+    const result = await findBaseSha(candidates, repo.mainHead, deps);
+    expect(result).toEqual({ kind: "found", sha: repo.mainPrev, candidatesConsidered: 2 });
     if (result.kind !== "found") return;
 
     const range = getCommitContextsBetweenShas(result.sha, repo.mainHead, { cwd: repo.cwd });
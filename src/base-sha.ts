@@ -1,10 +1,23 @@
-import { verbose } from "./log";
+import { verbose, warn } from "./log";
 import type { Release } from "./types";
 
-export type BaseShaResult = { kind: "found"; sha: string } | { kind: "fallback" };
+/**
+ * `candidatesConsidered` counts the releases checked across every page
+ * fetched. `lookbackExhausted` means the walk stopped at `maxCandidates`
+ * rather than at the end of the release history.
+ */
+export type BaseShaResult =
+  | { kind: "found"; sha: string; candidatesConsidered: number }
+  | { kind: "fallback"; candidatesConsidered: number; lookbackExhausted: boolean };
 
 export type FindBaseShaDeps = {
   verifyAncestorReachable: (sha: string, headSha: string) => boolean;
+  /**
+   * Fetches the page of releases created before the release with id `before`,
+   * most-relevant first; an empty page ends the walk. Without it, only the
+   * candidates passed in are checked.
+   */
+  fetchOlderReleases?: (before: string) => Promise<Release[]>;
 };
 
 /**
@@ -12,22 +25,56 @@ export type FindBaseShaDeps = {
  * release candidates (most-relevant first). Returns the first candidate whose
  * `commitSha` is reachable from `headSha` — the API can't disambiguate
  * concurrent release trains via SQL alone, so we use git as ground truth.
+ *
+ * When no candidate on a page qualifies, the walk pages further back with
+ * `fetchOlderReleases` until one does, the history runs out, or
+ * `maxCandidates` releases have been checked. A page that can't be fetched
+ * ends the walk as if the limit were reached.
  */
-export function findBaseSha(candidates: Release[], headSha: string, deps: FindBaseShaDeps): BaseShaResult {
-  for (const candidate of candidates) {
-    const sha = candidate.commitSha;
-    if (!sha) {
-      verbose(`Skipping base SHA candidate "${candidate.name}": no commit SHA`);
-      continue;
+export async function findBaseSha(
+  candidates: Release[],
+  headSha: string,
+  deps: FindBaseShaDeps,
+  options: { maxCandidates?: number } = {},
+): Promise<BaseShaResult> {
+  const { maxCandidates = Infinity } = options;
+  let page = candidates;
+  let considered = 0;
+  while (page.length > 0) {
+    for (const candidate of page) {
+      if (considered >= maxCandidates) {
+        return { kind: "fallback", candidatesConsidered: considered, lookbackExhausted: true };
+      }
+      considered++;
+      const sha = candidate.commitSha;
+      if (!sha) {
+        verbose(`Skipping base SHA candidate "${candidate.name}": no commit SHA`);
+        continue;
+      }
+      if (!deps.verifyAncestorReachable(sha, headSha)) {
+        verbose(
+          `Skipping base SHA candidate "${candidate.name}" (${sha.slice(0, 7)}): not an ancestor of ${headSha.slice(0, 7)}`,
+        );
+        continue;
+      }
+      verbose(`Using base SHA from release "${candidate.name}" (${sha.slice(0, 7)})`);
+      return { kind: "found", sha, candidatesConsidered: considered };
+    }
+    if (!deps.fetchOlderReleases || considered >= maxCandidates) {
+      break;
     }
-    if (!deps.verifyAncestorReachable(sha, headSha)) {
-      verbose(
-        `Skipping base SHA candidate "${candidate.name}" (${sha.slice(0, 7)}): not an ancestor of ${headSha.slice(0, 7)}`,
-      );
-      continue;
+    verbose(`No ancestor among the ${considered} most recent releases; fetching older releases`);
+    try {
+      page = await deps.fetchOlderReleases(page[page.length - 1]!.id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      warn(`Could not fetch older releases: ${message}. Not searching further back`);
+      return { kind: "fallback", candidatesConsidered: considered, lookbackExhausted: true };
     }
-    verbose(`Using base SHA from release "${candidate.name}" (${sha.slice(0, 7)})`);
-    return { kind: "found", sha };
   }
-  return { kind: "fallback" };
+  return {
+    kind: "fallback",
+    candidatesConsidered: considered,
+    lookbackExhausted: considered >= maxCandidates && deps.fetchOlderReleases !== undefined,
+  };
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { detectCIEnvironment } from "./ci-env";
+import { detectCIEnvironment, getCIBuildInfo } from "./ci-env";
 
 describe("detectCIEnvironment", () => {
   const originalEnv = process.env;
@@ -82,3 +82,44 @@ describe("detectCIEnvironment", () => {
     expect(detectCIEnvironment()).toEqual({ name: "github-actions" });
   });
 });
+
+describe("getCIBuildInfo", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("reads GitHub Actions run number, branch and run URL", () => {
+    process.env.GITHUB_RUN_NUMBER = "17";
+    process.env.GITHUB_HEAD_REF = "feature/x";
+    process.env.GITHUB_REF_NAME = "123/merge";
+    process.env.GITHUB_SERVER_URL = "https://github.com";
+    process.env.GITHUB_REPOSITORY = "acme/app";
+    process.env.GITHUB_RUN_ID = "999";
+    expect(getCIBuildInfo({ name: "github-actions" })).toEqual({
+      buildNumber: "17",
+      branch: "feature/x",
+      buildUrl: "https://github.com/acme/app/actions/runs/999",
+    });
+  });
+
+  it("reads GitLab CI pipeline IID, ref and pipeline URL", () => {
+    process.env.CI_PIPELINE_IID = "5";
+    process.env.CI_COMMIT_REF_NAME = "main";
+    process.env.CI_PIPELINE_URL = "https://gitlab.com/acme/app/-/pipelines/1";
+    expect(getCIBuildInfo({ name: "gitlab-ci" })).toEqual({
+      buildNumber: "5",
+      branch: "main",
+      buildUrl: "https://gitlab.com/acme/app/-/pipelines/1",
+    });
+  });
+
+  it("returns nulls outside a recognized CI provider", () => {
+    expect(getCIBuildInfo(null)).toEqual({ buildNumber: null, branch: null, buildUrl: null });
+  });
+});
@@ -39,3 +39,63 @@ export function detectCIEnvironment(): CIEnvironment | null {
   }
   return null;
 }
+
+/** Build metadata exposed by the CI provider, for release name/version templates. */
+export interface CIBuildInfo {
+  buildNumber: string | null;
+  branch: string | null;
+  buildUrl: string | null;
+}
+
+/**
+ * Reads build number, branch and build URL from the detected CI provider's
+ * environment variables. Fields the provider doesn't expose are null.
+ */
+export function getCIBuildInfo(ciEnv: CIEnvironment | null = detectCIEnvironment()): CIBuildInfo {
+  const env = (name: string) => process.env[name] || null;
+  switch (ciEnv?.name) {
+    case "github-actions": {
+      const server = env("GITHUB_SERVER_URL");
+      const repository = env("GITHUB_REPOSITORY");
+      const runId = env("GITHUB_RUN_ID");
+      return {
+        buildNumber: env("GITHUB_RUN_NUMBER"),
+        // GITHUB_HEAD_REF is the PR source branch; GITHUB_REF_NAME is the merge ref there.
+        branch: env("GITHUB_HEAD_REF") ?? env("GITHUB_REF_NAME"),
+        buildUrl: server && repository && runId ? `${server}/${repository}/actions/runs/${runId}` : null,
+      };
+    }
+    case "gitlab-ci":
+      return {
+        buildNumber: env("CI_PIPELINE_IID"),
+        branch: env("CI_COMMIT_REF_NAME"),
+        buildUrl: env("CI_PIPELINE_URL"),
+      };
+    case "circleci":
+      return { buildNumber: env("CIRCLE_BUILD_NUM"), branch: env("CIRCLE_BRANCH"), buildUrl: env("CIRCLE_BUILD_URL") };
+    case "jenkins":
+      return {
+        buildNumber: env("BUILD_NUMBER"),
+        branch: env("BRANCH_NAME") ?? env("GIT_BRANCH"),
+        buildUrl: env("BUILD_URL"),
+      };
+    case "travis-ci":
+      return {
+        buildNumber: env("TRAVIS_BUILD_NUMBER"),
+        branch: env("TRAVIS_BRANCH"),
+        buildUrl: env("TRAVIS_BUILD_WEB_URL"),
+      };
+    case "azure-pipelines":
+      return { buildNumber: env("BUILD_BUILDNUMBER"), branch: env("BUILD_SOURCEBRANCHNAME"), buildUrl: null };
+    case "buildkite":
+      return {
+        buildNumber: env("BUILDKITE_BUILD_NUMBER"),
+        branch: env("BUILDKITE_BRANCH"),
+        buildUrl: env("BUILDKITE_BUILD_URL"),
+      };
+    case "teamcity":
+      return { buildNumber: env("BUILD_NUMBER"), branch: null, buildUrl: null };
+    default:
+      return { buildNumber: null, branch: null, buildUrl: null };
+  }
+}
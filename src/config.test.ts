@@ -0,0 +1,220 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findConfigFile, loadConfigFile } from "./config";
+
+describe("findConfigFile", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "linear-release-config-"));
+    mkdirSync(join(root, "repo", ".git"), { recursive: true });
+    mkdirSync(join(root, "repo", "apps", "web"), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("finds a config file in the starting directory", () => {
+    writeFileSync(join(root, "repo", "apps", "web", ".linear-release.yml"), "timeout: 5\n");
+    expect(findConfigFile(join(root, "repo", "apps", "web"))).toBe(
+      join(root, "repo", "apps", "web", ".linear-release.yml"),
+    );
+  });
+
+  it("walks up to the repository root", () => {
+    writeFileSync(join(root, "repo", ".linear-release.json"), "{}");
+    expect(findConfigFile(join(root, "repo", "apps", "web"))).toBe(join(root, "repo", ".linear-release.json"));
+  });
+
+  it("prefers .json over .yaml in the same directory", () => {
+    writeFileSync(join(root, "repo", ".linear-release.yaml"), "timeout: 5\n");
+    writeFileSync(join(root, "repo", ".linear-release.json"), "{}");
+    expect(findConfigFile(join(root, "repo"))).toBe(join(root, "repo", ".linear-release.json"));
+  });
+
+  it("does not look above the directory containing .git", () => {
+    writeFileSync(join(root, ".linear-release.json"), "{}");
+    expect(findConfigFile(join(root, "repo", "apps"))).toBeNull();
+  });
+});
+
+describe("loadConfigFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "linear-release-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  }
+
+  it("parses a JSON config", () => {
+    const path = write(
+      ".linear-release.json",
+      JSON.stringify({
+        includePaths: ["apps/web/**"],
+        includeSubjects: "^feat",
+        links: ["https://ci.example.com"],
+        timeout: 120,
+      }),
+    );
+    expect(loadConfigFile(path)).toEqual({
+      includePaths: ["apps/web/**"],
+      includeSubjects: "^feat",
+      links: ["https://ci.example.com"],
+      timeout: 120,
+    });
+  });
+
+  it("parses a YAML config", () => {
+    const path = write(
+      ".linear-release.yaml",
+      [
+        "includePaths:",
+        "  - apps/web/**",
+        "  - packages/**",
+        "links:",
+        "  - Runbook=https://runbooks.example.com",
+      ].join("\n"),
+    );
+    expect(loadConfigFile(path)).toEqual({
+      includePaths: ["apps/web/**", "packages/**"],
+      links: ["Runbook=https://runbooks.example.com"],
+    });
+  });
+
+  it("accepts includePaths as a comma-separated string", () => {
+    const path = write(".linear-release.yml", 'includePaths: "apps/web/** , packages/**"\n');
+    expect(loadConfigFile(path).includePaths).toEqual(["apps/web/**", "packages/**"]);
+  });
+
+  it("treats an empty YAML file as an empty config", () => {
+    const path = write(".linear-release.yml", "");
+    expect(loadConfigFile(path)).toEqual({});
+  });
+
+  it("throws on unknown keys", () => {
+    const path = write(".linear-release.json", JSON.stringify({ includePath: ["apps/**"] }));
+    expect(() => loadConfigFile(path)).toThrow(/unknown key includePath/);
+  });
+
+  it("throws on a non-positive timeout", () => {
+    const path = write(".linear-release.json", JSON.stringify({ timeout: 0 }));
+    expect(() => loadConfigFile(path)).toThrow(/timeout must be a positive number/);
+  });
+
+  it("throws when links is a single string", () => {
+    const path = write(".linear-release.json", JSON.stringify({ links: "https://a.example.com" }));
+    expect(() => loadConfigFile(path)).toThrow(/links must be a list of strings/);
+  });
+
+  it("parses extraction rules", () => {
+    const path = write(
+      ".linear-release.yml",
+      [
+        "extractionRules:",
+        "  - name: ticket",
+        "    target: trailer",
+        "    trailer: Ticket",
+        "    pattern: '(?<team>\\w+)-(?<number>\\d+)'",
+      ].join("\n"),
+    );
+    expect(loadConfigFile(path).extractionRules).toEqual([
+      { name: "ticket", target: "trailer", trailer: "Ticket", pattern: "(?<team>\\w+)-(?<number>\\d+)" },
+    ]);
+  });
+
+  it("throws on an unknown extraction rule target", () => {
+    const path = write(
+      ".linear-release.json",
+      JSON.stringify({ extractionRules: [{ name: "x", target: "footer", pattern: "(?<team>a)(?<number>1)" }] }),
+    );
+    expect(() => loadConfigFile(path)).toThrow(
+      /extractionRules\[0\]\.target must be one of: subject, body, branch, trailer/,
+    );
+  });
+
+  it("parses repoHosts with lower-cased host names", () => {
+    const path = write(
+      ".linear-release.yml",
+      ["repoHosts:", "  Code.Corp.Example: gitlab", "  git.internal: github"].join("\n"),
+    );
+    expect(loadConfigFile(path).repoHosts).toEqual({ "code.corp.example": "gitlab", "git.internal": "github" });
+  });
+
+  it.each([
+    [{ "code.corp.example": "gitea" }, /repoHosts\.code\.corp\.example must be one of: github, gitlab/],
+    [{ "https://code.corp.example": "gitlab" }, /must be a host name without scheme, port, or path/],
+    [["code.corp.example"], /repoHosts must be an object/],
+  ])("throws on invalid repoHosts %j", (repoHosts, message) => {
+    const path = write(".linear-release.json", JSON.stringify({ repoHosts }));
+    expect(() => loadConfigFile(path)).toThrow(message);
+  });
+
+  it("throws on a non-boolean recurseSubmodules", () => {
+    const path = write(".linear-release.json", JSON.stringify({ recurseSubmodules: "yes" }));
+    expect(() => loadConfigFile(path)).toThrow(/recurseSubmodules must be true or false/);
+  });
+
+  it("throws on a fractional maxReleaseLookback", () => {
+    const path = write(".linear-release.json", JSON.stringify({ maxReleaseLookback: 12.5 }));
+    expect(() => loadConfigFile(path)).toThrow(/maxReleaseLookback must be a positive whole number/);
+  });
+
+  it("throws on an unknown firstSync strategy", () => {
+    const path = write(".linear-release.json", JSON.stringify({ firstSync: "since:yesterday-ish" }));
+    expect(() => loadConfigFile(path)).toThrow(/firstSync is invalid: "yesterday-ish" is not a date/);
+  });
+
+  it("throws on malformed JSON", () => {
+    const path = write(".linear-release.json", "{");
+    expect(() => loadConfigFile(path)).toThrow(/Failed to parse config file/);
+  });
+
+  it("parses profiles", () => {
+    const path = write(
+      ".linear-release.yml",
+      [
+        "profiles:",
+        "  web:",
+        "    accessKeyEnv: LINEAR_ACCESS_KEY_WEB",
+        "    includePaths: [apps/web/**]",
+        "    name: Web release",
+        "  api:",
+        "    accessKeyEnv: LINEAR_ACCESS_KEY_API",
+        '    workspaces: ["@acme/api"]',
+      ].join("\n"),
+    );
+    expect(loadConfigFile(path).profiles).toEqual({
+      web: { accessKeyEnv: "LINEAR_ACCESS_KEY_WEB", includePaths: ["apps/web/**"], name: "Web release" },
+      api: { accessKeyEnv: "LINEAR_ACCESS_KEY_API", workspaces: ["@acme/api"] },
+    });
+  });
+
+  it("throws when a profile has no accessKeyEnv", () => {
+    const path = write(".linear-release.json", JSON.stringify({ profiles: { web: { includePaths: ["apps/**"] } } }));
+    expect(() => loadConfigFile(path)).toThrow(/profiles\.web\.accessKeyEnv must name the environment variable/);
+  });
+
+  it("throws on unknown profile keys", () => {
+    const path = write(
+      ".linear-release.json",
+      JSON.stringify({ profiles: { web: { accessKeyEnv: "KEY", timeout: 5 } } }),
+    );
+    expect(() => loadConfigFile(path)).toThrow(/unknown key profiles\.web\.timeout/);
+  });
+
+  it("throws when the file does not exist", () => {
+    expect(() => loadConfigFile(join(dir, "missing.json"))).toThrow(/Failed to read config file/);
+  });
+});
@@ -0,0 +1,334 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, extname, join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { EXTRACTION_RULE_TARGETS, ExtractionRuleConfig, isExtractionRuleTarget } from "./extraction-rules";
+import { isRepoProvider, REPO_PROVIDERS, RepoProvider } from "./git";
+import { parseFirstSyncStrategy } from "./scan-base";
+
+/**
+ * File names searched for, in priority order, in each directory while walking
+ * up from the working directory. The first match wins.
+ */
+export const CONFIG_FILE_NAMES = [".linear-release.json", ".linear-release.yaml", ".linear-release.yml"];
+
+/**
+ * Repo-committed defaults for CLI flags. Values here sit between CLI flags
+ * (which override them) and pipeline settings from Linear (which they override).
+ */
+export type ProjectConfig = {
+  includePaths?: string[];
+  excludePaths?: string[];
+  /** Workspace package names whose directories and internal dependencies are included; see `--workspace`. */
+  workspaces?: string[];
+  includeSubjects?: string;
+  excludeSubjects?: string;
+  /** Author patterns; see `--include-authors`. */
+  includeAuthors?: string[];
+  excludeAuthors?: string[];
+  links?: string[];
+  timeout?: number;
+  /** Custom issue-identifier patterns; patterns are compiled and checked in `parseCLIArgs`. */
+  extractionRules?: ExtractionRuleConfig[];
+  /** Team-key allow list (`ENG`), exclusions (`!UTF`), or `auto`; see `--team-keys`. */
+  teamKeys?: string[];
+  /** Trailer keys that reference issues; replaces the defaults. See `--issue-trailers`. */
+  issueTrailers?: string[];
+  pullRequestTrailers?: string[];
+  /** Trailer keys whose issues are kept out of the release. */
+  excludeTrailers?: string[];
+  /** Scan the commits behind submodule pointer changes; see `--recurse-submodules`. */
+  recurseSubmodules?: boolean;
+  /** Recent releases to check when looking for the scan base; see `--max-release-lookback`. */
+  maxReleaseLookback?: number;
+  /** Where to record each sync's commits, relative to the config file; see `--state-file`. */
+  stateFile?: string;
+  /** How far back the first release reaches, e.g. `merge-base:main`; see `--first-sync`. */
+  firstSync?: string;
+  /** Git host name (`code.corp.example`) to provider, for self-hosted instances the CLI can't guess. */
+  repoHosts?: Record<string, RepoProvider>;
+  profiles?: Record<string, ProfileConfig>;
+};
+
+/**
+ * One Linear pipeline in a multi-pipeline repository. `--profile` /
+ * `--all-profiles` sync each selected profile in a single invocation.
+ */
+export type ProfileConfig = {
+  /** Name of the environment variable holding this pipeline's access key. */
+  accessKeyEnv: string;
+  includePaths?: string[];
+  workspaces?: string[];
+  name?: string;
+  releaseVersion?: string;
+};
+
+const CONFIG_KEYS: (keyof ProjectConfig)[] = [
+  "includePaths",
+  "excludePaths",
+  "workspaces",
+  "includeSubjects",
+  "excludeSubjects",
+  "includeAuthors",
+  "excludeAuthors",
+  "links",
+  "timeout",
+  "extractionRules",
+  "teamKeys",
+  "issueTrailers",
+  "pullRequestTrailers",
+  "excludeTrailers",
+  "recurseSubmodules",
+  "maxReleaseLookback",
+  "stateFile",
+  "firstSync",
+  "repoHosts",
+  "profiles",
+];
+const EXTRACTION_RULE_KEYS: (keyof ExtractionRuleConfig)[] = ["name", "target", "trailer", "pattern"];
+const PROFILE_KEYS: (keyof ProfileConfig)[] = ["accessKeyEnv", "includePaths", "workspaces", "name", "releaseVersion"];
+
+/**
+ * Walks up from `startDir` looking for a config file. Stops after the
+ * directory containing `.git` so a config outside the repository is never
+ * picked up by accident.
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | null {
+  let dir = resolve(startDir);
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate) && statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+    const parent = dirname(dir);
+    if (existsSync(join(dir, ".git")) || parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/** Reads and validates a config file. JSON for `.json`, YAML otherwise. */
+export function loadConfigFile(path: string): ProjectConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to read config file "${path}": ${message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = extname(path) === ".json" ? JSON.parse(raw) : parseYaml(raw);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to parse config file "${path}": ${message}`);
+  }
+
+  return validateConfig(parsed ?? {}, path);
+}
+
+function validateConfig(value: unknown, path: string): ProjectConfig {
+  const fail = (detail: string): never => {
+    throw new Error(`Invalid config file "${path}": ${detail}`);
+  };
+  if (!isPlainObject(value)) {
+    return fail("expected an object at the top level");
+  }
+
+  assertKnownKeys(value, CONFIG_KEYS, "", fail);
+
+  const config: ProjectConfig = {};
+  if (value.includePaths !== undefined) {
+    config.includePaths = readStringList(value.includePaths, "includePaths", fail);
+  }
+  if (value.excludePaths !== undefined) {
+    config.excludePaths = readStringList(value.excludePaths, "excludePaths", fail);
+  }
+  if (value.workspaces !== undefined) {
+    config.workspaces = readStringList(value.workspaces, "workspaces", fail);
+  }
+  for (const key of ["includeSubjects", "excludeSubjects"] as const) {
+    if (value[key] !== undefined) {
+      if (typeof value[key] !== "string") {
+        fail(`${key} must be a string`);
+      }
+      config[key] = value[key] as string;
+    }
+  }
+  for (const key of ["includeAuthors", "excludeAuthors"] as const) {
+    if (value[key] !== undefined) {
+      config[key] = readStringList(value[key], key, fail);
+    }
+  }
+  if (value.links !== undefined) {
+    // URLs may contain commas, so links are only accepted as a list.
+    if (typeof value.links === "string") {
+      fail("links must be a list of strings");
+    }
+    config.links = readStringList(value.links, "links", fail);
+  }
+  if (value.timeout !== undefined) {
+    if (typeof value.timeout !== "number" || !Number.isFinite(value.timeout) || value.timeout <= 0) {
+      fail("timeout must be a positive number of seconds");
+    }
+    config.timeout = value.timeout as number;
+  }
+  if (value.extractionRules !== undefined) {
+    config.extractionRules = readExtractionRules(value.extractionRules, fail);
+  }
+  if (value.teamKeys !== undefined) {
+    config.teamKeys = readStringList(value.teamKeys, "teamKeys", fail);
+  }
+  for (const key of ["issueTrailers", "pullRequestTrailers", "excludeTrailers"] as const) {
+    if (value[key] !== undefined) {
+      config[key] = readStringList(value[key], key, fail);
+    }
+  }
+  if (value.recurseSubmodules !== undefined) {
+    if (typeof value.recurseSubmodules !== "boolean") {
+      fail("recurseSubmodules must be true or false");
+    }
+    config.recurseSubmodules = value.recurseSubmodules as boolean;
+  }
+  if (value.maxReleaseLookback !== undefined) {
+    if (!Number.isInteger(value.maxReleaseLookback) || (value.maxReleaseLookback as number) <= 0) {
+      fail("maxReleaseLookback must be a positive whole number of releases");
+    }
+    config.maxReleaseLookback = value.maxReleaseLookback as number;
+  }
+  if (value.stateFile !== undefined) {
+    if (typeof value.stateFile !== "string" || !value.stateFile.trim()) {
+      fail("stateFile must be a non-empty path");
+    }
+    config.stateFile = value.stateFile as string;
+  }
+  if (value.firstSync !== undefined) {
+    if (typeof value.firstSync !== "string") {
+      fail("firstSync must be a string");
+    }
+    try {
+      parseFirstSyncStrategy(value.firstSync as string);
+    } catch (e) {
+      fail(`firstSync is invalid: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    config.firstSync = value.firstSync as string;
+  }
+  if (value.repoHosts !== undefined) {
+    config.repoHosts = readRepoHosts(value.repoHosts, fail);
+  }
+  if (value.profiles !== undefined) {
+    config.profiles = readProfiles(value.profiles, fail);
+  }
+  return config;
+}
+
+function readExtractionRules(value: unknown, fail: (detail: string) => never): ExtractionRuleConfig[] {
+  if (!Array.isArray(value)) {
+    return fail("extractionRules must be a list of rules");
+  }
+  return value.map((raw, index): ExtractionRuleConfig => {
+    const prefix = `extractionRules[${index}]`;
+    if (!isPlainObject(raw)) {
+      return fail(`${prefix} must be an object`);
+    }
+    assertKnownKeys(raw, EXTRACTION_RULE_KEYS, `${prefix}.`, fail);
+    for (const key of ["name", "pattern"] as const) {
+      if (typeof raw[key] !== "string" || !raw[key].trim()) {
+        return fail(`${prefix}.${key} must be a non-empty string`);
+      }
+    }
+    if (typeof raw.target !== "string" || !isExtractionRuleTarget(raw.target)) {
+      return fail(`${prefix}.target must be one of: ${EXTRACTION_RULE_TARGETS.join(", ")}`);
+    }
+    if (raw.trailer !== undefined && typeof raw.trailer !== "string") {
+      return fail(`${prefix}.trailer must be a string`);
+    }
+    const rule: ExtractionRuleConfig = {
+      name: (raw.name as string).trim(),
+      target: raw.target,
+      pattern: raw.pattern as string,
+    };
+    if (raw.trailer !== undefined) rule.trailer = (raw.trailer as string).trim();
+    return rule;
+  });
+}
+
+function readRepoHosts(value: unknown, fail: (detail: string) => never): Record<string, RepoProvider> {
+  if (!isPlainObject(value)) {
+    return fail("repoHosts must be an object mapping host names to providers");
+  }
+  const hosts: Record<string, RepoProvider> = {};
+  for (const [host, provider] of Object.entries(value)) {
+    if (!/^[\w.-]+$/.test(host)) {
+      return fail(`repoHosts key "${host}" must be a host name without scheme, port, or path`);
+    }
+    if (typeof provider !== "string" || !isRepoProvider(provider)) {
+      return fail(`repoHosts.${host} must be one of: ${REPO_PROVIDERS.join(", ")}`);
+    }
+    hosts[host.toLowerCase()] = provider;
+  }
+  return hosts;
+}
+
+function readProfiles(value: unknown, fail: (detail: string) => never): Record<string, ProfileConfig> {
+  if (!isPlainObject(value)) {
+    return fail("profiles must be an object keyed by profile name");
+  }
+  const profiles: Record<string, ProfileConfig> = {};
+  for (const [name, raw] of Object.entries(value)) {
+    const prefix = `profiles.${name}`;
+    if (!isPlainObject(raw)) {
+      return fail(`${prefix} must be an object`);
+    }
+    assertKnownKeys(raw, PROFILE_KEYS, `${prefix}.`, fail);
+    if (typeof raw.accessKeyEnv !== "string" || !raw.accessKeyEnv.trim()) {
+      return fail(`${prefix}.accessKeyEnv must name the environment variable holding the pipeline access key`);
+    }
+    const profile: ProfileConfig = { accessKeyEnv: raw.accessKeyEnv.trim() };
+    if (raw.includePaths !== undefined) {
+      profile.includePaths = readStringList(raw.includePaths, `${prefix}.includePaths`, fail);
+    }
+    if (raw.workspaces !== undefined) {
+      profile.workspaces = readStringList(raw.workspaces, `${prefix}.workspaces`, fail);
+    }
+    for (const key of ["name", "releaseVersion"] as const) {
+      if (raw[key] === undefined) continue;
+      if (typeof raw[key] !== "string" || !raw[key].trim()) {
+        return fail(`${prefix}.${key} must be a non-empty string`);
+      }
+      profile[key] = raw[key];
+    }
+    profiles[name] = profile;
+  }
+  return profiles;
+}
+
+function assertKnownKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  prefix: string,
+  fail: (detail: string) => never,
+): void {
+  const unknownKeys = Object.keys(value).filter((key) => !allowed.includes(key));
+  if (unknownKeys.length > 0) {
+    fail(
+      `unknown ${unknownKeys.length === 1 ? "key" : "keys"} ${unknownKeys.map((key) => `${prefix}${key}`).join(", ")} (allowed: ${allowed.join(", ")})`,
+    );
+  }
+}
+
+/** Accepts either a list of strings or a single comma-separated string, mirroring the CLI flag. */
+function readStringList(value: unknown, key: string, fail: (detail: string) => never): string[] {
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) {
+    return fail(`${key} must be a list of strings`);
+  }
+  return (items as string[]).map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,134 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { explain, formatExplanation } from "./explain";
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim();
+}
+
+describe("explain", () => {
+  let cwd: string;
+  let baseSha: string;
+  let headSha: string;
+  const shas: Record<string, string> = {};
+
+  function commit(name: string, message: string, file?: string): void {
+    if (file) {
+      mkdirSync(join(cwd, file, ".."), { recursive: true });
+      writeFileSync(join(cwd, file), `${name}\n`);
+      git(["add", "."], cwd);
+    }
+    git(["commit", "-q", "--allow-empty", "-m", message], cwd);
+    shas[name] = git(["rev-parse", "HEAD"], cwd);
+  }
+
+  beforeAll(() => {
+    cwd = mkdtempSync(join(tmpdir(), "linear-release-explain-"));
+    git(["init", "-q", "-b", "main"], cwd);
+    git(["config", "user.email", "test@example.com"], cwd);
+    git(["config", "user.name", "Test User"], cwd);
+    commit("initial", "initial");
+    baseSha = shas.initial!;
+    commit("web", "Fixes ENG-1 web change (#7)", "web/a.txt");
+    commit("api", "Fixes ENG-2 api change", "api/b.txt");
+    commit("bare", "Mentions ENG-1 without a magic word", "web/c.txt");
+    commit("chore", "chore: Fixes ENG-3", "web/d.txt");
+    commit("revert", 'Revert "Fixes ENG-1 web change (#7)"', "web/a.txt");
+    headSha = shas.revert!;
+  });
+
+  afterAll(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("explains each commit mentioning an issue", () => {
+    const result = explain({ target: { kind: "issue", identifier: "ENG-1" }, baseSha, headSha, cwd });
+    expect(result.range.commitCount).toBe(5);
+    expect(result.verdict).toBe(`ENG-1 is sent as reverted (last reverted by ${shas.revert!.slice(0, 7)}).`);
+    expect(result.commits.map((c) => c.sha)).toEqual([shas.web, shas.bare, shas.revert]);
+    expect(result.commits[0]!.matches).toEqual([
+      { identifier: "ENG-1", action: "added", source: "commit_message", rule: 'magic word "fixes"' },
+    ]);
+    expect(result.commits[0]!.pullRequests).toEqual([7]);
+    expect(result.commits[1]!.matches).toEqual([]);
+    expect(result.commits[2]!.revertDepth).toEqual({ message: 1, branch: 0 });
+    expect(result.commits[2]!.matches).toEqual([
+      {
+        identifier: "ENG-1",
+        action: "reverted",
+        source: "commit_message",
+        rule: 'reverted subject (depth 1), magic word "fixes"',
+      },
+    ]);
+  });
+
+  it("reports commits dropped by include paths and include subjects", () => {
+    const paths = explain({
+      target: { kind: "issue", identifier: "ENG-2" },
+      baseSha,
+      headSha,
+      includePaths: ["web/**"],
+      cwd,
+    });
+    expect(paths.verdict).toBe("ENG-2 is mentioned in the scan range but not attributed; see the commits below.");
+    expect(paths.commits.map((c) => c.status)).toEqual(["excluded-by-include-paths"]);
+
+    const excluded = explain({
+      target: { kind: "issue", identifier: "ENG-3" },
+      baseSha,
+      headSha,
+      includePaths: ["web/**"],
+      excludePaths: ["web/d.txt"],
+      cwd,
+    });
+    expect(excluded.excludePaths).toEqual(["web/d.txt"]);
+    expect(excluded.commits.map((c) => c.status)).toEqual(["excluded-by-exclude-paths"]);
+
+    const subjects = explain({
+      target: { kind: "issue", identifier: "ENG-3" },
+      baseSha,
+      headSha,
+      includeSubjects: "^(?!chore)",
+      cwd,
+    });
+    expect(subjects.commits.map((c) => c.status)).toEqual(["excluded-by-include-subjects"]);
+
+    const authors = explain({
+      target: { kind: "issue", identifier: "ENG-3" },
+      baseSha,
+      headSha,
+      excludeAuthors: ["*@example.com"],
+      cwd,
+    });
+    expect(authors.commits.map((c) => c.status)).toEqual(["excluded-by-exclude-authors"]);
+  });
+
+  it("says when an issue isn't mentioned at all", () => {
+    const result = explain({ target: { kind: "issue", identifier: "ENG-99" }, baseSha, headSha, cwd });
+    expect(result.verdict).toBe("ENG-99 is not mentioned by any of the 5 commits in the scan range.");
+    expect(result.commits).toEqual([]);
+  });
+
+  it("explains a commit target", () => {
+    const result = explain({ target: { kind: "commit", ref: shas.api! }, baseSha, headSha, cwd });
+    expect(result.verdict).toBe(`Commit ${shas.api!.slice(0, 7)} is scanned and adds ENG-2.`);
+  });
+
+  it("explains a commit outside the range", () => {
+    const result = explain({ target: { kind: "commit", ref: "main~5" }, baseSha, headSha, cwd });
+    expect(result.verdict).toBe(
+      `Commit ${baseSha.slice(0, 7)} is not in the scan range: it is at or before the scan base, so an earlier release covered it.`,
+    );
+  });
+
+  it("formats the explanation as text", () => {
+    const text = formatExplanation(explain({ target: { kind: "issue", identifier: "ENG-1" }, baseSha, headSha, cwd }));
+    expect(text).toContain(
+      `${shas.web!.slice(0, 7)} Fixes ENG-1 web change (#7)\n  scanned\n  added ENG-1 via magic word "fixes"`,
+    );
+    expect(text).toContain("no extractor rule matched ENG-1");
+  });
+});
@@ -0,0 +1,336 @@
+import { ExtractionRule } from "./extraction-rules";
+import { getCommitSubject, getRevertBranchDepth, getRevertMessageDepth } from "./extractors";
+import { getCommitContextsBetweenShas, isAncestor, resolveLocalCommitRef } from "./git";
+import { scanCommits } from "./scan";
+import { TeamKeyFilter } from "./team-keys";
+import { TrailerKeys } from "./trailers";
+import { CommitContext } from "./types";
+import { pluralize } from "./util";
+
+export type ExplainTarget = { kind: "issue"; identifier: string } | { kind: "commit"; ref: string };
+
+/** Why a commit in the range was or wasn't handed to the extractors. */
+export type CommitStatus =
+  | "scanned"
+  | "excluded-by-include-paths"
+  | "excluded-by-exclude-paths"
+  | "merge-delivers-no-path-changes"
+  | "excluded-by-include-subjects"
+  | "excluded-by-exclude-subjects"
+  | "excluded-by-include-authors"
+  | "excluded-by-exclude-authors"
+  | "skipped-by-marker";
+
+export type CommitExplanation = {
+  sha: string;
+  subject: string;
+  branchName: string | null;
+  status: CommitStatus;
+  /** `Revert "…"` nesting on the subject and `revert-N-` nesting on the branch. Odd depth = revert. */
+  revertDepth: { message: number; branch: number };
+  matches: { identifier: string; action: "added" | "reverted"; source: string; rule: string }[];
+  rejected: { token: string; reason: string }[];
+  notes: string[];
+  pullRequests: number[];
+};
+
+export type Explanation = {
+  target: ExplainTarget;
+  range: { baseSha: string; headSha: string; commitCount: number };
+  includePaths: string[] | null;
+  excludePaths: string[] | null;
+  includeSubjects: string | null;
+  excludeSubjects: string | null;
+  includeAuthors: string[] | null;
+  excludeAuthors: string[] | null;
+  verdict: string;
+  /** The commits relevant to the target, oldest first. */
+  commits: CommitExplanation[];
+};
+
+const STATUS_DESCRIPTIONS: Record<CommitStatus, string> = {
+  scanned: "scanned",
+  "excluded-by-include-paths": "excluded: touches no file matching the include paths",
+  "excluded-by-exclude-paths": "excluded: every file it touches matches the exclude paths",
+  "merge-delivers-no-path-changes": "excluded: merge brings no net change to the include paths (mergeDeliversToPaths)",
+  "excluded-by-include-subjects": "excluded: subject does not match the include-subjects regex",
+  "excluded-by-exclude-subjects": "excluded: subject matches the exclude-subjects regex",
+  "excluded-by-include-authors": "excluded: author does not match the include-authors patterns",
+  "excluded-by-exclude-authors": "excluded: author matches the exclude-authors patterns",
+  "skipped-by-marker": "skipped: opted out with [skip linear-release] or a Linear-Release: skip trailer",
+};
+
+/**
+ * Replays a sync scan of `baseSha..headSha` and explains, per commit, why the
+ * target issue was or wasn't attributed (or, for a commit target, everything
+ * that commit contributed). Filtering and extraction run through the same
+ * code as `sync`, observed with trace hooks.
+ *
+ * @param options.inspectSingleCommit - Same meaning as in `getCommitContextsBetweenShas`
+ * @param options.includeBase - Also explain `baseSha` itself; `includeFrom` in `getCommitContextsBetweenShas`
+ */
+export function explain(options: {
+  target: ExplainTarget;
+  baseSha: string;
+  headSha: string;
+  includePaths?: string[] | null;
+  excludePaths?: string[] | null;
+  includeSubjects?: string | null;
+  excludeSubjects?: string | null;
+  includeAuthors?: string[] | null;
+  excludeAuthors?: string[] | null;
+  extractionRules?: ExtractionRule[];
+  teamKeys?: TeamKeyFilter | null;
+  trailers?: TrailerKeys;
+  /** Selects host-specific pull request formats; see `ScanOptions.provider`. */
+  provider?: string | null;
+  /** Also scan the commits behind submodule pointer changes; see `getCommitContextsBetweenShas`. */
+  recurseSubmodules?: boolean;
+  inspectSingleCommit?: boolean;
+  includeBase?: boolean;
+  cwd?: string;
+}): Explanation {
+  const {
+    target,
+    baseSha,
+    headSha,
+    includeSubjects = null,
+    excludeSubjects = null,
+    includeAuthors = null,
+    excludeAuthors = null,
+    extractionRules,
+    teamKeys,
+    trailers,
+    provider,
+    recurseSubmodules = false,
+    inspectSingleCommit = false,
+    includeBase = false,
+    cwd = process.cwd(),
+  } = options;
+  const includePaths = options.includePaths?.length ? options.includePaths : null;
+  const excludePaths = options.excludePaths?.length ? options.excludePaths : null;
+  const rangeOptions = { inspectSingleCommit, includeFrom: includeBase, cwd, recurseSubmodules };
+
+  // Chronological, as scanCommits expects.
+  const all = getCommitContextsBetweenShas(baseSha, headSha, rangeOptions).reverse();
+  const droppedMerges = new Set<string>();
+  const kept =
+    includePaths || excludePaths
+      ? new Set(
+          getCommitContextsBetweenShas(baseSha, headSha, {
+            ...rangeOptions,
+            includePaths,
+            excludePaths,
+            onDroppedMerge: (commit) => droppedMerges.add(commit.sha),
+          }).map((commit) => commit.sha),
+        )
+      : null;
+  // Tells the two path filters apart: commits the include paths alone would keep.
+  const keptByIncludePaths =
+    includePaths && excludePaths
+      ? new Set(getCommitContextsBetweenShas(baseSha, headSha, { ...rangeOptions, includePaths }).map((c) => c.sha))
+      : null;
+
+  const explanations = new Map<string, CommitExplanation>();
+  for (const commit of all) {
+    let status: CommitStatus = "scanned";
+    if (kept && !kept.has(commit.sha)) {
+      if (droppedMerges.has(commit.sha)) {
+        status = "merge-delivers-no-path-changes";
+      } else if (!includePaths || keptByIncludePaths?.has(commit.sha)) {
+        status = "excluded-by-exclude-paths";
+      } else {
+        status = "excluded-by-include-paths";
+      }
+    }
+    explanations.set(commit.sha, {
+      sha: commit.sha,
+      subject: getCommitSubject(commit.message),
+      branchName: commit.branchName ?? null,
+      status,
+      revertDepth: {
+        message: getRevertMessageDepth(commit.message),
+        branch: getRevertBranchDepth(commit.branchName),
+      },
+      matches: [],
+      rejected: [],
+      notes: [],
+      pullRequests: [],
+    });
+  }
+
+  const scanned = all.filter((commit) => explanations.get(commit.sha)!.status === "scanned");
+  const { issueReferences, revertedIssueReferences, debugSink } = scanCommits(scanned, {
+    includePaths,
+    excludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors,
+    excludeAuthors,
+    extractionRules,
+    teamKeys,
+    trailers,
+    provider,
+    trace: (commit, action, event) => {
+      const explanation = explanations.get(commit.sha)!;
+      switch (event.kind) {
+        case "matched":
+          explanation.matches.push({ identifier: event.identifier, action, source: event.source, rule: event.rule });
+          break;
+        case "rejected":
+          // Several rules can see the same token; report it once.
+          if (!explanation.rejected.some((rejected) => rejected.token === event.token)) {
+            explanation.rejected.push({ token: event.token, reason: event.reason });
+          }
+          break;
+        case "skipped":
+          explanation.notes.push(event.reason);
+          break;
+      }
+    },
+  });
+  for (const { sha } of debugSink.skippedCommits) {
+    explanations.get(sha)!.status = "skipped-by-marker";
+  }
+  for (const { sha, filter } of debugSink.filteredCommits) {
+    explanations.get(sha)!.status = `excluded-by-${filter}`;
+  }
+  for (const { sha, number } of debugSink.pullRequests) {
+    explanations.get(sha)?.pullRequests.push(number);
+  }
+  for (const [excluded, sources] of Object.entries(debugSink.excludedIssues)) {
+    for (const { sha, value } of sources) {
+      explanations.get(sha)?.notes.push(`keeps ${excluded} out of the release (${value})`);
+    }
+  }
+
+  const base = {
+    target,
+    range: { baseSha, headSha, commitCount: all.length },
+    includePaths,
+    excludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors: debugSink.includeAuthors,
+    excludeAuthors: debugSink.excludeAuthors,
+  };
+
+  if (target.kind === "commit") {
+    const sha = resolveLocalCommitRef(target.ref, cwd);
+    const explanation = explanations.get(sha);
+    if (explanation) {
+      return { ...base, verdict: describeCommitVerdict(explanation), commits: [explanation] };
+    }
+    const reason =
+      sha === baseSha || isAncestor(sha, baseSha, cwd)
+        ? "it is at or before the scan base, so an earlier release covered it"
+        : isAncestor(sha, headSha, cwd)
+          ? "it is reachable from HEAD but outside the scanned range"
+          : "it is not an ancestor of HEAD";
+    return { ...base, verdict: `Commit ${sha.slice(0, 7)} is not in the scan range: ${reason}.`, commits: [] };
+  }
+
+  const { identifier } = target;
+  const mentions = mentionPattern(identifier);
+  const relevant = all
+    .filter(
+      (commit) =>
+        mentionsIssue(commit, mentions) ||
+        debugSink.excludedIssues[identifier]?.some((source) => source.sha === commit.sha) ||
+        explanations.get(commit.sha)!.matches.some((match) => match.identifier === identifier),
+    )
+    .map((commit) => explanations.get(commit.sha)!);
+
+  let verdict: string;
+  const added = issueReferences.find((ref) => ref.identifier === identifier);
+  const reverted = revertedIssueReferences.find((ref) => ref.identifier === identifier);
+  const excludedBy = debugSink.excludedIssues[identifier];
+  if (excludedBy) {
+    verdict = `${identifier} is kept out of this release by an exclude trailer in ${excludedBy.map(({ sha }) => sha.slice(0, 7)).join(", ")}.`;
+  } else if (added) {
+    verdict = `${identifier} is attributed to this release (last added by ${added.commitSha.slice(0, 7)}).`;
+  } else if (reverted) {
+    verdict = `${identifier} is sent as reverted (last reverted by ${reverted.commitSha.slice(0, 7)}).`;
+  } else if (relevant.length === 0) {
+    verdict = `${identifier} is not mentioned by any of the ${all.length} ${pluralize(all.length, "commit")} in the scan range.`;
+  } else {
+    verdict = `${identifier} is mentioned in the scan range but not attributed; see the commits below.`;
+  }
+  return { ...base, verdict, commits: relevant };
+}
+
+function describeCommitVerdict(explanation: CommitExplanation): string {
+  const short = explanation.sha.slice(0, 7);
+  if (explanation.status !== "scanned") {
+    return `Commit ${short} is in the scan range but ${STATUS_DESCRIPTIONS[explanation.status]}.`;
+  }
+  const added = explanation.matches.filter((match) => match.action === "added").map((match) => match.identifier);
+  const reverted = explanation.matches.filter((match) => match.action === "reverted").map((match) => match.identifier);
+  const parts = [
+    added.length > 0 ? `adds ${added.join(", ")}` : null,
+    reverted.length > 0 ? `reverts ${reverted.join(", ")}` : null,
+  ].filter(Boolean);
+  return `Commit ${short} is scanned and ${parts.length > 0 ? parts.join(" and ") : "references no issues"}.`;
+}
+
+/** Matches the identifier as written in text or branch names, including leading-zero variants (`ENG-0012`). */
+function mentionPattern(identifier: string): RegExp {
+  const [team, number] = identifier.split("-");
+  return new RegExp(`(?<![a-z0-9])${team}-0*${number}(?![0-9])`, "i");
+}
+
+function mentionsIssue(commit: CommitContext, pattern: RegExp): boolean {
+  return pattern.test(commit.message ?? "") || pattern.test(commit.branchName ?? "");
+}
+
+/** Renders an explanation as plain text, one block per commit. */
+export function formatExplanation(explanation: Explanation): string {
+  const { range } = explanation;
+  const lines = [
+    `Scan range ${range.baseSha.slice(0, 7)}..${range.headSha.slice(0, 7)}: ${range.commitCount} ${pluralize(range.commitCount, "commit")}`,
+  ];
+  if (explanation.includePaths) lines.push(`Include paths: ${explanation.includePaths.join(", ")}`);
+  if (explanation.excludePaths) lines.push(`Exclude paths: ${explanation.excludePaths.join(", ")}`);
+  if (explanation.includeSubjects) lines.push(`Include subjects: ${explanation.includeSubjects}`);
+  if (explanation.excludeSubjects) lines.push(`Exclude subjects: ${explanation.excludeSubjects}`);
+  if (explanation.includeAuthors) lines.push(`Include authors: ${explanation.includeAuthors.join(", ")}`);
+  if (explanation.excludeAuthors) lines.push(`Exclude authors: ${explanation.excludeAuthors.join(", ")}`);
+  lines.push("", explanation.verdict);
+
+  for (const commit of explanation.commits) {
+    lines.push("", `${commit.sha.slice(0, 7)} ${commit.subject}`);
+    if (commit.branchName) lines.push(`  branch: ${commit.branchName}`);
+    lines.push(`  ${STATUS_DESCRIPTIONS[commit.status]}`);
+    if (commit.revertDepth.message > 0 || commit.revertDepth.branch > 0) {
+      const kind = (depth: number) => (depth % 2 === 1 ? "revert" : depth > 0 ? "re-apply" : "not a revert");
+      lines.push(
+        `  revert depth: subject ${commit.revertDepth.message} (${kind(commit.revertDepth.message)}), branch ${
+          commit.revertDepth.branch
+        } (${kind(commit.revertDepth.branch)})`,
+      );
+    }
+    for (const note of commit.notes) {
+      lines.push(`  note: ${note}`);
+    }
+    for (const match of commit.matches) {
+      lines.push(`  ${match.action} ${match.identifier} via ${match.rule}`);
+    }
+    for (const rejected of commit.rejected) {
+      lines.push(`  rejected ${rejected.token}: ${rejected.reason}`);
+    }
+    if (commit.status === "scanned") {
+      const { target } = explanation;
+      if (target.kind === "issue" && !commit.matches.some((match) => match.identifier === target.identifier)) {
+        lines.push(
+          `  no extractor rule matched ${target.identifier} (a bare mention needs a magic word such as "Fixes" or a subject prefix)`,
+        );
+      } else if (target.kind === "commit" && commit.matches.length === 0) {
+        lines.push("  no extractor rule matched");
+      }
+    }
+    if (commit.pullRequests.length > 0) {
+      lines.push(`  pull requests: ${commit.pullRequests.map((n) => `#${n}`).join(", ")}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createExtractionRule, parseExtractionRuleSpec } from "./extraction-rules";
+
+describe("parseExtractionRuleSpec", () => {
+  it("parses name, target, and regex", () => {
+    const rule = parseExtractionRuleSpec("snake-branch:branch:^(?<team>[a-z]+)_(?<number>\\d+)_");
+    expect(rule.name).toBe("snake-branch");
+    expect(rule.target).toBe("branch");
+    expect(rule.trailer).toBeUndefined();
+    expect(rule.pattern.source).toBe("^(?<team>[a-z]+)_(?<number>\\d+)_");
+    expect(rule.pattern.flags).toBe("gim");
+  });
+
+  it("reads the trailer key from trailer=<Key>", () => {
+    const rule = parseExtractionRuleSpec("refs:trailer=Refs:(?<team>\\w+)-(?<number>\\d+)");
+    expect(rule).toMatchObject({ name: "refs", target: "trailer", trailer: "Refs" });
+  });
+
+  it("keeps colons inside the regex", () => {
+    const rule = parseExtractionRuleSpec("jira:body:^Issue: (?<team>\\w+)-(?<number>\\d+)");
+    expect(rule.pattern.source).toBe("^Issue: (?<team>\\w+)-(?<number>\\d+)");
+  });
+
+  it.each([
+    ["refs:(?<team>\\w+)-(?<number>\\d+)", 'Expected "<name>:<target>:<regex>"'],
+    ["refs:footer:(?<team>\\w+)-(?<number>\\d+)", 'Unknown target "footer"'],
+    ["refs:body:", "Regex must not be empty"],
+    ["refs:trailer:(?<team>\\w+)-(?<number>\\d+)", "names no valid trailer key"],
+    ["refs:subject=Refs:(?<team>\\w+)-(?<number>\\d+)", "sets a trailer key but targets subject"],
+    ["my rule:body:(?<team>\\w+)-(?<number>\\d+)", 'rule name "my rule"'],
+    ["refs:body:(?<team>\\w+-(?<number>\\d+)", "Invalid --extraction-rule value regex"],
+    ["refs:body:(\\w+)-(?<number>\\d+)", "missing named group (?<team>…)"],
+    ["refs:body:(\\w+)-(\\d+)", "missing named groups (?<team>…), (?<number>…)"],
+  ])("rejects %j", (raw, message) => {
+    expect(() => parseExtractionRuleSpec(raw)).toThrow(message);
+  });
+});
+
+describe("createExtractionRule", () => {
+  it("names the config key in errors", () => {
+    expect(() =>
+      createExtractionRule({ name: "refs", target: "body", pattern: "(?<team>\\w+)" }, "extractionRules[0] in cfg"),
+    ).toThrow('Invalid extractionRules[0] in cfg regex for rule "refs": missing named group (?<number>…)');
+  });
+});
@@ -0,0 +1,102 @@
+export const EXTRACTION_RULE_TARGETS = ["subject", "body", "branch", "trailer"] as const;
+
+/** The part of a commit a custom rule is matched against. */
+export type ExtractionRuleTarget = (typeof EXTRACTION_RULE_TARGETS)[number];
+
+/**
+ * A user-defined issue-identifier pattern, run alongside the built-in subject
+ * conventions and magic words. `pattern` must capture the team key and issue
+ * number in the named groups `team` and `number`; every match counts.
+ */
+export type ExtractionRule = {
+  name: string;
+  target: ExtractionRuleTarget;
+  /** Trailer key the rule reads, e.g. `Refs` (target `trailer` only). Case-insensitive. */
+  trailer?: string;
+  pattern: RegExp;
+};
+
+/** An extraction rule as written in the config file, before its pattern is compiled. */
+export type ExtractionRuleConfig = {
+  name: string;
+  target: ExtractionRuleTarget;
+  trailer?: string;
+  pattern: string;
+};
+
+const RULE_NAME_REGEX = /^[\w.-]+$/;
+const TRAILER_KEY_REGEX = /^[A-Za-z0-9][A-Za-z0-9-]*$/;
+
+export function isExtractionRuleTarget(value: string): value is ExtractionRuleTarget {
+  return (EXTRACTION_RULE_TARGETS as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a rule and compiles its pattern. Patterns are case-insensitive and
+ * multiline, so `^` and `$` match at line boundaries within a body.
+ *
+ * @param label - Names the flag or config key in error messages
+ */
+export function createExtractionRule(config: ExtractionRuleConfig, label: string): ExtractionRule {
+  const { name, target, trailer, pattern } = config;
+  if (!RULE_NAME_REGEX.test(name)) {
+    throw new Error(`Invalid ${label}: rule name "${name}" may only contain letters, digits, "_", "." and "-".`);
+  }
+  if (target === "trailer") {
+    if (!trailer || !TRAILER_KEY_REGEX.test(trailer)) {
+      throw new Error(`Invalid ${label}: rule "${name}" targets a trailer but names no valid trailer key.`);
+    }
+  } else if (trailer !== undefined) {
+    throw new Error(`Invalid ${label}: rule "${name}" sets a trailer key but targets ${target}.`);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "gim");
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid ${label} regex for rule "${name}": ${detail}`);
+  }
+  // A throwaway match exposes the group names without parsing the pattern ourselves.
+  const groups = Object.keys(new RegExp(`(?:${pattern})|`, "i").exec("")?.groups ?? {});
+  const missing = ["team", "number"].filter((group) => !groups.includes(group));
+  if (missing.length > 0) {
+    throw new Error(
+      `Invalid ${label} regex for rule "${name}": missing named ${missing.length === 1 ? "group" : "groups"} ${missing
+        .map((group) => `(?<${group}>…)`)
+        .join(", ")}`,
+    );
+  }
+  return { name, target, ...(trailer ? { trailer } : {}), pattern: regex };
+}
+
+/**
+ * Parses `--extraction-rule=<name>:<target>:<regex>`, where `<target>` is
+ * `subject`, `body`, `branch`, or `trailer=<Key>`. The regex is everything
+ * after the second colon, so it may itself contain colons.
+ */
+export function parseExtractionRuleSpec(raw: string, label: string = "--extraction-rule"): ExtractionRule {
+  const first = raw.indexOf(":");
+  const second = first === -1 ? -1 : raw.indexOf(":", first + 1);
+  if (second === -1) {
+    throw new Error(
+      `Invalid ${label} value: "${raw}". Expected "<name>:<target>:<regex>" with target ${EXTRACTION_RULE_TARGETS.filter(
+        (target) => target !== "trailer",
+      ).join(", ")}, or trailer=<Key>.`,
+    );
+  }
+  const name = raw.slice(0, first).trim();
+  const targetSpec = raw.slice(first + 1, second).trim();
+  const pattern = raw.slice(second + 1);
+
+  const [target, trailer] = targetSpec.split("=", 2).map((part) => part.trim()) as [string, string | undefined];
+  if (!isExtractionRuleTarget(target)) {
+    throw new Error(
+      `Invalid ${label} value: "${raw}". Unknown target "${targetSpec}" (expected ${EXTRACTION_RULE_TARGETS.join(", ")}).`,
+    );
+  }
+  if (!pattern) {
+    throw new Error(`Invalid ${label} value: "${raw}". Regex must not be empty.`);
+  }
+  return createExtractionRule({ name, target, trailer, pattern }, `${label} value`);
+}
@@ -1,12 +1,18 @@
 import { describe, expect, it } from "vitest";
 import {
   ExtractedIdentifier,
+  ExtractionTraceEvent,
+  extractExcludedIssueIdentifiersForCommit,
   extractLinearIssueIdentifiersForCommit,
   extractPullRequestNumbersForCommit,
   extractRevertedIssueIdentifiersForCommit,
+  getReleaseOptOut,
   getRevertBranchDepth,
   getRevertMessageDepth,
 } from "./extractors";
+import { parseExtractionRuleSpec } from "./extraction-rules";
+import { createTeamKeyFilter } from "./team-keys";
+import { DEFAULT_TRAILER_KEYS } from "./trailers";
 import { CommitContext } from "./types";
 
 function ids(result: ExtractedIdentifier[]): string[] {
@@ -640,6 +646,161 @@ describe("extractRevertedIssueIdentifiersForCommit", () => {
   });
 });
 
+describe("extraction trace", () => {
+  function traced(extract: (trace: (event: ExtractionTraceEvent) => void) => unknown): ExtractionTraceEvent[] {
+    const events: ExtractionTraceEvent[] = [];
+    extract((event) => events.push(event));
+    return events;
+  }
+
+  it("names the rule behind each added identifier", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      branchName: "eng-1-login",
+      message: "[ENG-2] Login form\n\nFixes ENG-3",
+    };
+    expect(traced((trace) => extractLinearIssueIdentifiersForCommit(commit, { trace }))).toEqual([
+      { kind: "matched", identifier: "ENG-1", source: "branch_name", rule: "branch name" },
+      { kind: "matched", identifier: "ENG-2", source: "commit_message", rule: "subject prefix [KEY-N]" },
+      { kind: "matched", identifier: "ENG-3", source: "commit_message", rule: 'magic word "fixes"' },
+    ]);
+  });
+
+  it("reports identifiers rejected for leading zeros", () => {
+    const commit: CommitContext = { sha: "abc", message: "Fixes ENG-0012" };
+    expect(traced((trace) => extractLinearIssueIdentifiersForCommit(commit, { trace }))).toEqual([
+      { kind: "rejected", token: "ENG-0012", reason: "issue number has leading zeros" },
+    ]);
+  });
+
+  it("reports skipped revert branches and reverted subjects", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      branchName: "revert-12-eng-5-search",
+      message: 'Revert "Fixes ENG-5 search"',
+    };
+    const added = traced((trace) => extractLinearIssueIdentifiersForCommit(commit, { trace }));
+    expect(added.map((event) => event.kind)).toEqual(["skipped", "skipped"]);
+    expect(traced((trace) => extractRevertedIssueIdentifiersForCommit(commit, { trace }))).toEqual([
+      { kind: "matched", identifier: "ENG-5", source: "branch_name", rule: "revert branch (depth 1)" },
+    ]);
+  });
+
+  it("doesn't change extraction results", () => {
+    const commit: CommitContext = { sha: "abc", branchName: "eng-1-x", message: "Fixes ENG-2, ENG-03" };
+    expect(extractLinearIssueIdentifiersForCommit(commit, { trace: () => {} })).toEqual(
+      extractLinearIssueIdentifiersForCommit(commit),
+    );
+  });
+});
+
+describe("custom extraction rules", () => {
+  const snakeBranch = parseExtractionRuleSpec("snake-branch:branch:(?:^|/)(?<team>[a-z]+)_(?<number>\\d+)_");
+  const ticketTrailer = parseExtractionRuleSpec("ticket:trailer=Ticket:(?<team>\\w+)-(?<number>\\d+)");
+  const ticketSubject = parseExtractionRuleSpec("ticket:subject:#(?<team>[a-z]+)(?<number>\\d+)\\b");
+
+  it("matches branch names the built-in pattern ignores", () => {
+    const commit: CommitContext = { sha: "abc", branchName: "dev/eng_12_feature", message: "Add feature" };
+    expect(extractLinearIssueIdentifiersForCommit(commit)).toEqual([]);
+    expect(extractLinearIssueIdentifiersForCommit(commit, { rules: [snakeBranch] })).toEqual([
+      { identifier: "ENG-12", source: "custom:snake-branch", value: "dev/eng_12_feature" },
+    ]);
+  });
+
+  it("reads every value of the named trailer", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message:
+        "Add feature\n\nLonger description.\n\nTicket: ENG-12, ENG-13\nticket: WEB-4\nSigned-off-by: A <a@example.com>",
+    };
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit, { rules: [ticketTrailer] }))).toEqual([
+      "ENG-12",
+      "ENG-13",
+      "WEB-4",
+    ]);
+  });
+
+  it("only reads trailers from the last paragraph", () => {
+    const commit: CommitContext = { sha: "abc", message: "Add feature\n\nTicket: ENG-12\n\nMore text" };
+    expect(extractLinearIssueIdentifiersForCommit(commit, { rules: [ticketTrailer] })).toEqual([]);
+  });
+
+  it("keeps the built-in source when both find the same identifier", () => {
+    const commit: CommitContext = { sha: "abc", message: "Fixes ENG-12\n\nTicket: ENG-12" };
+    expect(extractLinearIssueIdentifiersForCommit(commit, { rules: [ticketTrailer] })).toEqual([
+      { identifier: "ENG-12", source: "commit_message" },
+    ]);
+  });
+
+  it("rejects leading zeros and malformed team keys", () => {
+    const rule = parseExtractionRuleSpec("loose:subject:(?<team>[a-z]+)#(?<number>\\d+)");
+    const events: ExtractionTraceEvent[] = [];
+    const result = extractLinearIssueIdentifiersForCommit(
+      { sha: "abc", message: "eng#012 and platform#3" },
+      { rules: [rule], trace: (event) => events.push(event) },
+    );
+    expect(result).toEqual([]);
+    expect(events).toEqual([
+      { kind: "rejected", token: "eng-012", reason: "issue number has leading zeros" },
+      { kind: "rejected", token: "platform-3", reason: 'not an issue identifier (custom rule "loose" (subject))' },
+    ]);
+  });
+
+  it("treats subject and branch matches on a revert as reverted, not added", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      branchName: "revert-7-eng_5_search",
+      message: 'Revert "Search #eng5"\n\nTicket: ENG-9',
+    };
+    const rules = [snakeBranch, ticketTrailer, ticketSubject];
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit, { rules }))).toEqual(["ENG-9"]);
+    expect(extractRevertedIssueIdentifiersForCommit(commit, { rules })).toEqual([
+      { identifier: "ENG-5", source: "custom:snake-branch", value: "eng_5_search" },
+    ]);
+  });
+
+  it("names the rule in trace events", () => {
+    const events: ExtractionTraceEvent[] = [];
+    extractLinearIssueIdentifiersForCommit(
+      { sha: "abc", message: "Add\n\nTicket: ENG-1" },
+      { rules: [ticketTrailer], trace: (event) => events.push(event) },
+    );
+    expect(events).toEqual([
+      { kind: "matched", identifier: "ENG-1", source: "custom:ticket", rule: 'custom rule "ticket" (trailer Ticket)' },
+    ]);
+  });
+});
+
+describe("team-key filter", () => {
+  const teamKeys = createTeamKeyFilter({ allow: ["ENG", "WEB"], deny: [], auto: false });
+
+  it("drops branch and message candidates from unknown teams", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      branchName: "feat/utf-8-eng-12-encoding",
+      message: "Fixes SHA-256 and WEB-3",
+    };
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit))).toEqual(["UTF-8", "ENG-12", "SHA-256", "WEB-3"]);
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit, { teamKeys }))).toEqual(["ENG-12", "WEB-3"]);
+  });
+
+  it("applies to reverted identifiers", () => {
+    const commit: CommitContext = { sha: "abc", branchName: "revert-4-utf-8-eng-12", message: "Revert branch" };
+    expect(ids(extractRevertedIssueIdentifiersForCommit(commit, { teamKeys }))).toEqual(["ENG-12"]);
+  });
+
+  it("reports dropped candidates to the trace", () => {
+    const events: ExtractionTraceEvent[] = [];
+    extractLinearIssueIdentifiersForCommit(
+      { sha: "abc", message: "Fixes SHA-256" },
+      { teamKeys, trace: (event) => events.push(event) },
+    );
+    expect(events).toEqual([
+      { kind: "rejected", token: "SHA-256", reason: "team key SHA is not in the team-key allow list" },
+    ]);
+  });
+});
+
 describe("getRevertBranchDepth", () => {
   it.each([
     [null, 0],
@@ -786,6 +947,119 @@ Squashed commit of the following:
   });
 });
 
+describe("trailers", () => {
+  it("reports identifiers from issue trailers with the trailer source", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message: "Add search\n\nSearch across projects.\n\nLinear-Issue: ENG-12\nSigned-off-by: A <a@example.com>",
+    };
+    expect(extractLinearIssueIdentifiersForCommit(commit)).toEqual([
+      { identifier: "ENG-12", source: "trailer", value: "Linear-Issue: ENG-12" },
+    ]);
+  });
+
+  it("reads every identifier and URL in a folded trailer value", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message: "Add search\n\nIssue: ENG-12,\n  https://linear.app/acme/issue/WEB-3/search",
+    };
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit))).toEqual(["ENG-12", "WEB-3"]);
+  });
+
+  it("ignores trailer-looking lines outside the trailer block", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message: "Add search\n\nIssue: ENG-12\n\nThe rest of the description.",
+    };
+    expect(extractLinearIssueIdentifiersForCommit(commit)).toEqual([]);
+  });
+
+  it("never reads the subject as a trailer", () => {
+    expect(extractLinearIssueIdentifiersForCommit({ sha: "abc", message: "Issue: ENG-12" })).toEqual([]);
+  });
+
+  it("keeps magic words in unconfigured trailers working", () => {
+    const commit: CommitContext = { sha: "abc", message: "Add search\n\nNote: fixes ENG-12" };
+    expect(extractLinearIssueIdentifiersForCommit(commit)).toEqual([
+      { identifier: "ENG-12", source: "commit_message" },
+    ]);
+  });
+
+  it("uses the configured keys only", () => {
+    const commit: CommitContext = { sha: "abc", message: "Add search\n\nTicket: ENG-12\nIssue: ENG-13" };
+    const trailers = { ...DEFAULT_TRAILER_KEYS, issues: ["Ticket"] };
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit, { trailers }))).toEqual(["ENG-12"]);
+  });
+
+  it("extracts identifiers from exclude trailers separately", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message: "Add search\n\nFixes: ENG-12\nNot-Released: ENG-13",
+    };
+    expect(ids(extractLinearIssueIdentifiersForCommit(commit))).toEqual(["ENG-12"]);
+    expect(extractExcludedIssueIdentifiersForCommit(commit)).toEqual([
+      { identifier: "ENG-13", source: "trailer", value: "Not-Released: ENG-13" },
+    ]);
+    const trailers = { ...DEFAULT_TRAILER_KEYS, exclude: [] };
+    expect(extractExcludedIssueIdentifiersForCommit(commit, { trailers })).toEqual([]);
+  });
+
+  it("reads pull requests from PR trailers", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message: "Add search\n\nPR: #42\nPull-Request: https://github.com/acme/web/pull/43",
+    };
+    expect(extractPullRequestNumbersForCommit(commit)).toEqual([42, 43]);
+    expect(
+      extractPullRequestNumbersForCommit(commit, { trailers: { ...DEFAULT_TRAILER_KEYS, pullRequests: [] } }),
+    ).toEqual([]);
+  });
+
+  it("names the trailer in trace events", () => {
+    const events: ExtractionTraceEvent[] = [];
+    extractLinearIssueIdentifiersForCommit(
+      { sha: "abc", message: "Add\n\nCloses: ENG-1" },
+      { trace: (event) => events.push(event) },
+    );
+    expect(events).toEqual([{ kind: "matched", identifier: "ENG-1", source: "trailer", rule: 'trailer "Closes"' }]);
+  });
+});
+
+describe("getReleaseOptOut", () => {
+  it.each([
+    ["chore: backport ENG-5 [skip linear-release]", "[skip linear-release]"],
+    ["chore: backport ENG-5\n\n[Linear-Release Skip]", "[Linear-Release Skip]"],
+    ['Revert "chore: backport ENG-5 [skip linear-release]"', "[skip linear-release]"],
+    ["chore: backport ENG-5\n\nLinear-Release: skip\nSigned-off-by: A <a@example.com>", "Linear-Release: skip"],
+    ["chore: backport ENG-5\n\nlinear-release: SKIP", "linear-release: SKIP"],
+    [
+      "Add billing export (#812)\n\nHidden behind a flag. [skip linear-release]\n\n* Add export button",
+      "[skip linear-release]",
+    ],
+  ])("%j opts out with %j", (message, marker) => {
+    expect(getReleaseOptOut({ sha: "abc", message })).toBe(marker);
+  });
+
+  it.each([
+    ["Fixes ENG-5", "no marker"],
+    ["Linear-Release: skip", "trailer-like subject"],
+    ["chore: backport\n\nLinear-Release: skip\n\nMore text.", "not in the trailer block"],
+    ["chore: backport\n\nLinear-Release: include", "other trailer value"],
+    ["chore: [skip ci]", "another tool's marker"],
+    [
+      "Add billing export (#812)\n\n* Add export button\n\n* [skip linear-release] fix typo\n\n---------\n\nCo-authored-by: A <a@example.com>",
+      "a GitHub squash sub-commit",
+    ],
+    [
+      "Add billing export\n\nSquashed commit of the following:\n\ncommit 0123456789abcdef0123456789abcdef01234567\nAuthor: A <a@example.com>\n\n    [skip linear-release] fix typo",
+      "a git merge --squash sub-commit",
+    ],
+    ['Revert "Add billing export"\n\nThis reverts commit abc. [skip linear-release]', "a revert body"],
+  ])("%j does not opt out (%s)", (message) => {
+    expect(getReleaseOptOut({ sha: "abc", message })).toBeNull();
+  });
+});
+
 describe("extractPullRequestNumbersForCommit", () => {
   // Messages that should extract PR numbers
   it.each([
@@ -847,6 +1121,49 @@ describe("extractPullRequestNumbersForCommit", () => {
   });
 });
 
+describe("extractPullRequestNumbersForCommit — host-specific formats", () => {
+  it.each([
+    ["bitbucket", "Merged in feature/search (pull request #12)\n\nAdd search\n\nApproved-by: A", [12]],
+    ["bitbucket", "Pull request #13: Add search\n\nMerge in WEB/frontend from feature/search to main", [13]],
+    ["azure", "Merged PR 123: Add search\n\nRelated work items: #45", [123]],
+    ["azure", "Merge pull request 124 from feature/search into main", [124]],
+    [
+      "gerrit",
+      "Add search\n\nChange-Id: I0123456789abcdef0123456789abcdef01234567\nReviewed-on: https://review.acme.io/c/web/+/4567\nReviewed-by: A",
+      [4567],
+    ],
+    ["gerrit", "Add search\n\nReviewed-on: https://review.acme.io/4568", [4568]],
+  ])("%s: %j should yield %j", (provider, message, expected) => {
+    expect(extractPullRequestNumbersForCommit({ sha: "abc", message }, { provider })).toEqual(expected);
+    expect(extractPullRequestNumbersForCommit({ sha: "abc", message })).toEqual(expected);
+  });
+
+  it("only tries the formats of the repository's provider", () => {
+    const commit: CommitContext = { sha: "abc", message: "Merged PR 123: Add search" };
+    expect(extractPullRequestNumbersForCommit(commit, { provider: "azure" })).toEqual([123]);
+    expect(extractPullRequestNumbersForCommit(commit, { provider: "github" })).toEqual([]);
+    expect(extractPullRequestNumbersForCommit(commit, { provider: "bitbucket" })).toEqual([]);
+  });
+
+  it("keeps GitHub and GitLab formats for every provider", () => {
+    const commit: CommitContext = { sha: "abc", message: "Add search (#42)" };
+    expect(extractPullRequestNumbersForCommit(commit, { provider: "bitbucket" })).toEqual([42]);
+  });
+
+  it("ignores a Gerrit Change-Id without a change number", () => {
+    const commit: CommitContext = {
+      sha: "abc",
+      message: "Add search\n\nChange-Id: I0123456789abcdef0123456789abcdef01234567",
+    };
+    expect(extractPullRequestNumbersForCommit(commit, { provider: "gerrit" })).toEqual([]);
+  });
+
+  it("skips host formats on reverts", () => {
+    const commit: CommitContext = { sha: "abc", message: 'Revert "Merged PR 123: Add search"' };
+    expect(extractPullRequestNumbersForCommit(commit, { provider: "azure" })).toEqual([]);
+  });
+});
+
 describe("extractPullRequestNumbersForCommit — GitLab merge request trailer", () => {
   // GitLab emits this trailer whenever it creates a merge commit.
   it.each([
@@ -1,5 +1,15 @@
+import { ExtractionRule } from "./extraction-rules";
 import { verbose } from "./log";
-import { CommitContext } from "./types";
+import { getTeamKeyRejection, TeamKeyFilter } from "./team-keys";
+import {
+  DEFAULT_TRAILER_KEYS,
+  isTrailerKey,
+  parseTrailers,
+  removeTrailerLines,
+  Trailer,
+  TrailerKeys,
+} from "./trailers";
+import { CommitContext, IssueSourceKind } from "./types";
 
 const MAX_KEY_LENGTH = 7;
 
@@ -15,6 +25,13 @@ const GITHUB_SQUASH_RE = /\(#(\d+)\)$/;
 const GITHUB_MERGE_RE = /^Merge pull request #(\d+)/i;
 const GITHUB_TITLE_SCAN_RE = /#(\d+)/g;
 const GITLAB_MR_TRAILER_RE = /^See merge request [\w./-]+!(\d+)\b/gim;
+const BITBUCKET_CLOUD_MERGE_RE = /^Merged in \S+ \(pull request #(\d+)\)/i;
+const BITBUCKET_SERVER_SQUASH_RE = /^Pull request #(\d+): /i;
+const AZURE_MERGED_PR_RE = /^Merged PR (\d+): /i;
+const AZURE_MERGE_RE = /^Merge pull request (\d+) from \S+ into \S+/i;
+// https://review.example.com/c/project/+/123 or, on older servers, https://review.example.com/123
+const GERRIT_REVIEWED_ON_RE = /^Reviewed-on:\s*https?:\/\/\S+?\/(?:c\/\S+?\/\+\/)?(\d+)\/?\s*$/gim;
+const GERRIT_CHANGE_ID_RE = /^Change-Id:\s*I[0-9a-f]{40}\s*$/im;
 
 /**
  * Regex for matching issue identifiers with proper word boundaries.
@@ -41,15 +58,24 @@ const LINEAR_ISSUE_URL_REGEX = /https?:\/\/linear\.app\/[\w-]+\/issue\/(\w{1,7}-
  *
  * Add more entries here as new conventions appear in the wild.
  */
-const COMMON_SUBJECT_PATTERNS: RegExp[] = [
+const COMMON_SUBJECT_PATTERNS: { rule: string; pattern: RegExp }[] = [
   // `[ENG-123] My change`
-  new RegExp(`^\\s*\\[(\\w{1,${MAX_KEY_LENGTH}})-([0-9]{1,9})\\]`, "i"),
+  {
+    rule: "subject prefix [KEY-N]",
+    pattern: new RegExp(`^\\s*\\[(\\w{1,${MAX_KEY_LENGTH}})-([0-9]{1,9})\\]`, "i"),
+  },
   // `(ENG-123) My change`
-  new RegExp(`^\\s*\\((\\w{1,${MAX_KEY_LENGTH}})-([0-9]{1,9})\\)`, "i"),
+  {
+    rule: "subject prefix (KEY-N)",
+    pattern: new RegExp(`^\\s*\\((\\w{1,${MAX_KEY_LENGTH}})-([0-9]{1,9})\\)`, "i"),
+  },
   // `ENG-123 My change` or `ENG-123: My change` (colon is allowed before the
   // whitespace; `ENG-123:foo` without the space stays unmatched to keep the
   // delimiter unambiguous).
-  new RegExp(`^\\s*(\\w{1,${MAX_KEY_LENGTH}})-([0-9]{1,9})(?=:?\\s)`, "i"),
+  {
+    rule: "subject prefix KEY-N",
+    pattern: new RegExp(`^\\s*(\\w{1,${MAX_KEY_LENGTH}})-([0-9]{1,9})(?=:?\\s)`, "i"),
+  },
 ];
 
 /**
@@ -151,26 +177,47 @@ const MAGIC_WORD_REGEX = new RegExp(
 type IdentifierMatch = {
   identifier: string;
   rawIdentifier: string;
+  /** Human-readable name of the rule that matched, reported by `explain`. */
+  rule: string;
 };
 
-function parseMatch(match: RegExpExecArray): IdentifierMatch | undefined {
+/**
+ * Observer for `explain`: told which rule attributed each identifier and why
+ * candidates or whole sources were dropped. Extraction results are identical
+ * with or without one.
+ */
+export type ExtractionTrace = (event: ExtractionTraceEvent) => void;
+
+export type ExtractionTraceEvent =
+  | { kind: "matched"; identifier: string; source: ExtractedIdentifier["source"]; rule: string }
+  | { kind: "rejected"; token: string; reason: string }
+  | { kind: "skipped"; reason: string };
+
+const LEADING_ZEROS_REASON = "issue number has leading zeros";
+
+function parseMatch(match: RegExpExecArray, rule: string, trace?: ExtractionTrace): IdentifierMatch | undefined {
   const [, rawIdentifier, teamKey, numberString] = match;
+  if (!rawIdentifier || !teamKey || !numberString) {
+    return;
+  }
   // Reject leading zeros (e.g., LIN-0004)
-  if (!rawIdentifier || !teamKey || !numberString || Number(numberString).toString().length !== numberString.length) {
+  if (Number(numberString).toString().length !== numberString.length) {
+    trace?.({ kind: "rejected", token: rawIdentifier, reason: LEADING_ZEROS_REASON });
     return;
   }
   return {
     rawIdentifier,
     identifier: `${teamKey.toUpperCase()}-${Number(numberString)}`,
+    rule,
   };
 }
 
-function matchAllIdentifiers(text: string): IdentifierMatch[] {
+function matchAllIdentifiers(text: string, rule: string, trace?: ExtractionTrace): IdentifierMatch[] {
   const regex = new RegExp(ISSUE_IDENTIFIER_REGEX.source, "gi");
   const results: IdentifierMatch[] = [];
   let match;
   while ((match = regex.exec(text)) !== null) {
-    const parsed = parseMatch(match);
+    const parsed = parseMatch(match, rule, trace);
     if (parsed) {
       results.push(parsed);
     }
@@ -183,18 +230,22 @@ function matchAllIdentifiers(text: string): IdentifierMatch[] {
  * (e.g. `[ENG-123] My change`). These don't require a magic word — the
  * convention itself signals intent.
  */
-function matchCommonSubjectPatterns(message: string): IdentifierMatch[] {
+function matchCommonSubjectPatterns(message: string, trace?: ExtractionTrace): IdentifierMatch[] {
   const subject = getCommitSubject(message);
   const results: IdentifierMatch[] = [];
-  for (const pattern of COMMON_SUBJECT_PATTERNS) {
+  for (const { rule, pattern } of COMMON_SUBJECT_PATTERNS) {
     const match = subject.match(pattern);
     if (!match) continue;
     const [, teamKey, numberString] = match;
     if (!teamKey || !numberString) continue;
-    if (Number(numberString).toString().length !== numberString.length) continue;
+    if (Number(numberString).toString().length !== numberString.length) {
+      trace?.({ kind: "rejected", token: `${teamKey}-${numberString}`, reason: LEADING_ZEROS_REASON });
+      continue;
+    }
     results.push({
       rawIdentifier: `${teamKey}-${numberString}`,
       identifier: `${teamKey.toUpperCase()}-${Number(numberString)}`,
+      rule,
     });
   }
   return results;
@@ -204,7 +255,7 @@ function matchCommonSubjectPatterns(message: string): IdentifierMatch[] {
  * Extract issue identifiers from text only when preceded by a magic word.
  * Processes text line-by-line, matching Linear's detection behavior.
  */
-function matchMagicWordIdentifiers(text: string): IdentifierMatch[] {
+function matchMagicWordIdentifiers(text: string, trace?: ExtractionTrace): IdentifierMatch[] {
   const results: IdentifierMatch[] = [];
   const lines = text.split(/\r?\n/);
 
@@ -216,7 +267,7 @@ function matchMagicWordIdentifiers(text: string): IdentifierMatch[] {
       // match[2] contains the captured issue keys portion (one or more IDs)
       const issueKeysPortion = match[2];
       if (issueKeysPortion) {
-        const identifiers = matchAllIdentifiers(issueKeysPortion);
+        const identifiers = matchAllIdentifiers(issueKeysPortion, `magic word "${match[1]!.toLowerCase()}"`, trace);
         results.push(...identifiers);
       }
     }
@@ -227,17 +278,144 @@ function matchMagicWordIdentifiers(text: string): IdentifierMatch[] {
 
 export type ExtractedIdentifier = {
   identifier: string;
-  source: "branch_name" | "commit_message";
+  /** `custom:<rule name>` for identifiers found by a user-defined extraction rule. */
+  source: IssueSourceKind;
+  /** The text a trailer or custom rule matched against (branch name, subject, body, or trailer). */
+  value?: string;
 };
 
-export function extractLinearIssueIdentifiersForCommit(commit: CommitContext): ExtractedIdentifier[] {
+export type ExtractionOptions = {
+  /** User-defined rules, run after the built-in conventions. */
+  rules?: ExtractionRule[];
+  /** Drops candidates whose team key isn't known, e.g. `UTF-8` or `SHA-256`. */
+  teamKeys?: TeamKeyFilter | null;
+  /** Trailer keys for issues and release exclusion. Defaults to `DEFAULT_TRAILER_KEYS`. */
+  trailers?: TrailerKeys;
+  trace?: ExtractionTrace;
+};
+
+function withKnownTeamKeys<T extends IdentifierMatch>(
+  matches: T[],
+  commit: CommitContext,
+  options: ExtractionOptions,
+): T[] {
+  const { teamKeys, trace } = options;
+  if (!teamKeys) return matches;
+  return matches.filter((match) => {
+    const reason = getTeamKeyRejection(teamKeys, match.identifier);
+    if (!reason) return true;
+    verbose(`Dropping ${match.rawIdentifier} from commit ${commit.sha} (${match.rule}): ${reason}`);
+    trace?.({ kind: "rejected", token: match.rawIdentifier, reason });
+    return false;
+  });
+}
+
+/** The commit texts custom rules can target; a target left undefined is not scanned. */
+type RuleTexts = { subject?: string; body?: string; branch?: string; trailers?: Trailer[] };
+
+/**
+ * The part of a commit's message that can add issues, with its trailers: the
+ * whole message, or for an odd-depth revert only the text outside the reverted
+ * title. Squash dumps are stripped first so already-shipped references inside
+ * them aren't attributed to this commit.
+ */
+function getAddingMessage(
+  commit: CommitContext,
+  options: ExtractionOptions,
+): { messageDepth: number; message: string; trailers: Trailer[] } {
+  const { depth: messageDepth, afterTitle } = parseRevertMessage(commit.message ?? "");
+  const isRevert = messageDepth % 2 === 1;
+  const message = stripSquashBlock(isRevert ? afterTitle : (commit.message ?? ""));
+  const keys = options.trailers ?? DEFAULT_TRAILER_KEYS;
+  // Like git's configured trailers, every key we act on marks a block as trailers.
+  const knownKeys = [
+    ...keys.issues,
+    ...keys.pullRequests,
+    ...keys.exclude,
+    ...(options.rules ?? []).flatMap((rule) => (rule.trailer ? [rule.trailer] : [])),
+  ];
+  // After a revert's title there's no subject line left, so the body can be the trailer block.
+  const trailers = parseTrailers(message, knownKeys, { hasSubject: !isRevert });
+  return { messageDepth, message, trailers };
+}
+
+function matchTrailerIdentifiers(
+  trailers: Trailer[],
+  keys: string[],
+  trace?: ExtractionTrace,
+): (IdentifierMatch & { value: string })[] {
+  return trailers
+    .filter((trailer) => isTrailerKey(trailer, keys))
+    .flatMap((trailer) =>
+      matchAllIdentifiers(normalizeLinearUrls(trailer.value), `trailer "${trailer.key}"`, trace).map((match) => ({
+        ...match,
+        value: `${trailer.key}: ${trailer.value}`,
+      })),
+    );
+}
+
+function getCommitBody(message: string): string {
+  const newlineIdx = message.search(/\r?\n/);
+  return newlineIdx === -1 ? "" : message.slice(newlineIdx).replace(/^\r?\n/, "");
+}
+
+/**
+ * Runs user-defined rules over the commit texts they target. Team keys and
+ * numbers are held to the same shape as built-in matches (1-7 word
+ * characters, 1-9 digits, no leading zeros).
+ */
+function matchCustomRules(
+  rules: ExtractionRule[],
+  texts: RuleTexts,
+  trace?: ExtractionTrace,
+): (IdentifierMatch & { source: IssueSourceKind; value: string })[] {
+  const results: (IdentifierMatch & { source: IssueSourceKind; value: string })[] = [];
+  for (const rule of rules) {
+    const inputs =
+      rule.target === "trailer"
+        ? (texts.trailers ?? []).filter((trailer) => isTrailerKey(trailer, [rule.trailer!])).map(({ value }) => value)
+        : [texts[rule.target]].filter((text): text is string => text !== undefined && text.length > 0);
+    const ruleLabel = `custom rule "${rule.name}" (${rule.target === "trailer" ? `trailer ${rule.trailer}` : rule.target})`;
+    for (const input of inputs) {
+      for (const match of input.matchAll(new RegExp(rule.pattern.source, rule.pattern.flags))) {
+        const teamKey = match.groups?.team;
+        const numberString = match.groups?.number;
+        if (!teamKey || !numberString) continue;
+        const token = `${teamKey}-${numberString}`;
+        if (!new RegExp(`^\\w{1,${MAX_KEY_LENGTH}}$`).test(teamKey) || !/^[0-9]{1,9}$/.test(numberString)) {
+          trace?.({ kind: "rejected", token, reason: `not an issue identifier (${ruleLabel})` });
+          continue;
+        }
+        if (Number(numberString).toString().length !== numberString.length) {
+          trace?.({ kind: "rejected", token, reason: LEADING_ZEROS_REASON });
+          continue;
+        }
+        results.push({
+          rawIdentifier: token,
+          identifier: `${teamKey.toUpperCase()}-${Number(numberString)}`,
+          rule: ruleLabel,
+          source: `custom:${rule.name}`,
+          value: input,
+        });
+      }
+    }
+  }
+  return results;
+}
+
+export function extractLinearIssueIdentifiersForCommit(
+  commit: CommitContext,
+  options: ExtractionOptions = {},
+): ExtractedIdentifier[] {
   if (!commit) {
     return [];
   }
+  const { rules = [], trace } = options;
 
   // Odd depth = revert; even depth = non-revert or revert-of-revert (re-add).
   const { depth: branchDepth, inner: strippedBranch } = parseRevertBranch(commit.branchName ?? "");
-  const { depth: messageDepth, afterTitle } = parseRevertMessage(commit.message ?? "");
+  const { messageDepth, message, trailers } = getAddingMessage(commit, options);
+  const trailerKeys = options.trailers ?? DEFAULT_TRAILER_KEYS;
 
   const found = new Map<string, ExtractedIdentifier>();
 
@@ -246,40 +424,133 @@ export function extractLinearIssueIdentifiersForCommit(commit: CommitContext): E
   // The body scan below still runs, since `Fixes ENG-N` in the revert message body
   // is the revert author's own note about what they're closing.
   if (branchDepth % 2 === 0 && strippedBranch.length > 0) {
-    for (const match of matchAllIdentifiers(strippedBranch)) {
+    const rule = branchDepth > 0 ? `branch name (revert depth ${branchDepth}, re-applied)` : "branch name";
+    for (const match of withKnownTeamKeys(matchAllIdentifiers(strippedBranch, rule, trace), commit, options)) {
       if (!found.has(match.identifier)) {
         found.set(match.identifier, {
           identifier: match.identifier,
           source: "branch_name",
         });
+        trace?.({ kind: "matched", identifier: match.identifier, source: "branch_name", rule: match.rule });
       }
     }
   } else if (branchDepth % 2 === 1) {
     verbose(
       `Skipping branch-name extraction for revert branch "${commit.branchName}" (depth ${branchDepth}) on ${commit.sha}`,
     );
+    trace?.({
+      kind: "skipped",
+      reason: `branch "${commit.branchName}" is a revert branch (depth ${branchDepth}); it names reverted issues, not added ones`,
+    });
   }
 
   // In a revert, the inner subject's identifiers are reverted, not added — but
   // the revert author's body (e.g. `Fixes LIN-N`) describes what the revert
-  // itself closes, so scan that. Strip squash dumps first to avoid attributing
-  // already-shipped references to this commit.
-  const scanTarget = messageDepth % 2 === 1 ? afterTitle : (commit.message ?? "");
-  const message = stripSquashBlock(scanTarget);
-  if (message.length > 0) {
-    for (const match of [...matchCommonSubjectPatterns(message), ...matchMagicWordIdentifiers(message)]) {
+  // itself closes, so scan that.
+  if (messageDepth % 2 === 1) {
+    trace?.({
+      kind: "skipped",
+      reason: `subject is a revert (depth ${messageDepth}); only text outside the reverted title can add issues`,
+    });
+  }
+  // Issue and exclude trailers are read as trailers below, not as free text.
+  const freeText = removeTrailerLines(
+    message,
+    trailers.filter((trailer) => isTrailerKey(trailer, [...trailerKeys.issues, ...trailerKeys.exclude])),
+  );
+  if (freeText.length > 0) {
+    const matches = [...matchCommonSubjectPatterns(freeText, trace), ...matchMagicWordIdentifiers(freeText, trace)];
+    for (const match of withKnownTeamKeys(matches, commit, options)) {
       if (!found.has(match.identifier)) {
         found.set(match.identifier, {
           identifier: match.identifier,
           source: "commit_message",
         });
+        trace?.({ kind: "matched", identifier: match.identifier, source: "commit_message", rule: match.rule });
       }
     }
   }
 
+  const trailerMatches = matchTrailerIdentifiers(trailers, trailerKeys.issues, trace);
+  for (const match of withKnownTeamKeys(trailerMatches, commit, options)) {
+    if (!found.has(match.identifier)) {
+      found.set(match.identifier, { identifier: match.identifier, source: "trailer", value: match.value });
+      trace?.({ kind: "matched", identifier: match.identifier, source: "trailer", rule: match.rule });
+    }
+  }
+
+  // Custom rules see the same texts as the built-in ones: not a revert branch,
+  // and for a revert subject only the revert author's own body and trailers.
+  if (rules.length > 0) {
+    const texts: RuleTexts = {
+      branch: branchDepth % 2 === 0 ? strippedBranch : undefined,
+      subject: messageDepth % 2 === 0 ? getEffectiveSubject(message) : undefined,
+      body: getCommitBody(message),
+      trailers,
+    };
+    for (const match of withKnownTeamKeys(matchCustomRules(rules, texts, trace), commit, options)) {
+      if (!found.has(match.identifier)) {
+        found.set(match.identifier, { identifier: match.identifier, source: match.source, value: match.value });
+        trace?.({ kind: "matched", identifier: match.identifier, source: match.source, rule: match.rule });
+      }
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Identifiers listed in exclude trailers (see `TrailerKeys.exclude`): the
+ * commit asks for them to be left out of the release. Read from the same text
+ * that can add issues, so a revert's reverted title never excludes anything.
+ */
+export function extractExcludedIssueIdentifiersForCommit(
+  commit: CommitContext,
+  options: ExtractionOptions = {},
+): ExtractedIdentifier[] {
+  if (!commit) return [];
+  const keys = options.trailers ?? DEFAULT_TRAILER_KEYS;
+  if (keys.exclude.length === 0) return [];
+  const { trailers } = getAddingMessage(commit, options);
+  const found = new Map<string, ExtractedIdentifier>();
+  for (const match of withKnownTeamKeys(matchTrailerIdentifiers(trailers, keys.exclude), commit, options)) {
+    if (!found.has(match.identifier)) {
+      found.set(match.identifier, { identifier: match.identifier, source: "trailer", value: match.value });
+    }
+  }
   return Array.from(found.values());
 }
 
+const SKIP_TOKEN_REGEX = /\[(?:skip linear-release|linear-release skip)\]/i;
+const OPT_OUT_TRAILER_KEY = "Linear-Release";
+/** A GitHub squash merge lists each squashed commit's title as `* <title>`. */
+const GITHUB_SQUASH_ITEM_RE = /^\* /;
+
+/**
+ * Returns the marker that opts the whole commit out of releases, or null:
+ * a `[skip linear-release]` token in the title (including a revert's quoted
+ * title, so reverting a skipped commit is skipped too) or in the body, or a
+ * `Linear-Release: skip` trailer. Like issue extraction, squashed sub-commit
+ * history doesn't count, so one skipped fixup can't drop a whole squash merge.
+ */
+export function getReleaseOptOut(commit: CommitContext): string | null {
+  const rawMessage = commit?.message ?? "";
+  const title = rawMessage.split(/\r?\n/)[0] ?? "";
+  if (leadingRevertDepth(rawMessage) > 0) {
+    return title.match(SKIP_TOKEN_REGEX)?.[0] ?? null;
+  }
+  const message = stripSquashBlock(rawMessage)
+    .split(/\r?\n/)
+    .filter((line, index) => index === 0 || !GITHUB_SQUASH_ITEM_RE.test(line))
+    .join("\n");
+  const token = message.match(SKIP_TOKEN_REGEX);
+  if (token) return token[0];
+  const trailer = parseTrailers(message, [OPT_OUT_TRAILER_KEY]).find(
+    (candidate) => isTrailerKey(candidate, [OPT_OUT_TRAILER_KEY]) && candidate.value.toLowerCase() === "skip",
+  );
+  return trailer ? `${trailer.key}: ${trailer.value}` : null;
+}
+
 type PrMatch = { number: number; source: string };
 
 /**
@@ -291,6 +562,16 @@ type PrMatch = { number: number; source: string };
  * - GitLab: a `See merge request <group>/<project>!N` trailer (emitted by the
  *   default merge commit template whenever a merge commit is created — i.e.
  *   merge_method = merge or rebase_merge, squash on or off)
+ * - Pull request trailers (`TrailerKeys.pullRequests`, e.g. `Pull-Request: #N`
+ *   or a PR/MR URL)
+ *
+ * Host-specific formats, tried when `options.provider` (from `getRepoInfo`)
+ * names that host, or for every host when the provider is unknown:
+ * - Bitbucket Cloud: `Merged in <branch> (pull request #N)`; Bitbucket Server
+ *   squash: `Pull request #N: Title`
+ * - Azure DevOps: `Merged PR N: Title`, or `Merge pull request N from <branch> into <branch>`
+ * - Gerrit: the change number in a `Reviewed-on:` trailer. A `Change-Id:`
+ *   alone is a hash, not a number, so it's only logged.
  *
  * Not captured (we cannot recover the number from the message alone):
  * - GitLab merge_method = ff (no merge commit, no trailer; the source commit
@@ -298,7 +579,10 @@ type PrMatch = { number: number; source: string };
  * - Projects with custom merge commit templates that strip these formats
  * - Direct pushes whose commit message follows none of the above conventions
  */
-export function extractPullRequestNumbersForCommit(commit: CommitContext): number[] {
+export function extractPullRequestNumbersForCommit(
+  commit: CommitContext,
+  options: Pick<ExtractionOptions, "trailers"> & { provider?: string | null } = {},
+): number[] {
   if (!commit) return [];
 
   const rawMessage = commit.message ?? "";
@@ -319,8 +603,29 @@ export function extractPullRequestNumbersForCommit(commit: CommitContext): numbe
   // to this commit's release.
   const message = stripSquashBlock(rawMessage);
 
+  const trailerKeys = options.trailers ?? DEFAULT_TRAILER_KEYS;
+  const trailers = parseTrailers(message, trailerKeys.pullRequests);
+
+  // GitHub and GitLab formats are tried for every host: mirrors and imported history carry them anywhere.
+  const hostExtractors = options.provider
+    ? [HOST_PR_EXTRACTORS.get(options.provider)].filter((extract) => extract !== undefined)
+    : [...HOST_PR_EXTRACTORS.values()];
+  const hostMatches = hostExtractors.flatMap((extract) => extract(message));
+  if (
+    hostExtractors.includes(extractGerritChangeNumbers) &&
+    GERRIT_CHANGE_ID_RE.test(message) &&
+    !hostMatches.some((match) => match.source === "gerrit reviewed-on")
+  ) {
+    verbose(`Commit ${commit.sha} has a Gerrit Change-Id but no Reviewed-on trailer; no change number to record`);
+  }
+
   const valid: number[] = [];
-  for (const { number, source } of [...extractGithubPrNumbers(message), ...extractGitlabMrNumbers(message)]) {
+  for (const { number, source } of [
+    ...extractGithubPrNumbers(message),
+    ...extractGitlabMrNumbers(message),
+    ...hostMatches,
+    ...extractTrailerPrNumbers(trailers, trailerKeys.pullRequests),
+  ]) {
     if (number > MAX_PR_NUMBER) {
       verbose(
         `Ignoring #${number} in commit ${commit.sha} (${source}): exceeds max PR number ${MAX_PR_NUMBER}, not a valid reference`,
@@ -375,6 +680,48 @@ function extractGitlabMrNumbers(message: string): PrMatch[] {
   }));
 }
 
+function extractBitbucketPrNumbers(message: string): PrMatch[] {
+  const title = message.split(/\r?\n/)[0] ?? "";
+  const merge = title.match(BITBUCKET_CLOUD_MERGE_RE) ?? title.match(BITBUCKET_SERVER_SQUASH_RE);
+  return merge ? [{ number: Number.parseInt(merge[1]!, 10), source: "bitbucket merge" }] : [];
+}
+
+function extractAzurePrNumbers(message: string): PrMatch[] {
+  const title = message.split(/\r?\n/)[0] ?? "";
+  const merge = title.match(AZURE_MERGED_PR_RE) ?? title.match(AZURE_MERGE_RE);
+  return merge ? [{ number: Number.parseInt(merge[1]!, 10), source: "azure devops merge" }] : [];
+}
+
+function extractGerritChangeNumbers(message: string): PrMatch[] {
+  return [...message.matchAll(GERRIT_REVIEWED_ON_RE)].map((m) => ({
+    number: Number.parseInt(m[1]!, 10),
+    source: "gerrit reviewed-on",
+  }));
+}
+
+/** Formats only some hosts produce, keyed by `RepoInfo.provider`. */
+const HOST_PR_EXTRACTORS = new Map<string, (message: string) => PrMatch[]>([
+  ["bitbucket", extractBitbucketPrNumbers],
+  ["azure", extractAzurePrNumbers],
+  ["gerrit", extractGerritChangeNumbers],
+]);
+
+/**
+ * `#N`, `!N`, `group/project!N`, a bare `N`, or a GitHub / GitLab / Bitbucket
+ * PR URL. Anything else in a pull request trailer is ignored.
+ */
+const TRAILER_PR_REF_RE = /^(?:[\w./-]*[#!])?(\d+)$/;
+const TRAILER_PR_URL_RE = /\/(?:pull|pulls|merge_requests|pull-requests)\/(\d+)(?:[/?#]|$)/;
+
+function extractTrailerPrNumbers(trailers: Trailer[], keys: string[]): PrMatch[] {
+  return trailers
+    .filter((trailer) => isTrailerKey(trailer, keys))
+    .flatMap((trailer) => {
+      const match = trailer.value.match(TRAILER_PR_REF_RE) ?? trailer.value.match(TRAILER_PR_URL_RE);
+      return match ? [{ number: Number.parseInt(match[1]!, 10), source: `trailer "${trailer.key}"` }] : [];
+    });
+}
+
 function parseRevertBranch(branchName: string): {
   depth: number;
   inner: string;
@@ -470,8 +817,12 @@ function leadingRevertDepth(message: string): number {
 }
 
 /** Extract identifiers being reverted. Returns [] if not an odd-depth revert. */
-export function extractRevertedIssueIdentifiersForCommit(commit: CommitContext): ExtractedIdentifier[] {
+export function extractRevertedIssueIdentifiersForCommit(
+  commit: CommitContext,
+  options: ExtractionOptions = {},
+): ExtractedIdentifier[] {
   if (!commit) return [];
+  const { rules = [], trace } = options;
 
   const { depth: branchDepth, inner: originalBranch } = parseRevertBranch(commit.branchName ?? "");
   const { depth: messageDepth, inner: innerMessage } = parseRevertMessage(commit.message ?? "");
@@ -482,12 +833,14 @@ export function extractRevertedIssueIdentifiersForCommit(commit: CommitContext):
   const found = new Map<string, ExtractedIdentifier>();
 
   if (branchDepth % 2 === 1) {
-    for (const match of matchAllIdentifiers(originalBranch)) {
+    const matches = matchAllIdentifiers(originalBranch, `revert branch (depth ${branchDepth})`, trace);
+    for (const match of withKnownTeamKeys(matches, commit, options)) {
       if (!found.has(match.identifier)) {
         found.set(match.identifier, {
           identifier: match.identifier,
           source: "branch_name",
         });
+        trace?.({ kind: "matched", identifier: match.identifier, source: "branch_name", rule: match.rule });
       }
     }
   }
@@ -496,12 +849,33 @@ export function extractRevertedIssueIdentifiersForCommit(commit: CommitContext):
   // false positives from generic word-number tokens (e.g. "Bump v1-2 to v1-3").
   if (messageDepth % 2 === 1) {
     const innerStripped = stripSquashBlock(innerMessage);
-    for (const match of matchMagicWordIdentifiers(innerStripped)) {
+    for (const match of withKnownTeamKeys(matchMagicWordIdentifiers(innerStripped, trace), commit, options)) {
       if (!found.has(match.identifier)) {
         found.set(match.identifier, {
           identifier: match.identifier,
           source: "commit_message",
         });
+        trace?.({
+          kind: "matched",
+          identifier: match.identifier,
+          source: "commit_message",
+          rule: `reverted subject (depth ${messageDepth}), ${match.rule}`,
+        });
+      }
+    }
+  }
+
+  // Branch and subject rules name what the reverted change referenced; the
+  // revert's own body and trailers describe the revert itself.
+  if (rules.length > 0) {
+    const texts: RuleTexts = {
+      branch: branchDepth % 2 === 1 ? originalBranch : undefined,
+      subject: messageDepth % 2 === 1 ? innerMessage : undefined,
+    };
+    for (const match of withKnownTeamKeys(matchCustomRules(rules, texts, trace), commit, options)) {
+      if (!found.has(match.identifier)) {
+        found.set(match.identifier, { identifier: match.identifier, source: match.source, value: match.value });
+        trace?.({ kind: "matched", identifier: match.identifier, source: match.source, rule: match.rule });
       }
     }
   }
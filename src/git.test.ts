@@ -14,6 +14,7 @@ import {
   getCommitParents,
   getRepoInfo,
   isAncestor,
+  listTags,
   normalizePathspec,
   parseRepoUrl,
   resolveFirstSyncBoundary,
@@ -66,6 +67,17 @@ describe("buildPathspecArgs", () => {
   it("should normalize patterns", () => {
     expect(buildPathspecArgs(["./android/**", "  ios/**  "])).toBe('-- ":(top,glob)android/**" ":(top,glob)ios/**"');
   });
+
+  it("should add exclude pathspecs after the include patterns", () => {
+    expect(buildPathspecArgs(["apps/web/**"], ["apps/web/e2e/**"])).toBe(
+      '-- ":(top,glob)apps/web/**" ":(top,glob,exclude)apps/web/e2e/**"',
+    );
+  });
+
+  it("should match the whole repository when only exclude patterns are given", () => {
+    expect(buildPathspecArgs(null, ["pnpm-lock.yaml"])).toBe('-- ":/" ":(top,glob,exclude)pnpm-lock.yaml"');
+    expect(buildPathspecArgs([], [""])).toBe("");
+  });
 });
 
 describe("extractBranchName", () => {
@@ -373,6 +385,82 @@ describe("parseRepoUrl", () => {
     });
   });
 
+  describe("Azure DevOps and Gerrit", () => {
+    it("should parse an Azure DevOps HTTPS URL", () => {
+      const result = parseRepoUrl("https://acme@dev.azure.com/acme/web/_git/frontend");
+      expect(result).toEqual({
+        owner: "acme",
+        name: "web/_git/frontend",
+        provider: "azure",
+        url: "https://dev.azure.com/acme/web/_git/frontend",
+      });
+    });
+
+    it("should parse an Azure DevOps SSH URL into the same repo as HTTPS", () => {
+      const result = parseRepoUrl("git@ssh.dev.azure.com:v3/acme/web/frontend");
+      expect(result).toEqual({
+        owner: "acme",
+        name: "web/_git/frontend",
+        provider: "azure",
+        url: "https://dev.azure.com/acme/web/_git/frontend",
+      });
+    });
+
+    it("should detect azure for legacy *.visualstudio.com hosts", () => {
+      expect(parseRepoUrl("https://acme.visualstudio.com/web/_git/frontend")?.provider).toBe("azure");
+    });
+
+    it("should detect gerrit hosts", () => {
+      expect(parseRepoUrl("https://gerrit.acme.io/platform/service")?.provider).toBe("gerrit");
+      expect(parseRepoUrl("https://chromium.googlesource.com/chromium/src")?.provider).toBe("gerrit");
+    });
+  });
+
+  describe("ssh:// URLs", () => {
+    it("should parse an ssh:// URL with a port", () => {
+      const result = parseRepoUrl("ssh://git@gitlab.internal.io:2222/team/platform/service.git");
+      expect(result).toEqual({
+        owner: "team",
+        name: "platform/service",
+        provider: "gitlab",
+        url: "https://gitlab.internal.io/team/platform/service",
+      });
+    });
+
+    it("should parse an ssh:// URL without user or port", () => {
+      const result = parseRepoUrl("ssh://github.com/linear/linear-app");
+      expect(result).toEqual({
+        owner: "linear",
+        name: "linear-app",
+        provider: "github",
+        url: "https://github.com/linear/linear-app",
+      });
+    });
+  });
+
+  describe("configured host providers", () => {
+    const hosts = { "code.corp.example": "gitlab", "git.internal": "github" } as const;
+
+    it("should use the mapping for hosts the built-in guesses miss", () => {
+      expect(parseRepoUrl("https://code.corp.example/team/service.git", hosts)?.provider).toBe("gitlab");
+      expect(parseRepoUrl("git@git.internal:team/service.git", hosts)?.provider).toBe("github");
+      expect(parseRepoUrl("ssh://git@code.corp.example:2222/team/service.git", hosts)?.provider).toBe("gitlab");
+    });
+
+    it("should match hosts case-insensitively and ignore HTTPS ports", () => {
+      expect(parseRepoUrl("https://Code.Corp.Example:8443/team/service.git", hosts)).toEqual({
+        owner: "team",
+        name: "service",
+        provider: "gitlab",
+        url: "https://Code.Corp.Example:8443/team/service",
+      });
+    });
+
+    it("should take precedence over the built-in guesses", () => {
+      expect(parseRepoUrl("https://github.com/linear/linear-app", { "github.com": "gitlab" })?.provider).toBe("gitlab");
+    });
+  });
+
   describe("unknown providers", () => {
     it("should return null provider for unknown hosts", () => {
       const result = parseRepoUrl("https://example.com/myorg/myrepo.git");
@@ -1028,6 +1116,22 @@ describe("getCommitContextsBetweenShas", () => {
       process.chdir(originalCwd);
     }
   });
+  it("should return the same commits through a shared cache and reuse cached contexts", () => {
+    const cache = new Map();
+    const uncached = getCommitContextsBetweenShas(repo.commits.first, repo.commits.third, { cwd: repo.cwd });
+    const first = getCommitContextsBetweenShas(repo.commits.first, repo.commits.third, { cwd: repo.cwd, cache });
+    expect(first).toEqual(uncached);
+    expect([...cache.keys()].sort()).toEqual([repo.commits.second, repo.commits.third].sort());
+
+    const filtered = getCommitContextsBetweenShas(repo.commits.first, repo.commits.third, {
+      includePaths: ["src/**"],
+      cwd: repo.cwd,
+      cache,
+    });
+    expect(filtered).toHaveLength(1);
+    // Same object: the second call served the context from the cache rather than re-reading it
+    expect(filtered[0]).toBe(first[0]);
+  });
 });
 
 describe("merge commit handling", () => {
@@ -1047,6 +1151,7 @@ describe("merge commit handling", () => {
       expect(context).not.toBeNull();
       expect(context?.sha).toBe(mergeRepo.commits.mergeCommit);
       expect(context?.message).toContain("Merge pull request #42");
+      expect(context?.author).toEqual({ name: "Test User", email: "test@example.com" });
     });
 
     it("should extract branch name from merge commit message when decorations are empty", () => {
@@ -1192,6 +1297,31 @@ describe("merge commit handling", () => {
       expect(branchNames).not.toContain("feature/LIN-300-infra");
     });
 
+    it("should drop merges that only touched excluded paths", () => {
+      const result = getCommitContextsBetweenShas(multiRepo.commits.base, multiRepo.commits.headMerge, {
+        includePaths: ["frontend/**", "backend/**"],
+        excludePaths: ["backend/**"],
+        cwd: multiRepo.cwd,
+      });
+
+      const shas = new Set(result.map((c) => c.sha));
+      expect(shas.has(multiRepo.commits.merge100)).toBe(true);
+      expect(shas.has(multiRepo.commits.merge200)).toBe(false);
+      expect(shas.has(multiRepo.commits.merge300)).toBe(false);
+    });
+
+    it("should keep everything but the excluded paths when no include paths are given", () => {
+      const result = getCommitContextsBetweenShas(multiRepo.commits.base, multiRepo.commits.headMerge, {
+        excludePaths: ["infra/**"],
+        cwd: multiRepo.cwd,
+      });
+
+      const shas = new Set(result.map((c) => c.sha));
+      expect(shas.has(multiRepo.commits.merge100)).toBe(true);
+      expect(shas.has(multiRepo.commits.merge200)).toBe(true);
+      expect(shas.has(multiRepo.commits.merge300)).toBe(false);
+    });
+
     it("should return HEAD merge commit when fromSha === toSha and HEAD is a merge", () => {
       const result = getCommitContextsBetweenShas(multiRepo.commits.headMerge, multiRepo.commits.headMerge, {
         includePaths: ["frontend/**", "backend/**"],
@@ -1342,6 +1472,120 @@ describe("merge commit handling", () => {
   });
 });
 
+describe("getCommitContextsBetweenShas with submodules", () => {
+  let lib: string;
+  let repo: { cwd: string; added: string; bump: string; libCommits: string[] };
+
+  beforeAll(() => {
+    lib = initTempRepo({ prefix: "linear-release-lib-", dirs: [], seedFile: { path: "lib.txt", content: "v0" } }).cwd;
+    const { cwd } = initTempRepo({
+      prefix: "linear-release-super-",
+      dirs: ["app"],
+      seedFile: { path: "app/index.txt", content: "v0" },
+    });
+    runGit(`-c protocol.file.allow=always submodule add ${lib} vendor/lib`, cwd);
+    runGit('commit -m "Add lib"', cwd);
+    const added = runGit("rev-parse HEAD", cwd);
+
+    const libCommits: string[] = [];
+    for (const message of ["ENG-1 Fix parser", "ENG-2 Add tokenizer"]) {
+      writeFileSync(join(lib, "lib.txt"), message);
+      runGit(`commit -am "${message}"`, lib);
+      libCommits.push(runGit("rev-parse HEAD", lib));
+    }
+    const submodule = join(cwd, "vendor/lib");
+    runGit("fetch origin", submodule);
+    runGit(`checkout ${libCommits[1]}`, submodule);
+    runGit("add vendor/lib", cwd);
+    runGit('commit -m "Bump lib"', cwd);
+    repo = { cwd, added, bump: runGit("rev-parse HEAD", cwd), libCommits };
+  });
+
+  afterAll(() => {
+    rmSync(lib, { recursive: true, force: true });
+    rmSync(repo.cwd, { recursive: true, force: true });
+  });
+
+  it("returns only the pointer bump without recurseSubmodules", () => {
+    const result = getCommitContextsBetweenShas(repo.added, repo.bump, { cwd: repo.cwd });
+    expect(result.map((commit) => commit.sha)).toEqual([repo.bump]);
+  });
+
+  it("adds the submodule's commits between the old and new pointer", () => {
+    const result = getCommitContextsBetweenShas(repo.added, repo.bump, { cwd: repo.cwd, recurseSubmodules: true });
+    expect(result.map((commit) => [commit.sha, commit.submodule])).toEqual([
+      [repo.bump, undefined],
+      [repo.libCommits[1], "vendor/lib"],
+      [repo.libCommits[0], "vendor/lib"],
+    ]);
+    expect(result[1]?.message).toBe("ENG-2 Add tokenizer");
+  });
+
+  it("follows the pointer when inspecting the bump commit alone", () => {
+    const result = getCommitContextsBetweenShas(repo.bump, repo.bump, { cwd: repo.cwd, recurseSubmodules: true });
+    expect(result.map((commit) => commit.sha)).toEqual([repo.bump, ...[...repo.libCommits].reverse()]);
+  });
+
+  it("skips submodules outside the include paths", () => {
+    const result = getCommitContextsBetweenShas(repo.added, repo.bump, {
+      cwd: repo.cwd,
+      includePaths: ["app/**"],
+      recurseSubmodules: true,
+    });
+    expect(result).toEqual([]);
+  });
+
+  it("skips a newly added submodule", () => {
+    const base = runGit("rev-parse HEAD~2", repo.cwd);
+    const result = getCommitContextsBetweenShas(base, repo.added, { cwd: repo.cwd, recurseSubmodules: true });
+    expect(result.map((commit) => commit.sha)).toEqual([repo.added]);
+  });
+});
+
+describe("listTags", () => {
+  let cwd: string;
+  const shas: string[] = [];
+
+  beforeAll(() => {
+    cwd = mkdtempSync(join(tmpdir(), "linear-release-tags-"));
+    runGit("init -q -b main", cwd);
+    runGit('config user.email "test@example.com"', cwd);
+    runGit('config user.name "Test User"', cwd);
+    for (const [index, date] of ["2026-01-01T00:00:00Z", "2026-02-01T00:00:00Z", "2026-03-01T00:00:00Z"].entries()) {
+      execSync(`git commit -q --allow-empty -m "commit ${index}"`, {
+        cwd,
+        env: { ...process.env, GIT_COMMITTER_DATE: date, GIT_AUTHOR_DATE: date },
+      });
+      shas.push(runGit("rev-parse HEAD", cwd));
+    }
+    // Tag names sort in the opposite order of their commits.
+    runGit(`tag v9.0.0 ${shas[0]}`, cwd);
+    runGit(`tag -a v10.0.0 -m "annotated" ${shas[1]}`, cwd);
+    runGit(`tag web-v1.0.0 ${shas[2]}`, cwd);
+    runGit("checkout -q -b side", cwd);
+    runGit('commit -q --allow-empty -m "unreleased"', cwd);
+    runGit("tag v11.0.0", cwd);
+    runGit("checkout -q main", cwd);
+  });
+
+  afterAll(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("lists matching tags reachable from HEAD, oldest commit first, with annotated tags peeled", () => {
+    expect(listTags("v*", "HEAD", cwd)).toEqual([
+      { name: "v9.0.0", sha: shas[0] },
+      { name: "v10.0.0", sha: shas[1] },
+    ]);
+    expect(listTags("*", "HEAD", cwd).map((tag) => tag.name)).toEqual(["v9.0.0", "v10.0.0", "web-v1.0.0"]);
+    expect(listTags("v*", "side", cwd).map((tag) => tag.name)).toEqual(["v9.0.0", "v10.0.0", "v11.0.0"]);
+  });
+
+  it("returns nothing when no tag matches", () => {
+    expect(listTags("api-v*", "HEAD", cwd)).toEqual([]);
+  });
+});
+
 describe("assertGitAvailable", () => {
   it("succeeds inside a git repository with git on PATH", () => {
     const repo = createTempRepo();
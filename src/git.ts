@@ -1,6 +1,9 @@
 import { execFileSync, execSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
 import type { CommitContext, GitInfo, RepoInfo } from "./types";
 import { error as logError, verbose, warn } from "./log";
+import { pluralize } from "./util";
 
 /** Strips leading "./" or "/" so paths are clean for git pathspec. */
 export function normalizePathspec(pattern: string): string {
@@ -8,26 +11,40 @@ export function normalizePathspec(pattern: string): string {
 }
 
 /**
- * Builds git pathspec arguments from include patterns.
+ * Builds git pathspec arguments from include and exclude patterns.
  *
  * Uses `:(top,glob)` pathspec prefix:
  * - `top`: paths are relative to repo root, not the current working directory
  * - `glob`: enables `**` for recursive matching (e.g., "src/**")
  *
+ * Exclude patterns add `exclude`, so a commit matches when it touches a file
+ * that matches an include pattern and no exclude pattern. With only exclude
+ * patterns, `:/` (the whole repository) is the include side.
+ *
  * @see https://git-scm.com/docs/gitglossary#Documentation/gitglossary.txt-aiddefpathspec
  */
-export function buildPathspecArgs(includePaths: string[] | null): string {
-  if (!includePaths || includePaths.length === 0) {
-    return "";
-  }
-  const patterns = includePaths
-    .map((p) => normalizePathspec(p))
-    .filter((p) => p.length > 0)
-    .map((p) => `":(top,glob)${p}"`);
-  if (patterns.length === 0) {
+export function buildPathspecArgs(includePaths: string[] | null, excludePaths: string[] | null = null): string {
+  const toPatterns = (paths: string[] | null, magic: string) =>
+    (paths ?? [])
+      .map((p) => normalizePathspec(p))
+      .filter((p) => p.length > 0)
+      .map((p) => `":(${magic})${p}"`);
+  const includes = toPatterns(includePaths, "top,glob");
+  const excludes = toPatterns(excludePaths, "top,glob,exclude");
+  if (includes.length === 0 && excludes.length === 0) {
     return "";
   }
-  return `-- ${patterns.join(" ")}`;
+  return `-- ${[...(includes.length > 0 ? includes : ['":/"']), ...excludes].join(" ")}`;
+}
+
+/** Describes include and exclude paths for log lines, e.g. "include paths: a/**; exclude paths: a/e2e/**". */
+export function describePathFilter(includePaths: string[] | null, excludePaths: string[] | null = null): string {
+  return [
+    includePaths?.length ? `include paths: ${includePaths.join(", ")}` : null,
+    excludePaths?.length ? `exclude paths: ${excludePaths.join(", ")}` : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
 }
 
 /**
@@ -91,6 +108,70 @@ export function getCurrentGitInfo(cwd: string = process.cwd()): GitInfo {
   }
 }
 
+/**
+ * Returns the nearest tag reachable from `ref` (`git describe --tags --abbrev=0`),
+ * optionally restricted to tags matching the glob `match`. Null when no tag matches.
+ */
+export function getNearestTag(match?: string, ref: string = "HEAD", cwd: string = process.cwd()): string | null {
+  try {
+    return (
+      execFileSync("git", ["describe", "--tags", "--abbrev=0", ...(match ? ["--match", match] : []), ref], {
+        cwd,
+        stdio: ["ignore", "pipe", "ignore"],
+        encoding: "utf8",
+      }).trim() || null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tags matching the glob `pattern` whose commits are reachable from `ref`,
+ * oldest commit first (ties by tag name). Annotated tags are peeled to the
+ * commit they point at.
+ */
+export function listTags(
+  pattern: string,
+  ref: string = "HEAD",
+  cwd: string = process.cwd(),
+): { name: string; sha: string }[] {
+  const out = execFileSync(
+    "git",
+    [
+      "for-each-ref",
+      `--merged=${ref}`,
+      "--format=%(refname:strip=2)%09%(objectname)%09%(*objectname)%09%(committerdate:unix)%09%(*committerdate:unix)",
+      `refs/tags/${pattern}`,
+    ],
+    { cwd, stdio: ["ignore", "pipe", "pipe"], encoding: "utf8" },
+  );
+  return out
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [name, sha, peeledSha, date, peeledDate] = line.split("\t");
+      return { name: name!, sha: peeledSha || sha!, date: Number(peeledDate || date) };
+    })
+    .sort((a, b) => a.date - b.date || a.name.localeCompare(b.name))
+    .map(({ name, sha }) => ({ name, sha }));
+}
+
+/** `git describe --tags --always`: nearest tag plus distance and short SHA, or the short SHA alone. */
+export function describeCommit(ref: string = "HEAD", cwd: string = process.cwd()): string | null {
+  try {
+    return (
+      execFileSync("git", ["describe", "--tags", "--always", ref], {
+        cwd,
+        stdio: ["ignore", "pipe", "ignore"],
+        encoding: "utf8",
+      }).trim() || null
+    );
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Extracts the most relevant branch name from git decoration refs.
  * Prefers feature branches over common branches (main, master, develop, etc.)
@@ -135,6 +216,92 @@ export function resolveFirstSyncBoundary(currentSha: string, cwd: string = proce
   return currentSha;
 }
 
+/**
+ * Runs `query` and, when it finds nothing in a shallow clone, deepens until it
+ * does. Null when the full history has no answer either.
+ */
+function queryDeepening(cwd: string, query: () => string | null): string | null {
+  let found = query();
+  if (found === null && isShallowRepository(cwd)) {
+    deepenUntil(cwd, () => (found = query()) !== null);
+  }
+  return found;
+}
+
+function runQuery(args: string[], cwd: string): string | null {
+  try {
+    return (
+      execFileSync("git", args, {
+        cwd,
+        stdio: ["ignore", "pipe", "ignore"],
+        encoding: "utf8",
+      })
+        .trim()
+        .split("\n")[0] || null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** `git merge-base <ref> <sha>`, deepening a shallow clone as needed. Null when they share no history. */
+export function getMergeBase(ref: string, sha: string, cwd: string = process.cwd()): string | null {
+  return queryDeepening(cwd, () => runQuery(["merge-base", ref, sha], cwd));
+}
+
+/**
+ * Walks `sha`'s first-parent history back `count` commits, or to the newest
+ * commit made before `before`, deepening a shallow clone as needed. When the
+ * history ends first, returns its root commit with `reachedRoot`: the root
+ * is then within the walk and should be scanned too.
+ */
+export function getFirstParentBoundary(
+  sha: string,
+  limit: { count: number } | { before: string },
+  cwd: string = process.cwd(),
+): { sha: string; reachedRoot: boolean } {
+  const args =
+    "count" in limit
+      ? ["rev-list", "--first-parent", `--skip=${limit.count}`, "--max-count=1", sha]
+      : ["rev-list", "--first-parent", `--before=${limit.before}`, "--max-count=1", sha];
+  const found = queryDeepening(cwd, () => runQuery(args, cwd));
+  if (found) {
+    return { sha: found, reachedRoot: false };
+  }
+  const root = runQuery(["rev-list", "--first-parent", "--max-parents=0", sha], cwd);
+  return { sha: root ?? sha, reachedRoot: true };
+}
+
+/**
+ * Contents of `path` at commit `ref` (`git show <ref>:<path>`), with `path`
+ * relative to `cwd`. Null when the commit doesn't have the file.
+ */
+export function readFileAtCommit(ref: string, path: string, cwd: string = process.cwd()): string | null {
+  try {
+    return execFileSync("git", ["show", `${ref}:./${path}`], {
+      cwd,
+      stdio: ["ignore", "pipe", "ignore"],
+      encoding: "utf8",
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The nearest tag matching `pattern` reachable from `sha`, with its commit,
+ * deepening a shallow clone as needed. Null when no such tag exists.
+ */
+export function getNearestTagCommit(
+  pattern: string,
+  sha: string,
+  cwd: string = process.cwd(),
+): { tag: string; sha: string } | null {
+  const tag = queryDeepening(cwd, () => getNearestTag(pattern, sha, cwd));
+  const tagSha = tag ? runQuery(["rev-parse", "--verify", `refs/tags/${tag}^{commit}`], cwd) : null;
+  return tag && tagSha ? { tag, sha: tagSha } : null;
+}
+
 /**
  * Returns `sha`'s parent SHAs in order. Empty array if the commit has no
  * reachable parents — root commit, unknown SHA, or shallow clone where the
@@ -153,6 +320,130 @@ export function getCommitParents(sha: string, cwd: string = process.cwd()): stri
   }
 }
 
+/** Absolute path of the top-level directory of the working tree containing `cwd`. */
+export function getRepositoryRoot(cwd: string = process.cwd()): string {
+  return execFileSync("git", ["rev-parse", "--show-toplevel"], {
+    cwd,
+    stdio: ["ignore", "pipe", "ignore"],
+    encoding: "utf8",
+  }).trim();
+}
+
+/**
+ * Tracked files matching glob patterns relative to the repository root, minus
+ * those matching `excludePatterns`. Returned paths are relative to the root.
+ */
+export function listTrackedFiles(
+  patterns: string[],
+  excludePatterns: string[] = [],
+  cwd: string = process.cwd(),
+): string[] {
+  if (patterns.length === 0) {
+    return [];
+  }
+  const pathspecs = [
+    ...patterns.map((p) => `:(top,glob)${normalizePathspec(p)}`),
+    ...excludePatterns.map((p) => `:(top,glob,exclude)${normalizePathspec(p)}`),
+  ];
+  const out = execFileSync("git", ["ls-files", "-z", "--full-name", "--", ...pathspecs], {
+    cwd,
+    stdio: ["ignore", "pipe", "ignore"],
+    encoding: "utf8",
+  });
+  return out.split("\0").filter(Boolean);
+}
+
+/** The note attached to `sha` under the notes ref `notesRef`, or null when there is none. */
+export function readGitNote(sha: string, notesRef: string, cwd: string = process.cwd()): string | null {
+  try {
+    return execFileSync("git", ["notes", `--ref=${notesRef}`, "show", sha], {
+      cwd,
+      stdio: ["ignore", "pipe", "ignore"],
+      encoding: "utf8",
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attaches `message` to `sha` under `notesRef`, replacing any note already
+ * there. Notes are commits, so when git has no identity configured (common on
+ * CI runners) they're committed as `linear-release`.
+ */
+export function writeGitNote(sha: string, message: string, notesRef: string, cwd: string = process.cwd()): void {
+  let identity: string[] = [];
+  try {
+    execFileSync("git", ["var", "GIT_COMMITTER_IDENT"], { cwd, stdio: "ignore" });
+  } catch {
+    identity = ["-c", "user.name=linear-release", "-c", "user.email=linear-release@localhost"];
+  }
+  execFileSync("git", [...identity, "notes", `--ref=${notesRef}`, "add", "--force", "--file=-", sha], {
+    cwd,
+    input: message,
+    stdio: ["pipe", "pipe", "pipe"],
+    encoding: "utf8",
+  });
+}
+
+/** Whether `name` is a valid tag name (`git check-ref-format`). */
+export function isValidTagName(name: string, cwd: string = process.cwd()): boolean {
+  try {
+    execFileSync("git", ["check-ref-format", `refs/tags/${name}`], { cwd, stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates the lightweight tag `name` on `sha`. Never moves an existing tag:
+ * returns `exists` when it already points at `sha`, and throws when it points
+ * elsewhere.
+ */
+export function createLightweightTag(sha: string, name: string, cwd: string = process.cwd()): "created" | "exists" {
+  let existing: string | null = null;
+  try {
+    existing = execFileSync("git", ["rev-parse", "--verify", "--quiet", `refs/tags/${name}^{commit}`], {
+      cwd,
+      stdio: ["ignore", "pipe", "ignore"],
+      encoding: "utf8",
+    }).trim();
+  } catch {
+    // No such tag.
+  }
+  if (existing === sha) {
+    return "exists";
+  }
+  if (existing) {
+    throw new Error(`tag ${name} already exists on ${existing.slice(0, 7)}`);
+  }
+  execFileSync("git", ["tag", name, sha], { cwd, stdio: ["ignore", "pipe", "pipe"] });
+  return "created";
+}
+
+/**
+ * Fetches `ref` from `remote` into the same local ref, so notes written next
+ * build on the remote's. False when the remote doesn't have it (or can't be
+ * reached).
+ */
+export function fetchRef(ref: string, remote: string = "origin", cwd: string = process.cwd()): boolean {
+  try {
+    execFileSync("git", ["fetch", "--quiet", remote, `+${ref}:${ref}`], { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Pushes each ref to the same name on `remote`. Throws with git's message when the push is rejected. */
+export function pushRefs(refs: string[], remote: string = "origin", cwd: string = process.cwd()): void {
+  execFileSync("git", ["push", "--quiet", remote, ...refs.map((ref) => `${ref}:${ref}`)], {
+    cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+}
+
 export function commitExists(sha: string, cwd: string = process.cwd()): boolean {
   try {
     execSync(`git cat-file -e ${sha}^{commit}`, {
@@ -263,6 +554,22 @@ export function verifyAncestorReachable(sha: string, headSha: string, cwd: strin
 
 const SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
 
+/**
+ * Resolves a git ref, tag, or SHA to a full commit SHA using local history
+ * only. Unlike `resolveCommitRef`, never fetches or deepens.
+ */
+export function resolveLocalCommitRef(ref: string, cwd: string = process.cwd()): string {
+  try {
+    return execFileSync("git", ["rev-parse", "--verify", `${ref}^{commit}`], {
+      cwd,
+      stdio: ["ignore", "pipe", "ignore"],
+      encoding: "utf8",
+    }).trim();
+  } catch {
+    throw new Error(`Could not resolve "${ref}" to a commit in local history. Fetch it first or use another ref.`);
+  }
+}
+
 /**
  * Resolves a git ref, tag, or SHA to a full commit SHA.
  *
@@ -328,7 +635,7 @@ export function extractBranchNameFromMergeMessage(message: string | null | undef
 }
 
 /**
- * Parses a commit chunk (from git log --format=%H%x1f%B%x1f%D) into a CommitContext.
+ * Parses a commit chunk (from git log --format=%H%x1f%B%x1f%D%x1f%P%x1f%an%x1f%ae) into a CommitContext.
  * Prefers branch name from merge message over decorations for issue tracking.
  *
  * A ref decoration is only read on a regular commit. A merge commit is an
@@ -339,7 +646,7 @@ export function extractBranchNameFromMergeMessage(message: string | null | undef
  * the GitLab fast-forward / direct-push case where the key lives only in the ref.
  */
 function parseCommitChunk(chunk: string): CommitContext {
-  const [sha, rawMessage, rawDecorations, rawParents] = chunk.split("\x1f");
+  const [sha, rawMessage, rawDecorations, rawParents, authorName, authorEmail] = chunk.split("\x1f");
   // Collapse runs of horizontal whitespace, but keep newlines so downstream
   // extractors can tell the title from the body and skip nested commit blocks.
   const message = (rawMessage ?? "").trim().replace(/[ \t]+/g, " ");
@@ -353,7 +660,9 @@ function parseCommitChunk(chunk: string): CommitContext {
   const isMerge = parents.length >= 2;
   const branchName = extractBranchNameFromMergeMessage(message) ?? (isMerge ? null : extractBranchName(rawDecorations));
 
-  return { sha: sha.trim(), branchName, message, parents };
+  const author = authorName !== undefined ? { name: authorName.trim(), email: (authorEmail ?? "").trim() } : null;
+
+  return { sha: sha.trim(), branchName, message, parents, author };
 }
 
 /**
@@ -402,7 +711,7 @@ export function ensureCommitAvailable(sha: string, cwd: string = process.cwd()):
 const RUN_LOG_MAX_BUFFER = 256 * 1024 * 1024;
 
 function runLog(rangeArgs: string, cwd: string): CommitContext[] {
-  const output = execSync(`git log --format=%H%x1f%B%x1f%D%x1f%P%x1e ${rangeArgs}`, {
+  const output = execSync(`git log --format=%H%x1f%B%x1f%D%x1f%P%x1f%an%x1f%ae%x1e ${rangeArgs}`, {
     cwd,
     stdio: ["ignore", "pipe", "pipe"],
     encoding: "utf8",
@@ -415,8 +724,53 @@ function runLog(rangeArgs: string, cwd: string): CommitContext[] {
 }
 
 /**
- * Whether merge `commit` delivered net changes to the filtered paths, compared to
- * its first parent (the branch it was merged into). Non-merges pass through.
+ * Commit contexts already read from `git log`, keyed by SHA. Share one across
+ * several `getCommitContextsBetweenShas` calls (e.g. one per profile) so each
+ * commit's message and decorations are read from git only once.
+ */
+export type CommitContextCache = Map<string, CommitContext>;
+
+/**
+ * `runLog` backed by a cache: lists the range's SHAs (cheap — no bodies), then
+ * reads full contexts only for SHAs not seen before, fed to `git log --stdin`
+ * so a wide range can't overflow the argument list.
+ */
+function runLogCached(rangeArgs: string, cwd: string, cache: CommitContextCache): CommitContext[] {
+  const shas = execSync(`git log --format=%H ${rangeArgs}`, {
+    cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+    encoding: "utf8",
+    maxBuffer: RUN_LOG_MAX_BUFFER,
+  })
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const missing = shas.filter((sha) => !cache.has(sha));
+  if (missing.length > 0) {
+    const output = execSync("git log --no-walk=unsorted --stdin --format=%H%x1f%B%x1f%D%x1f%P%x1f%an%x1f%ae%x1e", {
+      cwd,
+      input: missing.join("\n"),
+      stdio: ["pipe", "pipe", "pipe"],
+      encoding: "utf8",
+      maxBuffer: RUN_LOG_MAX_BUFFER,
+    });
+    for (const commit of output
+      .split("\x1e")
+      .filter((chunk) => chunk.trim().length > 0)
+      .map(parseCommitChunk)) {
+      cache.set(commit.sha, commit);
+    }
+  }
+  verbose(`Read ${missing.length} of ${shas.length} commits from git; ${shas.length - missing.length} cached`);
+
+  return shas.map((sha) => cache.get(sha)).filter((commit): commit is CommitContext => commit !== undefined);
+}
+
+/**
+ * Whether merge `commit` delivered net changes to the filtered paths (include
+ * patterns less exclude patterns, as one pathspec), compared to its first parent
+ * (the branch it was merged into). Non-merges pass through.
  *
  * Without this, `--full-history` retains a stale branch's merge for paths it never
  * touched — they differ across the merge only because the target branch advanced
@@ -454,7 +808,7 @@ function mergeDeliversToPaths(commit: CommitContext, pathspec: string, cwd: stri
 /**
  * Returns commits between two SHAs, optionally filtered by file paths.
  *
- * `--full-history` (only when `includePaths` is set): a non-evil merge's
+ * `--full-history` (only when a path filter is set): a non-evil merge's
  * tree equals one of its parents' trees, so under a pathspec it's TREESAME
  * and git's default simplification drops it. That's true of every provider's
  * merge commit (GitHub, GitLab MR, Bitbucket PR, plain `git merge --no-ff`)
@@ -472,15 +826,40 @@ function mergeDeliversToPaths(commit: CommitContext, pathspec: string, cwd: stri
  * @param fromSha - Starting commit SHA (exclusive)
  * @param toSha - Ending commit SHA (inclusive)
  * @param options.includePaths - Glob patterns to filter commits by file paths (relative to repo root)
+ * @param options.excludePaths - Glob patterns for files that don't count toward `includePaths`; a commit touching
+ *   only excluded files is dropped
  * @param options.inspectSingleCommit - When SHAs match, inspect that one commit instead of treating it as an empty range
+ * @param options.includeFrom - Also return `fromSha` itself, e.g. a root commit that a first sync must cover
  * @param options.cwd - Working directory for git commands (defaults to process.cwd())
+ * @param options.cache - Shared commit cache; commits already in it are not re-read from git
+ * @param options.onDroppedMerge - Called for each merge the path filter kept but `mergeDeliversToPaths` dropped
+ * @param options.recurseSubmodules - Also return the commits of submodules whose pointer moved in the range; see
+ *   `getSubmoduleCommitContexts`
  */
 export function getCommitContextsBetweenShas(
   fromSha: string,
   toSha: string,
-  options: { includePaths?: string[] | null; inspectSingleCommit?: boolean; cwd?: string } = {},
+  options: {
+    includePaths?: string[] | null;
+    excludePaths?: string[] | null;
+    inspectSingleCommit?: boolean;
+    includeFrom?: boolean;
+    cwd?: string;
+    cache?: CommitContextCache;
+    onDroppedMerge?: (commit: CommitContext) => void;
+    recurseSubmodules?: boolean;
+  } = {},
 ): CommitContext[] {
-  const { includePaths = null, inspectSingleCommit = true, cwd = process.cwd() } = options;
+  const {
+    includePaths = null,
+    excludePaths = null,
+    inspectSingleCommit = true,
+    includeFrom = false,
+    cwd = process.cwd(),
+    cache,
+    onDroppedMerge,
+    recurseSubmodules = false,
+  } = options;
 
   if (!SHA_PATTERN.test(fromSha)) {
     warn(`Invalid "from" SHA format "${fromSha}"`);
@@ -492,31 +871,139 @@ export function getCommitContextsBetweenShas(
   }
 
   const inspectingSingleCommit = fromSha === toSha && inspectSingleCommit;
-  const pathspec = buildPathspecArgs(includePaths);
-  const args = [
-    includePaths?.length ? "--full-history" : "",
-    inspectingSingleCommit ? `--no-walk ${toSha}` : `${fromSha}..${toSha}`,
-    pathspec,
-  ]
+  const pathspec = buildPathspecArgs(includePaths, excludePaths);
+  // Excluding `fromSha`'s parents rather than `fromSha` keeps it in the range;
+  // a root commit has none, so everything reachable from `toSha` is scanned.
+  const fromParents = includeFrom && !inspectingSingleCommit ? getCommitParents(fromSha, cwd) : [];
+  const range = includeFrom
+    ? [toSha, ...(fromParents.length > 0 ? ["--not", ...fromParents] : [])].join(" ")
+    : `${fromSha}..${toSha}`;
+  const args = [pathspec ? "--full-history" : "", inspectingSingleCommit ? `--no-walk ${toSha}` : range, pathspec]
     .filter(Boolean)
     .join(" ");
-  const logged = runLog(args, cwd);
-  const commits = pathspec ? logged.filter((commit) => mergeDeliversToPaths(commit, pathspec, cwd)) : logged;
+  const logged = cache ? runLogCached(args, cwd, cache) : runLog(args, cwd);
+  const commits = pathspec
+    ? logged.filter((commit) => {
+        const delivers = mergeDeliversToPaths(commit, pathspec, cwd);
+        if (!delivers) onDroppedMerge?.(commit);
+        return delivers;
+      })
+    : logged;
+  if (recurseSubmodules) {
+    const fromTree = inspectingSingleCommit ? (commits[0]?.parents?.[0] ?? null) : fromSha;
+    if (fromTree) {
+      commits.push(...getSubmoduleCommitContexts(fromTree, toSha, { pathspec, cwd, cache }));
+    }
+  }
 
   if (commits.length === 0) {
+    const pathFilter = describePathFilter(includePaths, excludePaths);
     if (inspectingSingleCommit) {
-      const pathFilter = includePaths?.length ? ` include paths: ${includePaths.join(", ")}` : "";
-      verbose(`Commit ${toSha.slice(0, 7)} did not match${pathFilter}`);
+      verbose(`Commit ${toSha.slice(0, 7)} did not match${pathFilter ? ` ${pathFilter}` : ""}`);
     } else {
-      const pathFilter = includePaths?.length ? ` matching include paths: ${includePaths.join(", ")}` : "";
-      verbose(`No commits found between ${fromSha.slice(0, 7)}..${toSha.slice(0, 7)}${pathFilter}`);
+      verbose(
+        `No commits found between ${fromSha.slice(0, 7)}..${toSha.slice(0, 7)}${pathFilter ? ` matching ${pathFilter}` : ""}`,
+      );
     }
   }
 
   return commits;
 }
 
-function hostToProvider(host: string): string | null {
+/**
+ * Commits inside the submodules whose gitlink moved between `fromSha` and
+ * `toSha`, each tagged with its submodule's path (nested submodules as
+ * `outer/inner`). A bump from A to B contributes the submodule's `A..B`, so
+ * the issue keys behind a pointer update reach the release. The commits come
+ * after the superproject's in this newest-first list, i.e. they count as older
+ * than every superproject commit in the range.
+ *
+ * A submodule that was added or removed has no range and is skipped, as is
+ * one that isn't checked out or lacks either pointer SHA even after fetching.
+ * Only gitlinks under `pathspec` count; include paths aren't applied inside
+ * the submodule, whose paths are relative to its own root.
+ */
+function getSubmoduleCommitContexts(
+  fromSha: string,
+  toSha: string,
+  options: { pathspec: string; cwd: string; cache?: CommitContextCache },
+): CommitContext[] {
+  const { pathspec, cwd, cache } = options;
+  let output: string;
+  try {
+    output = execSync(`git diff --raw -z --no-abbrev --no-renames ${fromSha} ${toSha} ${pathspec}`, {
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+      encoding: "utf8",
+      maxBuffer: RUN_LOG_MAX_BUFFER,
+    });
+  } catch (e) {
+    warn(
+      `Could not list submodule changes between ${fromSha.slice(0, 7)} and ${toSha.slice(0, 7)}. ${
+        e instanceof Error ? e.message : String(e)
+      }`,
+    );
+    return [];
+  }
+
+  const commits: CommitContext[] = [];
+  // -z output: ":<old mode> <new mode> <old sha> <new sha> <status>\0<path>\0" per changed file.
+  const fields = output.split("\0");
+  for (let index = 0; index + 1 < fields.length; index += 2) {
+    const [oldMode, newMode, oldSha, newSha] = fields[index]!.replace(/^:/, "").split(" ");
+    const path = fields[index + 1]!;
+    if (oldMode !== "160000" || newMode !== "160000" || !oldSha || !newSha) {
+      continue;
+    }
+
+    const submoduleCwd = join(cwd, path);
+    if (!existsSync(join(submoduleCwd, ".git"))) {
+      warn(`Submodule ${path} is not checked out; skipping its commits. Run \`git submodule update --init\` first.`);
+      continue;
+    }
+    try {
+      ensureCommitAvailable(oldSha, submoduleCwd);
+      ensureCommitAvailable(newSha, submoduleCwd);
+    } catch (e) {
+      warn(`Skipping submodule ${path}: ${e instanceof Error ? e.message : String(e)}`);
+      continue;
+    }
+
+    const inner = getCommitContextsBetweenShas(oldSha, newSha, {
+      inspectSingleCommit: false,
+      cwd: submoduleCwd,
+      cache,
+      recurseSubmodules: true,
+    });
+    verbose(
+      `Submodule ${path} moved ${oldSha.slice(0, 7)}..${newSha.slice(0, 7)}; found ${inner.length} ${pluralize(inner.length, "commit")}`,
+    );
+    commits.push(
+      ...inner.map((commit) => ({ ...commit, submodule: commit.submodule ? `${path}/${commit.submodule}` : path })),
+    );
+  }
+  return commits;
+}
+
+export const REPO_PROVIDERS = ["github", "gitlab", "bitbucket", "azure", "gerrit"] as const;
+
+/** A Git host `RepoInfo.provider` can name; see `--repo-provider`. */
+export type RepoProvider = (typeof REPO_PROVIDERS)[number];
+
+export function isRepoProvider(value: string): value is RepoProvider {
+  return (REPO_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * @param hostProviders - Configured `repoHosts`, keyed by lower-cased host name. Checked before the
+ *   built-in guesses so self-hosted instances with neutral names are recognized.
+ */
+function hostToProvider(hostWithPort: string, hostProviders: Record<string, RepoProvider>): string | null {
+  const host = hostWithPort.replace(/:\d+$/, "").toLowerCase();
+  const mapped = Object.entries(hostProviders).find(([candidate]) => candidate === host);
+  if (mapped) {
+    return mapped[1];
+  }
   if (host === "gitlab.com" || host.includes("gitlab")) {
     return "gitlab";
   }
@@ -526,16 +1013,23 @@ function hostToProvider(host: string): string | null {
   if (host === "bitbucket.org" || host.includes("bitbucket")) {
     return "bitbucket";
   }
+  if (host === "dev.azure.com" || host === "ssh.dev.azure.com" || host.endsWith(".visualstudio.com")) {
+    return "azure";
+  }
+  if (host.includes("gerrit") || host.endsWith(".googlesource.com")) {
+    return "gerrit";
+  }
   return null;
 }
 
 /**
- * Parses a git remote URL (HTTPS or SSH) into repo information.
+ * Parses a git remote URL (HTTPS, scp-style SSH, or `ssh://`) into repo information.
  *
  * @param remoteUrl The raw git remote URL string.
+ * @param hostProviders Host-to-provider mapping from the config's `repoHosts`.
  * @returns Parsed repo info, or null if the URL could not be parsed.
  */
-export function parseRepoUrl(remoteUrl: string): RepoInfo | null {
+export function parseRepoUrl(remoteUrl: string, hostProviders: Record<string, RepoProvider> = {}): RepoInfo | null {
   // GitLab nested groups: split on the first slash so subgroup paths fold
   // into the name segment (e.g. owner=group, name=subgroup/repo).
   const httpsMatch = remoteUrl.match(/^https?:\/\/(?:[^@]+@)?([^/]+)\/([^/]+)\/(.+?)(?:\.git)?$/);
@@ -546,7 +1040,34 @@ export function parseRepoUrl(remoteUrl: string): RepoInfo | null {
     return {
       owner,
       name,
-      provider: hostToProvider(host),
+      provider: hostToProvider(host, hostProviders),
+      url: owner && name ? `https://${host}/${owner}/${name}` : null,
+    };
+  }
+
+  // Azure DevOps SSH URLs (git@ssh.dev.azure.com:v3/org/project/repo) drop the
+  // `_git` segment of the web URL; rebuild it so both forms parse alike.
+  const azureSshMatch = remoteUrl.match(/^git@ssh\.dev\.azure\.com:v3\/([^/]+)\/([^/]+)\/(.+?)(?:\.git)?$/);
+  if (azureSshMatch) {
+    const [, org, project, repo] = azureSshMatch;
+    return {
+      owner: org!,
+      name: `${project}/_git/${repo}`,
+      provider: "azure",
+      url: `https://dev.azure.com/${org}/${project}/_git/${repo}`,
+    };
+  }
+
+  // ssh://[user@]host[:port]/owner/repo.git. The port is SSH's, so it's dropped from the web URL.
+  const sshUrlMatch = remoteUrl.match(/^(?:git\+)?ssh:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/([^/]+)\/(.+?)(?:\.git)?\/?$/);
+  if (sshUrlMatch) {
+    const host = sshUrlMatch[1]!;
+    const owner = sshUrlMatch[2] || null;
+    const name = sshUrlMatch[3] || null;
+    return {
+      owner,
+      name,
+      provider: hostToProvider(host, hostProviders),
       url: owner && name ? `https://${host}/${owner}/${name}` : null,
     };
   }
@@ -561,7 +1082,7 @@ export function parseRepoUrl(remoteUrl: string): RepoInfo | null {
     return {
       owner,
       name,
-      provider: hostToProvider(host),
+      provider: hostToProvider(host, hostProviders),
       url: owner && name ? `https://${host}/${owner}/${name}` : null,
     };
   }
@@ -569,7 +1090,16 @@ export function parseRepoUrl(remoteUrl: string): RepoInfo | null {
   return null;
 }
 
-export function getRepoInfo(remote: string = "origin", cwd: string = process.cwd()): RepoInfo | null {
+/**
+ * @param options.quiet - Log a missing or unreadable remote verbosely instead of as an error, for commands that
+ *   only use the provider as a hint
+ * @param options.hostProviders - Host-to-provider mapping; see `parseRepoUrl`
+ */
+export function getRepoInfo(
+  remote: string = "origin",
+  cwd: string = process.cwd(),
+  options: { quiet?: boolean; hostProviders?: Record<string, RepoProvider> } = {},
+): RepoInfo | null {
   try {
     const url = execSync(`git remote get-url ${remote}`, {
       cwd,
@@ -577,9 +1107,11 @@ export function getRepoInfo(remote: string = "origin", cwd: string = process.cwd
       encoding: "utf8",
     }).trim();
 
-    return parseRepoUrl(url);
+    return parseRepoUrl(url, options.hostProviders);
   } catch (error) {
-    logError(`Failed to read repo info: ${error instanceof Error ? error.message : String(error)}`);
+    (options.quiet ? verbose : logError)(
+      `Failed to read repo info: ${error instanceof Error ? error.message : String(error)}`,
+    );
     return null;
   }
 }
@@ -1,23 +1,38 @@
-import { readFileSync } from "node:fs";
+import { readFileSync, writeFileSync } from "node:fs";
 import { LinearClient, LinearClientOptions } from "@linear/sdk";
 import {
   assertGitAvailable,
   ensureCommitAvailable,
+  CommitContextCache,
   getCommitContextsBetweenShas,
+  describePathFilter,
   getCurrentGitInfo,
   getRepoInfo,
+  listTags,
+  parseRepoUrl,
   resolveCommitRef,
+  resolveLocalCommitRef,
   verifyAncestorReachable,
 } from "./git";
-import { assertBaseRefIsAncestor, ScanBase, selectAutomaticScanBase, shouldCreateReleaseForScan } from "./scan-base";
-import { scanCommits } from "./scan";
+import {
+  assertBaseRefIsAncestor,
+  formatFirstSyncStrategy,
+  ScanBase,
+  selectAutomaticScanBase,
+  selectStateScanBase,
+  shouldCreateReleaseForScan,
+} from "./scan-base";
+import { mergeScanResults, scanCommits, ScanResult } from "./scan";
 import {
   Release,
+  AccessKeyPipelineExcludePathsResponse,
   AccessKeyPipelineSettingsResponse,
+  AccessKeyTeamKeysResponse,
   AccessKeyRecentReleasesResponse,
   AccessKeySyncReleaseResponse,
   AccessKeyCompleteReleaseResponse,
   AccessKeyUpdateByPipelineResponse,
+  CommitContext,
   DebugSink,
   IssueReference,
   RepoInfo,
@@ -29,11 +44,38 @@ import {
   ReleaseDocumentSpec,
   ReleaseLink,
   ReleaseNoteSpec,
+  SelectedProfile,
+  SettingSource,
 } from "./args";
 import { error, info, setJsonMode, setLogLevel, setStderr, verbose, warn } from "./log";
 import { pluralize } from "./util";
 import { buildUserAgent } from "./user-agent";
 import { withRetry } from "./retry";
+import { createReleaseTemplateResolvers } from "./template";
+import { explain, formatExplanation } from "./explain";
+import { buildPreview, formatPreviewTable } from "./preview";
+import { BackfillEntry, fetchBackfillReleases, formatBackfillSummary, planBackfill } from "./backfill";
+import {
+  BackfillResult,
+  CommandPayload,
+  CommandResult,
+  createCommandResult,
+  ProfileResult,
+  ReleaseSummary,
+  ScanSummary,
+} from "./result";
+import { generateReleaseNotes } from "./release-notes";
+import { resolveReleaseIdentity } from "./release-identity";
+import { createTeamKeyFilter, loadTeamKeyFilter, TeamKeyFilter } from "./team-keys";
+import { resolveWorkspaceIncludePaths } from "./workspace";
+import { MarkedRelease, writeReleaseMarkers } from "./release-markers";
+import {
+  getPipelineStateKey,
+  getStateRepositoryKey,
+  PipelineState,
+  readPipelineState,
+  writePipelineState,
+} from "./state";
 import { getCliVersion } from "./version";
 
 if (process.argv.includes("--version") || process.argv.includes("-v")) {
@@ -52,20 +94,56 @@ Commands:
   sync      Create or update a release by scanning commits (default)
   complete  Mark the current release as complete
   update    Update the deployment stage of a release
+  preview   Print what sync would attach for a range, offline and without an access key (alias: plan)
+  explain   Explain why an issue or commit was (or wasn't) attributed: explain <ISSUE-ID|sha>
+  backfill  Replay past tags as completed releases, oldest first: backfill --tags=<glob>
 
 Options:
-  --name=<name>              Custom release name
-  --release-version=<version>  Release version identifier
+  --name=<name>              Custom release name (supports {{placeholders}}, see below)
+  --release-version=<version>  Release version identifier (supports {{placeholders}})
+  --version-from=<source>    Derive the release version: tag, package.json, Cargo.toml, pyproject, VERSION
+  --version-tag-pattern=<glob> Only consider tags matching this glob with --version-from=tag (e.g. "web-v*")
+  --version-file=<path>      Manifest to read with --version-from (defaults to the source's standard file name)
   --stage=<stage>            Deployment stage (required for update)
   --include-paths=<paths>    Filter commits by file paths (comma-separated globs)
+  --exclude-paths=<paths>    Ignore changes to these paths when filtering commits (comma-separated globs)
+  --workspace=<package>      Include the directories of a pnpm/npm workspace package and its internal dependencies (repeatable)
   --include-subjects=<regex> Filter commits whose subject (first line) matches the regex
+  --exclude-subjects=<regex> Drop commits whose subject matches the regex
+  --include-authors=<list>   Only scan commits whose author name or email matches (comma-separated, * wildcards)
+  --exclude-authors=<list>   Drop commits whose author name or email matches (e.g. "*[bot]")
+  --extraction-rule=<name>:<target>:<regex> Custom issue pattern with (?<team>) and (?<number>) groups;
+                             target is subject, body, branch, or trailer=<Key> (repeatable)
+  --team-keys=<keys>         Only attribute identifiers from these teams (comma-separated; !KEY excludes a key,
+                             auto fetches the workspace's team keys)
+  --issue-trailers=<keys>    Trailer keys that reference issues (comma-separated; replaces the defaults, empty disables)
+  --pr-trailers=<keys>       Trailer keys that reference pull requests (comma-separated)
+  --exclude-trailers=<keys>  Trailer keys whose issues are kept out of the release (comma-separated; default Not-Released)
+  --recurse-submodules       Also scan the commits behind submodule pointer changes in the range
+  --repo-url=<url>           Read repository info from this remote URL instead of origin
+  --repo-provider=<provider> Git host of the repository: github, gitlab, bitbucket, azure, or gerrit
+  --repo-path=<dir>          Sync this checkout instead of the working directory; repeat to combine repositories
+                             into one release (the first one's HEAD is the release commit; sync only)
   --link <URL|Label=URL>       Add a link to the targeted release (repeatable)
   --document <Title=content> Attach a document to the release (repeatable, Title required)
   --document-file <[Title=]path> Attach a document from a file (title inferred from basename if omitted; "-" for stdin requires Title=-; repeatable)
   --release-notes <content>  Set the release notes covering this release (last-wins)
   --release-notes-file <path> Set release notes from a file ("-" for stdin; last-wins)
-  --base-ref=<ref>           Override sync scan base (exclusive; scans <ref>..HEAD)
-  --timeout=<seconds>        Abort if the operation exceeds this duration (default: 60)
+  --generate-release-notes   Generate release notes from the scanned commits, grouped by conventional-commit type (sync only)
+  --release-notes-output=<path> Also write the generated release notes to this file
+  --write-git-notes          Attach the release to the released commit as a git note under refs/notes/linear-release (sync, complete)
+  --tag-release=<template>   Tag the released commit, e.g. "linear/{{release.version}}" (sync, complete)
+  --push-release-markers     Push the git note and tag to origin
+  --base-ref=<ref>           Override sync scan base (exclusive; scans <ref>..HEAD). For preview, the range start
+  --max-release-lookback=<n> Recent releases to check, paging back, for one reachable from HEAD (default: 100)
+  --first-sync=<strategy>    How far back to scan without a previous release: head (default), merge-base:<branch>, since:<date>, tag:<glob>, commits:<n>
+  --state-file=<path>        Record each sync's commits here; the scan base falls back to them when recent releases can't be fetched
+  --tags=<glob>              Tags to replay as releases (backfill only, e.g. "v*")
+  --to=<ref>                 Release this commit instead of HEAD: the scan range end and the release's commit (sync, complete, preview, explain)
+  --config=<path>            Load project config from this file instead of discovering .linear-release.{json,yaml,yml}
+  --profile=<name>           Sync the named config profile (repeatable; each uses its own access key)
+  --all-profiles             Sync every profile defined in the config file
+  --timeout=<seconds>        Abort if the operation exceeds this duration (default: 60; per tag for backfill)
   --json                     Output result as JSON (logs emitted as JSON Lines on stderr)
   --dry-run                  Scan and call read-only Linear APIs, but skip create/update mutations
   --quiet                    Suppress info-level output (warnings and errors still printed)
@@ -73,33 +151,48 @@ Options:
   -v, --version              Show version number
   -h, --help                 Show this help message
 
+Placeholders for --name and --release-version:
+  {{sha}} {{shortSha}} {{branch}} {{tag}} {{describe}} {{date}} {{date:YYYY.MM.DD}}
+  {{ci.buildNumber}} {{ci.branch}} {{ci.buildUrl}} {{package.version}} {{profile}}
+  --tag-release also takes {{release.name}} {{release.version}} {{release.id}}
+
 Environment:
-  LINEAR_ACCESS_KEY          Pipeline access key (required)
+  LINEAR_ACCESS_KEY          Pipeline access key (required unless using profiles; not used by preview or explain --base-ref)
 
 Examples:
   linear-release sync
   linear-release sync --name="Release 1.2.0" --release-version="1.2.0"
+  linear-release sync --name="{{tag}} ({{shortSha}})" --release-version="{{date:YYYY.MM.DD}}.{{ci.buildNumber}}"
+  linear-release sync --version-from=tag --version-tag-pattern="web-v*"
+  linear-release sync --version-from=package.json --version-file=apps/web/package.json
   linear-release complete
   linear-release update --stage=production
   linear-release sync --include-paths="apps/web/**,packages/**"
+  linear-release sync --include-paths="apps/web/**" --exclude-paths="apps/web/e2e/**,**/pnpm-lock.yaml"
+  linear-release sync --workspace=@acme/web
   linear-release sync --include-subjects="[A-Z]{2,}-[0-9]+"
+  linear-release sync --exclude-subjects="^(chore|docs)" --exclude-authors="renovate[bot],dependabot[bot]"
+  linear-release sync --team-keys=auto,!UTF
+  linear-release sync --extraction-rule="snake-branch:branch:^(?<team>[a-z]+)_(?<number>[0-9]+)_"
   linear-release sync --link "https://ci.example.com/run/123"
   linear-release sync --link "Pipeline=https://ci.example.com/run/123"
   linear-release sync --document-file "Changelog=./CHANGELOG.md"
   linear-release sync --document-file ./CHANGELOG.md
   linear-release sync --release-notes-file ./release-notes.md
+  linear-release sync --generate-release-notes --release-notes-output=./RELEASE_NOTES.md
   linear-release sync --base-ref=<last-released-ref> --include-paths="apps/web/**"
+  linear-release sync --base-ref=v1.2.0 --to=v1.3.0
+  linear-release sync --all-profiles
+  linear-release sync --repo-path=./web --repo-path=./api
+  linear-release preview origin/main..HEAD
+  linear-release preview --base-ref=v1.2.0 --include-paths="apps/web/**" --json
+  linear-release explain ENG-1234
+  linear-release explain a1b2c3d --base-ref=v1.2.0
+  linear-release backfill --tags="v*" --dry-run
 `);
   process.exit(0);
 }
 
-const accessKey: string = process.env.LINEAR_ACCESS_KEY || "";
-
-if (!accessKey) {
-  error("LINEAR_ACCESS_KEY environment variable must be set");
-  process.exit(1);
-}
-
 let parsedArgs: ReturnType<typeof parseCLIArgs>;
 try {
   parsedArgs = parseCLIArgs(process.argv.slice(2));
@@ -112,18 +205,65 @@ const {
   command,
   releaseName,
   releaseVersion,
+  versionFrom,
+  versionTagPattern,
+  versionFile,
   stageName,
   baseRef,
+  headRef,
+  targetRef,
+  explainTarget,
+  backfillTags,
   includePaths,
+  excludePaths,
+  workspaces,
   includeSubjects,
+  excludeSubjects,
+  includeAuthors,
+  excludeAuthors,
+  extractionRules,
+  teamKeys,
+  trailerKeys,
+  recurseSubmodules,
+  maxReleaseLookback,
+  stateFile,
+  firstSync,
+  repoProvider,
+  repoUrl,
+  repoHosts,
+  repoPaths,
   links,
   documents: documentSpecs,
   releaseNotes: releaseNotesSpec,
+  generateReleaseNotes: shouldGenerateReleaseNotes,
+  releaseNotesOutput,
+  writeGitNotes,
+  tagRelease,
+  pushReleaseMarkers,
   jsonOutput,
   dryRun,
   timeoutSeconds,
   logLevel,
+  configPath,
+  settingSources,
+  profiles,
 } = parsedArgs;
+
+// Profiles name their own access key variables; otherwise the key comes from LINEAR_ACCESS_KEY.
+// preview (and explain with --base-ref) read local git history only and never talk to Linear.
+const needsAccessKey = command !== "preview" && !(command === "explain" && baseRef);
+if (needsAccessKey && profiles.length > 0) {
+  const missing = profiles.filter((profile) => !process.env[profile.accessKeyEnv]);
+  if (missing.length > 0) {
+    for (const profile of missing) {
+      error(`${profile.accessKeyEnv} environment variable must be set for profile "${profile.name}"`);
+    }
+    process.exit(1);
+  }
+} else if (needsAccessKey && !process.env.LINEAR_ACCESS_KEY) {
+  error("LINEAR_ACCESS_KEY environment variable must be set");
+  process.exit(1);
+}
 const cliWarnings = getCLIWarnings(parsedArgs);
 
 type ReleaseDocument = { title: string; content: string };
@@ -211,14 +351,65 @@ function formatReleaseNotesSummary(notes: ReleaseNotes | undefined): string {
   return notes ? `, release notes (${notes.content.length} chars)` : "";
 }
 
+function describeSettingSource(source: SettingSource, profile?: string | null): string {
+  switch (source) {
+    case "cli":
+      return "CLI flag";
+    case "profile":
+      return `profile "${profile}" in ${configPath}`;
+    case "config":
+      return `config file ${configPath}`;
+    case "pipeline":
+      return "pipeline settings";
+    case "default":
+      return "default";
+  }
+}
+
 const logEnvironmentSummary = () => {
   info(`linear-release v${getCliVersion()}`);
-  if (releaseName) {
-    info(`Using custom release name: ${releaseName}`);
+  verbose(configPath ? `Using config file: ${configPath}` : "No config file found");
+  verbose(
+    `Setting include-subjects: ${JSON.stringify(includeSubjects)} (from ${describeSettingSource(settingSources.includeSubjects)})`,
+  );
+  if (excludeSubjects) {
+    verbose(
+      `Setting exclude-subjects: ${JSON.stringify(excludeSubjects)} (from ${describeSettingSource(settingSources.excludeSubjects)})`,
+    );
+  }
+  if (includeAuthors.length > 0 || excludeAuthors.length > 0) {
+    verbose(
+      `Setting authors: ${JSON.stringify({ include: includeAuthors, exclude: excludeAuthors })} (from ${describeSettingSource(settingSources.authors)})`,
+    );
+  }
+  verbose(
+    `Setting extraction-rule: ${JSON.stringify(extractionRules.map((rule) => rule.name))} (from ${describeSettingSource(settingSources.extractionRules)})`,
+  );
+  verbose(`Setting team-keys: ${JSON.stringify(teamKeys)} (from ${describeSettingSource(settingSources.teamKeys)})`);
+  verbose(
+    `Setting trailers: ${JSON.stringify(trailerKeys)} (from ${describeSettingSource(settingSources.trailerKeys)})`,
+  );
+  if (recurseSubmodules) {
+    verbose(`Setting recurse-submodules: true (from ${describeSettingSource(settingSources.recurseSubmodules)})`);
   }
-  if (releaseVersion) {
-    info(`Using custom release version: ${releaseVersion}`);
+  verbose(
+    `Setting max-release-lookback: ${maxReleaseLookback} (from ${describeSettingSource(settingSources.maxReleaseLookback)})`,
+  );
+  verbose(
+    `Setting first-sync: ${formatFirstSyncStrategy(firstSync)} (from ${describeSettingSource(settingSources.firstSync)})`,
+  );
+  if (stateFile) {
+    verbose(`Setting state-file: ${stateFile} (from ${describeSettingSource(settingSources.stateFile)})`);
   }
+  if (repoUrl || repoProvider) {
+    verbose(
+      `Setting repository: ${JSON.stringify({ url: repoUrl ?? null, provider: repoProvider ?? null })} (from CLI)`,
+    );
+  }
+  verbose(
+    `Setting link: ${JSON.stringify(links.map((l) => l.url))} (from ${describeSettingSource(settingSources.links)})`,
+  );
+  verbose(`Setting timeout: ${timeoutSeconds}s (from ${describeSettingSource(settingSources.timeoutSeconds)})`);
   for (const warningMessage of cliWarnings) {
     warn(warningMessage);
   }
@@ -228,138 +419,394 @@ const getDevApiUrl = () => {
   return "http://localhost:8090/graphql";
 };
 
-const options: LinearClientOptions = {
-  ...{ apiKey: accessKey },
-  ...(process.env.NODE_ENV === "development"
-    ? {
-        apiUrl: getDevApiUrl(),
-      }
-    : {}),
+type ApiRequest = <T>(query: string, variables?: Record<string, unknown>) => Promise<T>;
+
+function createApiRequest(accessKey: string): ApiRequest {
+  const options: LinearClientOptions = {
+    ...{ apiKey: accessKey },
+    ...(process.env.NODE_ENV === "development"
+      ? {
+          apiUrl: getDevApiUrl(),
+        }
+      : {}),
+  };
+
+  const linearClient = new LinearClient(options);
+  linearClient.client.setHeader("User-Agent", buildUserAgent());
+
+  return <T>(query: string, variables?: Record<string, unknown>) =>
+    withRetry(() => linearClient.client.rawRequest(query, variables)) as Promise<T>;
+}
+
+/** The pipeline a sync runs against: the default LINEAR_ACCESS_KEY pipeline, or one config profile. */
+type SyncTarget = {
+  profile: string | null;
+  api: ApiRequest;
+  /** The pipeline's entry in `--state-file`; see `getPipelineStateKey`. */
+  stateKey: string;
+  includePaths: string[];
+  includePathsSource: SettingSource;
+  releaseName?: string;
+  releaseVersion?: string;
 };
 
-const linearClient = new LinearClient(options);
-linearClient.client.setHeader("User-Agent", buildUserAgent());
+type SyncOutcome = {
+  release: ReleaseSummary | null;
+  scan: ScanSummary;
+};
 
-async function apiRequest<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
-  return withRetry(() => linearClient.client.rawRequest(query, variables)) as Promise<T>;
+/** `resolveReleaseIdentity` with the CLI's settings, logging what it picked. */
+function renderReleaseIdentity(
+  name: string | undefined,
+  version: string | undefined,
+  profile: string | null,
+): { releaseName?: string; releaseVersion?: string } {
+  const { versionOrigin, ...identity } = resolveReleaseIdentity(
+    { name, version },
+    {
+      repoPath: repoPaths[0],
+      commit: targetRef ? (getTargetCommit(repoPaths[0]) ?? undefined) : undefined,
+      profile,
+      versionFrom,
+      versionTagPattern,
+      versionFile,
+    },
+  );
+  if (versionOrigin) {
+    verbose(`Derived release version ${identity.releaseVersion} from ${versionOrigin}`);
+  }
+  if (identity.releaseName) {
+    info(`Using custom release name: ${identity.releaseName}`);
+  }
+  if (identity.releaseVersion) {
+    info(`Using custom release version: ${identity.releaseVersion}`);
+  }
+  return identity;
+}
+
+/**
+ * Adds the directories of the --workspace packages, and of the workspace
+ * packages they depend on, to the include paths. The workspace is read from
+ * the synced repository.
+ */
+function withWorkspacePaths(
+  paths: string[],
+  pathsSource: SettingSource,
+  names: string[],
+  namesSource: SettingSource,
+  profile: string | null = null,
+): Pick<SyncTarget, "includePaths" | "includePathsSource"> {
+  if (names.length === 0) {
+    return { includePaths: paths, includePathsSource: pathsSource };
+  }
+  const workspace = resolveWorkspaceIncludePaths(names, repoPaths[0]);
+  verbose(
+    `Setting workspace: ${JSON.stringify(names)} (from ${describeSettingSource(namesSource, profile)}), including ${workspace.packages.join(", ")}`,
+  );
+  return {
+    includePaths: [...new Set([...paths, ...workspace.paths])],
+    includePathsSource: paths.length > 0 ? pathsSource : namesSource,
+  };
+}
+
+/**
+ * @param scansCommits - False for `complete` and `update`, which never use the
+ *   include paths, so a checkout without the `--workspace` files still works
+ */
+function getDefaultSyncTarget(scansCommits: boolean = true): SyncTarget {
+  return {
+    profile: null,
+    api: createApiRequest(process.env.LINEAR_ACCESS_KEY ?? ""),
+    stateKey: getPipelineStateKey(process.env.LINEAR_ACCESS_KEY ?? ""),
+    ...(scansCommits
+      ? withWorkspacePaths(includePaths, settingSources.includePaths, workspaces, settingSources.workspaces)
+      : { includePaths, includePathsSource: settingSources.includePaths }),
+    ...renderReleaseIdentity(releaseName, releaseVersion, null),
+  };
 }
 
-async function syncCommand(): Promise<{
-  release: { id: string; name: string; version?: string; url?: string };
-} | null> {
+function getProfileSyncTarget(profile: SelectedProfile): SyncTarget {
+  return {
+    profile: profile.name,
+    api: createApiRequest(process.env[profile.accessKeyEnv] ?? ""),
+    stateKey: getPipelineStateKey(process.env[profile.accessKeyEnv] ?? ""),
+    ...withWorkspacePaths(
+      profile.includePaths,
+      profile.includePathsSource,
+      profile.workspaces,
+      profile.workspacesSource,
+      profile.name,
+    ),
+    ...renderReleaseIdentity(profile.releaseName, profile.releaseVersion, profile.name),
+  };
+}
+
+async function syncCommand(): Promise<SyncOutcome> {
   logEnvironmentSummary();
+  return runSync(getDefaultSyncTarget());
+}
 
-  // Fetch pipeline settings from API
-  const pipelineSettings = await getPipelineSettings();
+/**
+ * Syncs each selected profile in turn. Profiles share one commit cache, so a
+ * commit that falls in several pipelines' ranges is read from git once. A
+ * failing profile doesn't stop the others; the command fails at the end.
+ */
+async function syncProfilesCommand(): Promise<ProfileResult[]> {
+  logEnvironmentSummary();
+  const cache: CommitContextCache = new Map();
+  const results: (ProfileResult & { summary: string })[] = [];
 
-  // CLI --include-paths takes precedence over API includePathPatterns
+  for (const profile of profiles) {
+    info(`Syncing profile "${profile.name}"`);
+    try {
+      const outcome = await runSync(getProfileSyncTarget(profile), cache);
+      const { issues, pullRequests } = outcome.scan;
+      const counts = `${issues.length} ${pluralize(issues.length, "issue")}, ${pullRequests.length} ${pluralize(
+        pullRequests.length,
+        "pull request",
+      )}`;
+      const summary = outcome.release
+        ? `synced ${outcome.release.name} (${formatVersion(outcome.release)}): ${counts}`
+        : dryRun
+          ? `dry run: ${counts}`
+          : "skipped (no matching commits)";
+      results.push({ profile: profile.name, release: outcome.release, scan: outcome.scan, summary });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      error(`Profile "${profile.name}" failed: ${message}`);
+      results.push({ profile: profile.name, release: null, scan: null, error: message, summary: `failed: ${message}` });
+    }
+  }
+
+  info(`Summary for ${results.length} ${pluralize(results.length, "profile")}:`);
+  for (const result of results) {
+    info(`  ${result.profile}: ${result.summary}`);
+  }
+
+  const failed = results.filter((result) => result.error !== undefined);
+  if (failed.length > 0) {
+    if (jsonOutput) {
+      printJsonResult({ profiles: results.map(({ summary: _summary, ...result }) => result) });
+    }
+    throw new Error(
+      `${failed.length} of ${results.length} ${pluralize(results.length, "profile")} failed: ${failed
+        .map((result) => result.profile)
+        .join(", ")}`,
+    );
+  }
+  return results.map(({ summary: _summary, ...result }) => result);
+}
+
+/** CLI --include-paths, then the profile and config file, take precedence over the pipeline's includePathPatterns. */
+function selectIncludePaths(
+  target: Pick<SyncTarget, "profile" | "includePaths" | "includePathsSource">,
+  pipelinePatterns: string[],
+): string[] | null {
   let effectiveIncludePaths: string[] | null;
-  if (includePaths && includePaths.length > 0) {
-    effectiveIncludePaths = includePaths;
-    verbose(`Using CLI --include-paths: ${JSON.stringify(effectiveIncludePaths)}`);
-    if (pipelineSettings.includePathPatterns.length > 0) {
+  let includePathsSource: SettingSource;
+  if (target.includePaths.length > 0) {
+    effectiveIncludePaths = target.includePaths;
+    includePathsSource = target.includePathsSource;
+    if (pipelinePatterns.length > 0) {
       verbose(
         `Note: Pipeline has includePathPatterns configured ${JSON.stringify(
-          pipelineSettings.includePathPatterns,
-        )}, but CLI --include-paths takes precedence`,
+          pipelinePatterns,
+        )}, but the ${describeSettingSource(includePathsSource, target.profile)} takes precedence`,
       );
     }
-  } else if (pipelineSettings.includePathPatterns.length > 0) {
-    effectiveIncludePaths = pipelineSettings.includePathPatterns;
-    verbose(`Using pipeline includePathPatterns: ${JSON.stringify(effectiveIncludePaths)}`);
+  } else if (pipelinePatterns.length > 0) {
+    effectiveIncludePaths = pipelinePatterns;
+    includePathsSource = "pipeline";
   } else {
     effectiveIncludePaths = null;
+    includePathsSource = "default";
   }
+  verbose(
+    `Setting include-paths: ${JSON.stringify(effectiveIncludePaths)} (from ${describeSettingSource(
+      includePathsSource,
+      target.profile,
+    )})`,
+  );
+  return effectiveIncludePaths;
+}
 
-  const currentCommit = await getCurrentGitInfo();
-
-  if (!currentCommit.commit) {
-    throw new Error("Could not get current commit");
+/**
+ * CLI --exclude-paths, then the config file, take precedence over the
+ * pipeline's excludePathPatterns. An empty --exclude-paths= turns them off.
+ */
+function selectExcludePaths(pipelinePatterns: string[]): string[] | null {
+  let effectiveExcludePaths: string[];
+  let excludePathsSource: SettingSource;
+  if (settingSources.excludePaths !== "default") {
+    effectiveExcludePaths = excludePaths;
+    excludePathsSource = settingSources.excludePaths;
+  } else {
+    effectiveExcludePaths = pipelinePatterns;
+    excludePathsSource = pipelinePatterns.length > 0 ? "pipeline" : "default";
   }
+  verbose(
+    `Setting exclude-paths: ${JSON.stringify(effectiveExcludePaths)} (from ${describeSettingSource(excludePathsSource)})`,
+  );
+  return effectiveExcludePaths.length > 0 ? effectiveExcludePaths : null;
+}
 
-  const recentReleases = await getRecentReleases();
-  const scanBase = getScanBase(recentReleases, currentCommit.commit);
-  let latestSha = scanBase.sha;
-  let inspectingOnlyCurrentCommit = false;
+let resolvedTargetSha: string | undefined;
 
-  if (scanBase.kind === "base-ref") {
-    assertBaseRefIsAncestor(scanBase.ref, latestSha, currentCommit.commit, { verifyAncestorReachable });
-    const includePathSummary = effectiveIncludePaths?.length
-      ? ` with include paths: ${effectiveIncludePaths.join(", ")}`
-      : "";
-    info(`Scanning ${latestSha.slice(0, 7)}..${currentCommit.commit.slice(0, 7)}${includePathSummary}`);
-  } else {
+/**
+ * The commit a release is for: `--to`, resolved once and fetched when it's
+ * missing locally, or else the checkout's HEAD. Null when HEAD can't be read.
+ */
+function getTargetCommit(cwd: string = process.cwd()): string | null {
+  if (!targetRef) {
+    return getCurrentGitInfo(cwd).commit;
+  }
+  if (resolvedTargetSha === undefined) {
     try {
-      ensureCommitAvailable(latestSha);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      warn(
-        `Could not make sha ${latestSha} available in local git history; falling back to current commit only. ${message}`,
-      );
-      inspectingOnlyCurrentCommit = true;
-      latestSha = currentCommit.commit;
+      resolvedTargetSha = resolveCommitRef(targetRef, cwd);
+    } catch (e) {
+      const detail = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid --to: ${detail}`);
     }
+    info(`Using --to ${targetRef} (${resolvedTargetSha.slice(0, 7)}) as the release commit`);
   }
+  return resolvedTargetSha;
+}
 
-  const commits = getCommitContextsBetweenShas(latestSha, currentCommit.commit, {
-    includePaths: effectiveIncludePaths,
-    inspectSingleCommit: scanBase.kind !== "base-ref",
-  });
+/** One checkout synced into the release. The primary (first) repository's HEAD is the release's `commitSha`. */
+type SyncRepository = { path: string; primary: boolean };
+
+/** One repository's share of a sync: its scan range, commits (oldest first), and what they reference. */
+type RepositoryScan = {
+  repository: SyncRepository;
+  repoInfo: RepoInfo | null;
+  headSha: string;
+  latestSha: string;
+  scanBase: ScanBase;
+  commits: CommitContext[];
+  result: ScanResult;
+};
 
-  if (inspectingOnlyCurrentCommit) {
-    if (commits.length === 0) {
-      if (effectiveIncludePaths?.length) {
-        verbose(`Current commit (${currentCommit.commit}) does not match the path filter`);
-      } else {
-        verbose(`Current commit (${currentCommit.commit}) could not be inspected`);
-      }
-    } else {
-      verbose(`Inspecting current commit (${currentCommit.commit})`);
+function getSyncRepositories(): SyncRepository[] {
+  const paths = repoPaths.length > 0 ? repoPaths : [process.cwd()];
+  return paths.map((path, index) => ({ path, primary: index === 0 }));
+}
+
+async function runSync(target: SyncTarget, cache?: CommitContextCache): Promise<SyncOutcome> {
+  const { api, releaseName, releaseVersion } = target;
+
+  // Fetch pipeline settings from API
+  const pipelineSettings = await getPipelineSettings(api);
+
+  const effectiveIncludePaths = selectIncludePaths(target, pipelineSettings.includePathPatterns);
+  const effectiveExcludePaths = selectExcludePaths(pipelineSettings.excludePathPatterns);
+  const pathFilter = describePathFilter(effectiveIncludePaths, effectiveExcludePaths);
+  const teamKeyFilter = await resolveTeamKeyFilter(api);
+
+  const repositories = getSyncRepositories();
+  const multiRepository = repositories.length > 1;
+  const pipelineState = readSyncState(target);
+  let recentReleases: Release[] | null;
+  try {
+    recentReleases = await getRecentReleases(api, { repositories: multiRepository });
+  } catch (e) {
+    if (!pipelineState) {
+      throw e;
     }
-  } else {
-    const commitNoun = effectiveIncludePaths?.length ? "matching commit" : "commit";
-    if (scanBase.kind === "base-ref") {
-      info(`Found ${commits.length} ${pluralize(commits.length, commitNoun)} in requested range`);
-    } else if (latestSha === currentCommit.commit) {
-      info(
-        `Inspected current commit ${currentCommit.commit.slice(0, 7)}; found ${commits.length} ${pluralize(commits.length, commitNoun)}`,
-      );
-    } else {
-      info(
-        `Found ${commits.length} ${pluralize(commits.length, commitNoun)} between ${latestSha.slice(0, 7)} and ${currentCommit.commit.slice(0, 7)}`,
-      );
+    const message = e instanceof Error ? e.message : String(e);
+    warn(`Could not fetch recent releases: ${message}. Falling back to the commits recorded in ${stateFile}`);
+    recentReleases = null;
+  }
+  const scans: RepositoryScan[] = [];
+  for (const repository of repositories) {
+    if (multiRepository) {
+      info(`Scanning repository ${repository.path}`);
     }
+    scans.push(
+      await scanRepository(repository, multiRepository, recentReleases, {
+        includePaths: effectiveIncludePaths,
+        excludePaths: effectiveExcludePaths,
+        teamKeys: teamKeyFilter,
+        cache,
+        fetchOlderReleases: (before) => getRecentReleases(api, { repositories: multiRepository, before }),
+        stateCommits: pipelineState?.commits ?? null,
+      }),
+    );
   }
+  const primary = scans[0]!;
+  const commitCount = scans.reduce((total, { commits }) => total + commits.length, 0);
+
+  const scan: ScanSummary = {
+    range: { from: primary.latestSha, to: primary.headSha },
+    baseKind: primary.scanBase.kind,
+    baseRef: primary.scanBase.kind === "base-ref" ? primary.scanBase.ref : null,
+    releasesSearched: "candidatesConsidered" in primary.scanBase ? primary.scanBase.candidatesConsidered : null,
+    firstSync: primary.scanBase.kind === "first-sync" ? formatFirstSyncStrategy(primary.scanBase.strategy) : null,
+    commitCount,
+    issues: [],
+    revertedIssues: [],
+    pullRequests: [],
+  };
 
-  if (commits.length === 0) {
-    const reason = effectiveIncludePaths?.length
-      ? `No matching commits found for include paths: ${effectiveIncludePaths.join(", ")}`
-      : scanBase.kind === "base-ref"
+  if (commitCount === 0) {
+    const reason = pathFilter
+      ? `No matching commits found for ${pathFilter}`
+      : primary.scanBase.kind === "base-ref"
         ? "No commits found in the requested range"
-        : "No commits found in the computed range";
-    if (!shouldCreateReleaseForScan(commits.length, scanBase)) {
+        : `No commits found in the computed ${pluralize(scans.length, "range")}`;
+    if (!shouldCreateReleaseForScan(commitCount, primary.scanBase)) {
       info(`${reason}. Skipping release creation.`);
-      return null;
+      return { release: null, scan };
     }
     info(`${reason}. Syncing release anyway because --base-ref was provided to establish the baseline.`);
   }
 
-  // git log returns newest-first; scanCommits needs chronological (oldest-first) for last-write-wins
-  commits.reverse();
-
-  const { issueReferences, revertedIssueReferences, prNumbers, debugSink } = scanCommits(commits, {
-    includePaths: effectiveIncludePaths,
-    includeSubjects,
-  });
+  const { issueReferences, revertedIssueReferences, debugSink } = multiRepository
+    ? mergeScanResults(scans.map(({ result }) => result))
+    : primary.result;
+  const prNumbers = [...new Set(scans.flatMap(({ result }) => result.prNumbers))];
 
   verbose(`Debug sink: ${JSON.stringify(debugSink, null, 2)}`);
+  scan.issues = issueReferences;
+  scan.revertedIssues = revertedIssueReferences;
+  scan.pullRequests = prNumbers;
+  if (multiRepository) {
+    scan.repositories = scans.map(({ repository, repoInfo, latestSha, headSha, scanBase, commits, result }) => ({
+      path: repository.path,
+      url: repoInfo?.url ?? null,
+      range: { from: latestSha, to: headSha },
+      baseKind: scanBase.kind,
+      releasesSearched: "candidatesConsidered" in scanBase ? scanBase.candidatesConsidered : null,
+      commitCount: commits.length,
+      issues: result.issueReferences,
+      revertedIssues: result.revertedIssueReferences,
+      pullRequests: result.prNumbers,
+    }));
+  }
+
+  let notes = releaseNotes;
+  if (shouldGenerateReleaseNotes) {
+    notes = {
+      content: generateReleaseNotes(
+        scans.flatMap(({ commits }) => commits),
+        debugSink,
+      ),
+    };
+    verbose(`Generated release notes:\n${notes.content}`);
+    if (releaseNotesOutput) {
+      try {
+        writeFileSync(releaseNotesOutput, notes.content);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`Failed to write --release-notes-output file "${releaseNotesOutput}": ${message}`);
+      }
+      info(`Wrote release notes to ${releaseNotesOutput}`);
+    }
+  }
 
   if (revertedIssueReferences.length > 0) {
     info(`Reverted issue keys: ${revertedIssueReferences.map((f) => f.identifier).join(", ")}`);
   }
 
-  const repoInfo = getRepoInfo();
-
   const issueIds = issueReferences.map((f) => f.identifier);
   const parts: string[] = [];
   if (issueIds.length > 0) parts.push(`issues [${issueIds.join(", ")}]`);
@@ -370,26 +817,35 @@ async function syncCommand(): Promise<{
     const targetName = releaseName ?? "(server-assigned)";
     const versionPart = releaseVersion ? `version: ${releaseVersion}` : "no version set";
     info(
-      `[dry-run] Would sync release ${targetName} (${versionPart}): ${scanned}${formatLinkSummary(links)}${formatDocumentsSummary(documents)}${formatReleaseNotesSummary(releaseNotes)}`,
+      `[dry-run] Would sync release ${targetName} (${versionPart}): ${scanned}${formatLinkSummary(links)}${formatDocumentsSummary(documents)}${formatReleaseNotesSummary(notes)}`,
     );
-    return null;
+    return { release: null, scan };
   }
 
   const release = await syncRelease(
+    target,
     issueReferences,
     revertedIssueReferences,
-    prNumbers,
-    repoInfo,
+    scans.map(({ repository, repoInfo, headSha, result }) => ({
+      path: repository.path,
+      repoInfo,
+      commitSha: headSha,
+      prNumbers: result.prNumbers,
+    })),
     debugSink,
     links,
     documents,
-    releaseNotes,
+    notes,
   );
   info(
-    `Synced to release ${release.name} (${formatVersion(release)}): ${scanned}${formatLinkSummary(links)}${formatDocumentsSummary(documents)}${formatReleaseNotesSummary(releaseNotes)}`,
+    `Synced to release ${release.name} (${formatVersion(release)}): ${scanned}${formatLinkSummary(links)}${formatDocumentsSummary(documents)}${formatReleaseNotesSummary(notes)}`,
   );
-  if (scanBase.kind === "base-ref") {
-    info(`Stored release baseline: ${(release.commitSha ?? currentCommit.commit).slice(0, 7)}`);
+  if (primary.scanBase.kind === "base-ref") {
+    info(`Stored release baseline: ${(release.commitSha ?? primary.headSha).slice(0, 7)}`);
+  }
+  writeSyncState(target, release, scans);
+  for (const { repository, headSha } of scans) {
+    markRelease({ ...release, stage: release.stage?.name }, headSha, repository.path, target.profile);
   }
 
   return {
@@ -399,16 +855,403 @@ async function syncCommand(): Promise<{
       version: release.version,
       url: release.url,
     },
+    scan,
   };
 }
 
-async function completeCommand(): Promise<{
-  release: { id: string; name: string; version?: string; url?: string };
-} | null> {
+/**
+ * Finds one repository's scan base among the recent releases, reads its
+ * commits, and scans them. Every git call runs in the repository's checkout.
+ * Without recent releases (null when they couldn't be fetched), the scan base
+ * is the commit `--state-file` recorded for the repository.
+ */
+async function scanRepository(
+  repository: SyncRepository,
+  multiRepository: boolean,
+  recentReleases: Release[] | null,
+  options: {
+    includePaths: string[] | null;
+    excludePaths: string[] | null;
+    teamKeys: TeamKeyFilter | null;
+    cache?: CommitContextCache;
+    /** Pages further back than `recentReleases`; see `findBaseSha`. */
+    fetchOlderReleases?: (before: string) => Promise<Release[]>;
+    /** The last synced commits from `--state-file`, to fall back on and cross-check against. */
+    stateCommits?: Record<string, string> | null;
+  },
+): Promise<RepositoryScan> {
+  const { path: cwd } = repository;
+  const { includePaths: effectiveIncludePaths, excludePaths: effectiveExcludePaths } = options;
+  const pathFilter = describePathFilter(effectiveIncludePaths, effectiveExcludePaths);
+  const headSha = getTargetCommit(cwd);
+
+  if (!headSha) {
+    throw new Error(multiRepository ? `Could not get current commit in ${cwd}` : "Could not get current commit");
+  }
+  // With --to the head isn't the checkout, so log lines name it the target.
+  const headLabel = targetRef ? "Target commit" : "Current commit";
+
+  const repoInfo = resolveRepoInfo({ cwd });
+  const toCandidates = (releases: Release[]) =>
+    multiRepository ? getRepositoryCandidates(releases, repository, repoInfo) : releases;
+  const { fetchOlderReleases } = options;
+  const stateSha = options.stateCommits?.[getStateRepositoryKey({ path: cwd, url: repoInfo?.url ?? null })];
+  let scanBase: ScanBase;
+  if (recentReleases || baseRef) {
+    scanBase = await getScanBase(
+      toCandidates(recentReleases ?? []),
+      headSha,
+      cwd,
+      fetchOlderReleases && (async (before) => toCandidates(await fetchOlderReleases(before))),
+    );
+    if (stateSha && scanBase.kind !== "base-ref" && scanBase.sha !== stateSha) {
+      warn(
+        `Linear's releases put the scan base at ${scanBase.sha.slice(0, 7)}, but ${stateFile} records ${stateSha.slice(0, 7)} as the last synced commit; using ${scanBase.sha.slice(0, 7)}`,
+      );
+    }
+  } else {
+    scanBase = getStateScanBase(stateSha, headSha, cwd);
+  }
+  let latestSha = scanBase.sha;
+  let inspectingOnlyCurrentCommit = false;
+
+  if (scanBase.kind === "base-ref") {
+    assertBaseRefIsAncestor(scanBase.ref, latestSha, headSha, {
+      verifyAncestorReachable: (sha, headSha) => verifyAncestorReachable(sha, headSha, cwd),
+    });
+    const pathFilterSummary = pathFilter ? ` with ${pathFilter}` : "";
+    info(`Scanning ${latestSha.slice(0, 7)}..${headSha.slice(0, 7)}${pathFilterSummary}`);
+  } else {
+    try {
+      ensureCommitAvailable(latestSha, cwd);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warn(
+        `Could not make sha ${latestSha} available in local git history; falling back to ${headLabel.toLowerCase()} only. ${message}`,
+      );
+      inspectingOnlyCurrentCommit = true;
+      latestSha = headSha;
+    }
+  }
+
+  const commits = getCommitContextsBetweenShas(latestSha, headSha, {
+    includePaths: effectiveIncludePaths,
+    excludePaths: effectiveExcludePaths,
+    inspectSingleCommit: scanBase.kind !== "base-ref",
+    includeFrom: scanBase.kind === "first-sync" && scanBase.includesBase,
+    cwd,
+    cache: options.cache,
+    recurseSubmodules,
+  });
+
+  if (inspectingOnlyCurrentCommit) {
+    if (commits.length === 0) {
+      if (pathFilter) {
+        verbose(`${headLabel} (${headSha}) does not match the path filter`);
+      } else {
+        verbose(`${headLabel} (${headSha}) could not be inspected`);
+      }
+    } else {
+      verbose(`Inspecting ${headLabel.toLowerCase()} (${headSha})`);
+    }
+  } else {
+    const commitNoun = pathFilter ? "matching commit" : "commit";
+    if (scanBase.kind === "base-ref") {
+      info(`Found ${commits.length} ${pluralize(commits.length, commitNoun)} in requested range`);
+    } else if (latestSha === headSha) {
+      info(
+        `Inspected ${headLabel.toLowerCase()} ${headSha.slice(0, 7)}; found ${commits.length} ${pluralize(commits.length, commitNoun)}`,
+      );
+    } else {
+      info(
+        `Found ${commits.length} ${pluralize(commits.length, commitNoun)} between ${latestSha.slice(0, 7)} and ${headSha.slice(0, 7)}`,
+      );
+    }
+  }
+
+  // git log returns newest-first; scanCommits needs chronological (oldest-first) for last-write-wins
+  commits.reverse();
+
+  const result = scanCommits(commits, {
+    includePaths: effectiveIncludePaths,
+    excludePaths: effectiveExcludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors,
+    excludeAuthors,
+    extractionRules,
+    teamKeys: options.teamKeys,
+    trailers: trailerKeys,
+    provider: repoInfo?.provider ?? null,
+  });
+
+  return { repository, repoInfo, headSha, latestSha, scanBase, commits, result };
+}
+
+/**
+ * Replays the tags matching --tags as completed releases, oldest first. Each
+ * release gets what changed since the previous tag and the tag's commit as its
+ * `commitSha`; the first tag only starts the history unless --base-ref bounds
+ * it. Re-running resumes after the newest tag that already has a release, and
+ * completes any release the stopped run synced but didn't complete.
+ */
+async function backfillCommand(): Promise<{ backfill: BackfillResult }> {
   logEnvironmentSummary();
+  const target = getDefaultSyncTarget();
+  const pipelineSettings = await getPipelineSettings(target.api);
+  const effectiveIncludePaths = selectIncludePaths(target, pipelineSettings.includePathPatterns);
+  const effectiveExcludePaths = selectExcludePaths(pipelineSettings.excludePathPatterns);
+  const teamKeyFilter = await resolveTeamKeyFilter(target.api);
+  const repoInfo = resolveRepoInfo();
+
+  const tags = listTags(backfillTags!);
+  if (tags.length === 0) {
+    throw new Error(`No tags matching "${backfillTags}" are reachable from HEAD`);
+  }
+  let baseSha: string | null = null;
+  if (baseRef) {
+    try {
+      baseSha = resolveCommitRef(baseRef);
+    } catch (e) {
+      const detail = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid --base-ref: ${detail}`);
+    }
+  }
+  // Stages tell releases a stopped run synced but never completed apart; if
+  // the API can't return them, every release found counts as done.
+  let withStages = true;
+  const fetchReleasePage = async (before?: string): Promise<Release[]> => {
+    if (withStages) {
+      try {
+        return await getRecentReleases(target.api, { before, stages: true });
+      } catch (e) {
+        withStages = false;
+        const detail = e instanceof Error ? e.message : String(e);
+        warn(`Could not fetch release stages, so uncompleted releases won't be completed: ${detail}`);
+      }
+    }
+    return getRecentReleases(target.api, { before });
+  };
+  const plan = planBackfill(tags, {
+    tagPattern: backfillTags!,
+    baseSha,
+    // Without --base-ref the first tag is never released, so it can't end the paging.
+    releases: await fetchBackfillReleases(baseSha ? tags : tags.slice(1), backfillTags!, fetchReleasePage),
+  });
+  if (plan.resumedAfter) {
+    info(`Resuming after ${plan.resumedAfter}, which already has a release`);
+  } else if (!baseSha) {
+    info(`Starting from ${tags[0]!.name}; pass --base-ref to release it too`);
+  }
+  for (const tag of plan.duplicateTags) {
+    verbose(`Skipping ${tag}: it points at the same commit as the tag before it`);
+  }
 
-  const currentCommit = await getCurrentGitInfo();
-  const commitSha = currentCommit.commit;
+  for (const completion of plan.uncompleted) {
+    // --timeout bounds each release backfill touches, not the whole run.
+    timeout.refresh();
+    if (dryRun) {
+      info(`[dry-run] Would complete ${completion.name}, which an earlier run synced but didn't complete`);
+      continue;
+    }
+    const completed = await completeRelease(target.api, {
+      name: completion.name,
+      version: completion.version,
+      commitSha: completion.sha,
+      links: [],
+      documents: [],
+    });
+    if (!completed.success) {
+      throw new Error(`Failed to complete release ${completion.name}`);
+    }
+    info(`Completed ${completion.name}, which an earlier run synced but didn't complete`);
+  }
+
+  const entries: BackfillEntry[] = [];
+  for (const step of plan.steps) {
+    timeout.refresh();
+    const commits = getCommitContextsBetweenShas(step.from, step.sha, {
+      includePaths: effectiveIncludePaths,
+      excludePaths: effectiveExcludePaths,
+      inspectSingleCommit: false,
+      recurseSubmodules,
+    });
+    commits.reverse();
+    const result = scanCommits(commits, {
+      includePaths: effectiveIncludePaths,
+      excludePaths: effectiveExcludePaths,
+      includeSubjects,
+      excludeSubjects,
+      includeAuthors,
+      excludeAuthors,
+      extractionRules,
+      teamKeys: teamKeyFilter,
+      trailers: trailerKeys,
+      provider: repoInfo?.provider ?? null,
+    });
+    const entry: BackfillEntry = {
+      ...step,
+      commitCount: commits.length,
+      issues: result.issueReferences,
+      revertedIssues: result.revertedIssueReferences,
+      pullRequests: result.prNumbers,
+      release: null,
+    };
+    const counts = `${commits.length} ${pluralize(commits.length, "commit")}, ${entry.issues.length} ${pluralize(
+      entry.issues.length,
+      "issue",
+    )}`;
+
+    if (dryRun) {
+      info(`[dry-run] Would backfill ${step.name} (${step.version}): ${counts}`);
+    } else {
+      const release = await syncRelease(
+        { ...target, releaseName: step.name, releaseVersion: step.version },
+        result.issueReferences,
+        result.revertedIssueReferences,
+        [{ path: process.cwd(), repoInfo, commitSha: step.sha, prNumbers: result.prNumbers }],
+        result.debugSink,
+        [],
+        [],
+        undefined,
+      );
+      const completed = await completeRelease(target.api, {
+        name: step.name,
+        version: step.version,
+        commitSha: step.sha,
+        links: [],
+        documents: [],
+      });
+      if (!completed.success) {
+        throw new Error(`Failed to complete release ${step.name}`);
+      }
+      entry.release = { id: release.id, name: release.name, version: release.version, url: release.url };
+      info(`Backfilled ${release.name} (${formatVersion(release)}): ${counts}`);
+    }
+    entries.push(entry);
+  }
+
+  if (!jsonOutput) {
+    console.log(formatBackfillSummary(entries, { dryRun }));
+  }
+  return { backfill: { resumedAfter: plan.resumedAfter, releases: entries } };
+}
+
+/**
+ * `--write-git-notes` / `--tag-release`: marks the released commit in its
+ * repository. The release already exists in Linear, so a failure is only
+ * warned about.
+ */
+function markRelease(release: MarkedRelease, sha: string, cwd: string, profile: string | null): void {
+  if (!writeGitNotes && tagRelease === undefined) {
+    return;
+  }
+  try {
+    writeReleaseMarkers(
+      release,
+      sha,
+      {
+        gitNotes: writeGitNotes,
+        tagTemplate: tagRelease,
+        push: pushReleaseMarkers,
+        resolvers: createReleaseTemplateResolvers({ cwd, profile, commit: sha }),
+      },
+      cwd,
+    );
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    warn(`Could not mark release ${release.name} on ${sha.slice(0, 7)}: ${message}`);
+  }
+}
+
+/** The pipeline's entry in `--state-file`; a state file that can't be read is only warned about. */
+function readSyncState(target: SyncTarget): PipelineState | null {
+  if (!stateFile) {
+    return null;
+  }
+  try {
+    return readPipelineState(stateFile, target.stateKey);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    warn(`Ignoring state file: ${message}`);
+    return null;
+  }
+}
+
+function getStateScanBase(stateSha: string | undefined, currentSha: string, cwd: string): ScanBase {
+  const scanBase = stateSha
+    ? selectStateScanBase(
+        stateSha,
+        currentSha,
+        { verifyAncestorReachable: (sha, headSha) => verifyAncestorReachable(sha, headSha, cwd) },
+        stateFile!,
+      )
+    : null;
+  if (!scanBase) {
+    throw new Error(
+      `Could not fetch recent releases, and ${stateFile} has no synced commit for ${cwd} that is an ancestor of ${currentSha}`,
+    );
+  }
+  info(`Using the last synced commit ${scanBase.sha.slice(0, 7)} from ${stateFile} as the scan base`);
+  return scanBase;
+}
+
+/**
+ * Records the commits of a successful sync in `--state-file`. The release is
+ * already synced, so a failed write is only warned about.
+ */
+function writeSyncState(target: SyncTarget, release: Release, scans: RepositoryScan[]): void {
+  if (!stateFile) {
+    return;
+  }
+  try {
+    writePipelineState(stateFile, target.stateKey, {
+      profile: target.profile,
+      release: { id: release.id, name: release.name },
+      commits: Object.fromEntries(
+        scans.map(({ repository, repoInfo, headSha }) => [
+          getStateRepositoryKey({ path: repository.path, url: repoInfo?.url ?? null }),
+          headSha,
+        ]),
+      ),
+      syncedAt: new Date().toISOString(),
+    });
+    verbose(`Recorded the synced ${pluralize(scans.length, "commit")} in ${stateFile}`);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    warn(`Could not update state file ${stateFile}: ${message}`);
+  }
+}
+
+/**
+ * Scan-base candidates for one repository of a multi-repository release: each
+ * release's SHA for this repository, matched by URL, or by owner and name.
+ * Releases synced from the primary repository alone only carry `commitSha`,
+ * which then applies to the primary repository.
+ */
+function getRepositoryCandidates(
+  releases: Release[],
+  repository: SyncRepository,
+  repoInfo: RepoInfo | null,
+): Release[] {
+  return releases.map((release) => {
+    const entry = repoInfo
+      ? release.repositories?.find((candidate) =>
+          candidate.url && repoInfo.url
+            ? candidate.url.toLowerCase() === repoInfo.url.toLowerCase()
+            : candidate.owner === repoInfo.owner && candidate.name === repoInfo.name,
+        )
+      : undefined;
+    const commitSha = entry?.commitSha ?? (repository.primary && !release.repositories ? release.commitSha : undefined);
+    return { ...release, commitSha };
+  });
+}
+
+async function completeCommand(): Promise<{ release: ReleaseSummary } | null> {
+  logEnvironmentSummary();
+  const { api, releaseName, releaseVersion } = getDefaultSyncTarget(false);
+
+  const commitSha = getTargetCommit();
 
   if (dryRun) {
     const targetName = releaseName ?? "(current release)";
@@ -419,7 +1262,7 @@ async function completeCommand(): Promise<{
     return null;
   }
 
-  const result = await completeRelease({
+  const result = await completeRelease(api, {
     name: releaseName,
     version: releaseVersion,
     commitSha: commitSha ?? undefined,
@@ -434,6 +1277,9 @@ async function completeCommand(): Promise<{
   } else {
     throw new Error("Failed to complete release");
   }
+  if (result.release && commitSha) {
+    markRelease({ ...result.release, stage: result.release.stage?.name }, commitSha, process.cwd(), null);
+  }
 
   return result.release
     ? {
@@ -447,10 +1293,9 @@ async function completeCommand(): Promise<{
     : null;
 }
 
-async function updateCommand(): Promise<{
-  release: { id: string; name: string; version?: string; url?: string };
-} | null> {
+async function updateCommand(): Promise<{ release: ReleaseSummary } | null> {
   logEnvironmentSummary();
+  const { api, releaseName, releaseVersion } = getDefaultSyncTarget(false);
 
   if (!stageName) {
     throw new Error("--stage=<stage-name> is required for the update command");
@@ -467,7 +1312,7 @@ async function updateCommand(): Promise<{
 
   let result;
   try {
-    result = await updateReleaseByPipeline({
+    result = await updateReleaseByPipeline(api, {
       stage: stageName,
       version: releaseVersion,
       name: releaseName,
@@ -500,32 +1345,168 @@ async function updateCommand(): Promise<{
     : null;
 }
 
-async function getRecentReleases(): Promise<Release[]> {
-  // Pin the limit explicitly rather than relying on the server default — the
-  // walk's correctness depends on the right ancestor being in this page, so
-  // the cap is a meaningful contract, not an implementation detail.
+/**
+ * Offline counterpart of `sync --base-ref`: scans the range from local git
+ * history and prints the issues, reverted issues, and pull requests sync would
+ * send, with per-commit attribution. Pipeline include paths aren't fetched.
+ */
+function previewCommand(): void {
+  logEnvironmentSummary();
+  const { includePaths: effectiveIncludePaths } = withWorkspacePaths(
+    includePaths,
+    settingSources.includePaths,
+    workspaces,
+    settingSources.workspaces,
+  );
+  const preview = buildPreview({
+    baseRef: baseRef!,
+    headRef,
+    includePaths: effectiveIncludePaths,
+    excludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors,
+    excludeAuthors,
+    extractionRules,
+    teamKeys: teamKeys && createTeamKeyFilter(teamKeys),
+    trailers: trailerKeys,
+    provider: repoProvider ?? resolveRepoInfo({ quiet: true })?.provider ?? null,
+    recurseSubmodules,
+  });
+  if (effectiveIncludePaths.length === 0 && excludePaths.length === 0) {
+    verbose("Pipeline path filters are not applied in preview; pass --include-paths or --exclude-paths to filter");
+  }
+  console.log(jsonOutput ? JSON.stringify({ preview }) : formatPreviewTable(preview));
+}
+
+/**
+ * Replays the sync scan for an issue or commit and prints why it was or wasn't
+ * attributed. With --base-ref it runs offline; otherwise it reads the scan base
+ * and include paths from the pipeline, like sync, without any mutation.
+ */
+async function explainCommand(): Promise<void> {
+  logEnvironmentSummary();
+  const headSha = getTargetCommit();
+  if (!headSha) {
+    throw new Error("Could not get current commit");
+  }
+
+  const localIncludePaths = withWorkspacePaths(
+    includePaths,
+    settingSources.includePaths,
+    workspaces,
+    settingSources.workspaces,
+  );
+  let baseSha: string;
+  let inspectSingleCommit: boolean;
+  let includeBase = false;
+  let effectiveIncludePaths: string[] | null;
+  let effectiveExcludePaths: string[] | null;
+  let teamKeyFilter: TeamKeyFilter | null;
+  if (baseRef) {
+    baseSha = resolveLocalCommitRef(baseRef);
+    inspectSingleCommit = false;
+    effectiveIncludePaths = localIncludePaths.includePaths.length > 0 ? localIncludePaths.includePaths : null;
+    effectiveExcludePaths = excludePaths.length > 0 ? excludePaths : null;
+    teamKeyFilter = await resolveTeamKeyFilter(null);
+    verbose("Pipeline path filters are not applied with --base-ref; pass --include-paths or --exclude-paths to filter");
+  } else {
+    const api = createApiRequest(process.env.LINEAR_ACCESS_KEY ?? "");
+    const pipelineSettings = await getPipelineSettings(api);
+    effectiveIncludePaths = selectIncludePaths(
+      { profile: null, ...localIncludePaths },
+      pipelineSettings.includePathPatterns,
+    );
+    effectiveExcludePaths = selectExcludePaths(pipelineSettings.excludePathPatterns);
+    teamKeyFilter = await resolveTeamKeyFilter(api);
+    const scanBase = await getScanBase(await getRecentReleases(api), headSha, process.cwd(), (before) =>
+      getRecentReleases(api, { before }),
+    );
+    baseSha = scanBase.sha;
+    inspectSingleCommit = true;
+    includeBase = scanBase.kind === "first-sync" && scanBase.includesBase;
+    try {
+      ensureCommitAvailable(baseSha);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      warn(
+        `Could not make sha ${baseSha} available in local git history; explaining the ${targetRef ? "target" : "current"} commit only. ${message}`,
+      );
+      baseSha = headSha;
+    }
+  }
+
+  const explanation = explain({
+    target: explainTarget!,
+    baseSha,
+    headSha,
+    includePaths: effectiveIncludePaths,
+    excludePaths: effectiveExcludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors,
+    excludeAuthors,
+    extractionRules,
+    teamKeys: teamKeyFilter,
+    trailers: trailerKeys,
+    provider: repoProvider ?? resolveRepoInfo({ quiet: true })?.provider ?? null,
+    recurseSubmodules,
+    inspectSingleCommit,
+    includeBase,
+  });
+  console.log(jsonOutput ? JSON.stringify({ explanation }) : formatExplanation(explanation));
+}
+
+const RECENT_RELEASES_PAGE_SIZE = 20;
+
+/**
+ * One page of the pipeline's releases, most recent first.
+ *
+ * @param options.repositories - Also fetch each release's per-repository SHAs, for multi-repository syncs
+ * @param options.before - Release id to page back from; the page holds the releases created before it
+ * @param options.stages - Also fetch each release's stage, for backfill to find releases left uncompleted
+ */
+async function getRecentReleases(
+  apiRequest: ApiRequest,
+  options: { repositories?: boolean; before?: string; stages?: boolean } = {},
+): Promise<Release[]> {
+  const repositoriesField = options.repositories ? "repositories { owner name url commitSha }" : "";
+  const stageField = options.stages ? "stage { name type }" : "";
+  // Pin the page size explicitly rather than relying on the server default, so
+  // how far back each request reaches doesn't change under us; `findBaseSha`
+  // pages on with `before` until `--max-release-lookback` releases are checked.
+  // Only older pages send `before`, so the first page never depends on it.
+  const paging = options.before !== undefined;
   const response = await apiRequest<AccessKeyRecentReleasesResponse>(
     `
-    query recentReleasesByAccessKey($limit: Int) {
-      recentReleasesByAccessKey(limit: $limit) {
+    query recentReleasesByAccessKey($limit: Int${paging ? ", $before: String" : ""}) {
+      recentReleasesByAccessKey(limit: $limit${paging ? ", before: $before" : ""}) {
         id
         name
+        version
         createdAt
         commitSha
+        ${repositoriesField}
+        ${stageField}
       }
     }
   `,
-    { limit: 20 },
+    paging ? { limit: RECENT_RELEASES_PAGE_SIZE, before: options.before } : { limit: RECENT_RELEASES_PAGE_SIZE },
   );
 
   return response.data.recentReleasesByAccessKey;
 }
 
-function getScanBase(candidates: Release[], currentSha: string): ScanBase {
+async function getScanBase(
+  candidates: Release[],
+  currentSha: string,
+  cwd: string = process.cwd(),
+  fetchOlderReleases?: (before: string) => Promise<Release[]>,
+): Promise<ScanBase> {
   if (baseRef) {
     let resolvedSha: string;
     try {
-      resolvedSha = resolveCommitRef(baseRef);
+      resolvedSha = resolveCommitRef(baseRef, cwd);
     } catch (e) {
       const detail = e instanceof Error ? e.message : String(e);
       throw new Error(`Invalid --base-ref: ${detail}`);
@@ -534,8 +1515,20 @@ function getScanBase(candidates: Release[], currentSha: string): ScanBase {
     return { kind: "base-ref", sha: resolvedSha, ref: baseRef };
   }
 
-  const scanBase = selectAutomaticScanBase(candidates, currentSha, { verifyAncestorReachable });
+  const scanBase = await selectAutomaticScanBase(
+    candidates,
+    currentSha,
+    {
+      verifyAncestorReachable: (sha, headSha) => verifyAncestorReachable(sha, headSha, cwd),
+      fetchOlderReleases,
+    },
+    cwd,
+    { maxCandidates: maxReleaseLookback, firstSync },
+  );
   if (scanBase.kind !== "first-sync") {
+    if (scanBase.kind === "release" && scanBase.candidatesConsidered > RECENT_RELEASES_PAGE_SIZE) {
+      info(`Found the previous release after checking ${scanBase.candidatesConsidered} recent releases`);
+    }
     return scanBase;
   }
 
@@ -543,23 +1536,31 @@ function getScanBase(candidates: Release[], currentSha: string): ScanBase {
     verbose("No recent releases found; assuming first sync");
   } else {
     // The candidate list came back non-empty but no entry is reachable from
-    // HEAD. This usually means orphaned/stale commitShas, but can also mean
-    // the actual previous release is older than the recent-releases page —
-    // in which case we'll silently under-cover. Surface it at warn level so
-    // it's visible in CI logs.
-    // Don't promise "current commit only" here — the actual fallback is
-    // resolveFirstSyncBoundary, which uses HEAD^1 when HEAD is a merge commit.
-    // The follow-up verbose lines below print the boundary that was chosen.
+    // HEAD. This usually means orphaned/stale commitShas, but when the
+    // lookback ran out it can also mean the actual previous release is older
+    // still — in which case we'll silently under-cover. Surface it at warn
+    // level so it's visible in CI logs.
+    // Don't promise "current commit only" here — the actual fallback is the
+    // --first-sync boundary, which by default is HEAD^1 when HEAD is a merge.
+    // The follow-up lines below print the boundary that was chosen.
+    const hint = scanBase.lookbackExhausted
+      ? `; older releases were not checked, raise --max-release-lookback (${maxReleaseLookback}) to search further`
+      : "";
     warn(
       `No recent release is an ancestor of ${currentSha} (${scanBase.candidatesConsidered} ${pluralize(
         scanBase.candidatesConsidered,
         "candidate",
-      )} considered); falling back to the first-sync scan boundary`,
+      )} considered); falling back to the first-sync scan boundary${hint}`,
     );
   }
-  // For a merge HEAD the issue keys live on HEAD^2's branch, not on HEAD
-  // itself, so HEAD-only would miss them. Non-merge HEAD carries its own key.
-  if (scanBase.sha !== currentSha) {
+  if (scanBase.strategy.kind !== "head") {
+    const from = scanBase.includesBase
+      ? `the root commit ${scanBase.sha.slice(0, 7)}, included`
+      : scanBase.sha.slice(0, 7);
+    info(`First sync: scanning from ${from} (--first-sync ${formatFirstSyncStrategy(scanBase.strategy)})`);
+  } else if (scanBase.sha !== currentSha) {
+    // For a merge HEAD the issue keys live on HEAD^2's branch, not on HEAD
+    // itself, so HEAD-only would miss them. Non-merge HEAD carries its own key.
     verbose(`Merge HEAD: using HEAD^1 (${scanBase.sha}) as the scan boundary`);
   } else {
     verbose("Inspecting current commit only");
@@ -567,8 +1568,43 @@ function getScanBase(candidates: Release[], currentSha: string): ScanBase {
   return scanBase;
 }
 
-async function getPipelineSettings(): Promise<{
+/**
+ * Repository info for pull request references: `--repo-url` or the `origin`
+ * remote, parsed with the config's `repoHosts`, then `--repo-provider` on top.
+ */
+function resolveRepoInfo(options: { quiet?: boolean; cwd?: string } = {}): RepoInfo | null {
+  const repoInfo = repoUrl
+    ? parseRepoUrl(repoUrl, repoHosts)
+    : getRepoInfo("origin", options.cwd ?? process.cwd(), { quiet: options.quiet, hostProviders: repoHosts });
+  if (!repoInfo) {
+    return null;
+  }
+  return repoProvider ? { ...repoInfo, provider: repoProvider } : repoInfo;
+}
+
+/** Resolves `--team-keys` for one pipeline; see `loadTeamKeyFilter`. */
+async function resolveTeamKeyFilter(apiRequest: ApiRequest | null): Promise<TeamKeyFilter | null> {
+  if (!teamKeys) {
+    return null;
+  }
+  return loadTeamKeyFilter(teamKeys, apiRequest && (() => getTeamKeys(apiRequest)));
+}
+
+async function getTeamKeys(apiRequest: ApiRequest): Promise<string[]> {
+  const response = await apiRequest<AccessKeyTeamKeysResponse>(
+    `
+    query teamKeysByAccessKey {
+      teamKeysByAccessKey
+    }
+  `,
+  );
+
+  return response.data.teamKeysByAccessKey ?? [];
+}
+
+async function getPipelineSettings(apiRequest: ApiRequest): Promise<{
   includePathPatterns: string[];
+  excludePathPatterns: string[];
 }> {
   const response = await apiRequest<AccessKeyPipelineSettingsResponse>(
     `
@@ -582,31 +1618,70 @@ async function getPipelineSettings(): Promise<{
 
   return {
     includePathPatterns: response.data.releasePipelineByAccessKey.includePathPatterns ?? [],
+    excludePathPatterns: settingSources.excludePaths === "default" ? await getPipelineExcludePaths(apiRequest) : [],
   };
 }
 
+/**
+ * The pipeline's exclude path patterns, queried on their own so that a server
+ * without the field only loses them rather than failing the whole command.
+ */
+async function getPipelineExcludePaths(apiRequest: ApiRequest): Promise<string[]> {
+  try {
+    const response = await apiRequest<AccessKeyPipelineExcludePathsResponse>(
+      `
+      query pipelineExcludePathsByAccessKey {
+        releasePipelineByAccessKey {
+          excludePathPatterns
+        }
+      }
+    `,
+    );
+    return response.data.releasePipelineByAccessKey.excludePathPatterns ?? [];
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    verbose(`Could not fetch the pipeline's exclude path patterns: ${message}`);
+    return [];
+  }
+}
+
+/** A scanned repository as sent to `releaseSyncByAccessKey`. */
+type SyncedRepository = {
+  path: string;
+  repoInfo: RepoInfo | null;
+  commitSha: string;
+  prNumbers: number[];
+};
+
 async function syncRelease(
+  target: SyncTarget,
   issueReferences: IssueReference[],
   revertedIssueReferences: IssueReference[],
-  prNumbers: number[],
-  repoInfo: RepoInfo | null,
+  repositories: SyncedRepository[],
   debugSink: DebugSink,
   releaseLinks: ReleaseLink[],
   releaseDocuments: ReleaseDocument[],
   releaseNotesValue: ReleaseNotes | undefined,
 ): Promise<Release> {
-  const currentSha = await getCurrentGitInfo().commit;
-  if (!currentSha) {
-    throw new Error("Could not get current commit");
-  }
-
-  if (prNumbers.length > 0 && !repoInfo) {
-    throw new Error("Repository info is required to sync a release with pull request references");
+  const multiRepository = repositories.length > 1;
+  for (const { path, repoInfo, prNumbers } of repositories) {
+    const where = multiRepository ? ` (${path})` : "";
+    if (prNumbers.length > 0 && !repoInfo) {
+      throw new Error(
+        `Repository info is required to sync a release with pull request references${where}. Pass --repo-url if the origin remote is missing or unparseable.`,
+      );
+    }
+    if (prNumbers.length > 0 && !repoInfo?.provider) {
+      warn(
+        `Could not tell which Git host ${repoInfo?.url ?? `the repository${where}`} is on; pass --repo-provider or map the host in repoHosts in the config file`,
+      );
+    }
   }
 
-  const { owner, name } = repoInfo ?? {};
+  const primary = repositories[0]!;
+  const repoInfo = primary.repoInfo;
 
-  const response = await apiRequest<AccessKeySyncReleaseResponse>(
+  const response = await target.api<AccessKeySyncReleaseResponse>(
     `
     mutation syncReleaseByAccessKey($input: ReleaseSyncInputBase!) {
       releaseSyncByAccessKey(input: $input) {
@@ -618,25 +1693,30 @@ async function syncRelease(
           version
           commitSha
           createdAt
+          stage {
+            name
+          }
         }
       }
     }
     `,
     {
       input: {
-        name: releaseName,
-        version: releaseVersion,
-        commitSha: currentSha,
+        name: target.releaseName,
+        version: target.releaseVersion,
+        commitSha: primary.commitSha,
         issueReferences,
         revertedIssueReferences: revertedIssueReferences.length > 0 ? revertedIssueReferences : undefined,
         links: releaseLinks.length > 0 ? releaseLinks : undefined,
         documents: releaseDocuments.length > 0 ? releaseDocuments : undefined,
         releaseNotes: releaseNotesValue,
-        pullRequestReferences: prNumbers.map((number) => ({
-          repositoryOwner: owner,
-          repositoryName: name,
-          number,
-        })),
+        pullRequestReferences: repositories.flatMap(({ repoInfo: repo, prNumbers }) =>
+          prNumbers.map((number) => ({
+            repositoryOwner: repo?.owner,
+            repositoryName: repo?.name,
+            number,
+          })),
+        ),
         repository: repoInfo
           ? {
               owner: repoInfo.owner,
@@ -645,6 +1725,15 @@ async function syncRelease(
               url: repoInfo.url,
             }
           : undefined,
+        repositories: multiRepository
+          ? repositories.map(({ repoInfo: repo, commitSha }) => ({
+              owner: repo?.owner,
+              name: repo?.name,
+              provider: repo?.provider,
+              url: repo?.url,
+              commitSha,
+            }))
+          : undefined,
         debugSink,
       },
     },
@@ -657,16 +1746,19 @@ async function syncRelease(
   return response.data.releaseSyncByAccessKey.release;
 }
 
-async function completeRelease(options: {
-  name?: string;
-  version?: string;
-  commitSha?: string;
-  links: ReleaseLink[];
-  documents: ReleaseDocument[];
-  releaseNotes?: ReleaseNotes;
-}): Promise<{
+async function completeRelease(
+  apiRequest: ApiRequest,
+  options: {
+    name?: string;
+    version?: string;
+    commitSha?: string;
+    links: ReleaseLink[];
+    documents: ReleaseDocument[];
+    releaseNotes?: ReleaseNotes;
+  },
+): Promise<{
   success: boolean;
-  release: { id: string; name: string; version?: string; url?: string } | null;
+  release: { id: string; name: string; version?: string; url?: string; stage?: { name: string } | null } | null;
 }> {
   const {
     name,
@@ -687,6 +1779,9 @@ async function completeRelease(options: {
           name
           version
           url
+          stage {
+            name
+          }
         }
       }
     }
@@ -706,14 +1801,17 @@ async function completeRelease(options: {
   return response.data.releaseCompleteByAccessKey;
 }
 
-async function updateReleaseByPipeline(options: {
-  stage?: string;
-  version?: string;
-  name?: string;
-  links: ReleaseLink[];
-  documents: ReleaseDocument[];
-  releaseNotes?: ReleaseNotes;
-}): Promise<{
+async function updateReleaseByPipeline(
+  apiRequest: ApiRequest,
+  options: {
+    stage?: string;
+    version?: string;
+    name?: string;
+    links: ReleaseLink[];
+    documents: ReleaseDocument[];
+    releaseNotes?: ReleaseNotes;
+  },
+): Promise<{
   success: boolean;
   release: {
     id: string;
@@ -768,16 +1866,35 @@ async function updateReleaseByPipeline(options: {
   };
 }
 
+function printJsonResult(payload: CommandPayload): void {
+  // Backfilled releases get no links, documents, or release notes.
+  const attaches = command !== "backfill";
+  const result = createCommandResult(
+    {
+      command: command as CommandResult["command"],
+      dryRun,
+      startedAt,
+      links: attaches ? links : [],
+      documents: attaches ? documents : [],
+      releaseNotes: attaches && (releaseNotes !== undefined || shouldGenerateReleaseNotes),
+    },
+    payload,
+  );
+  console.log(JSON.stringify(result));
+}
+
 async function main() {
   assertGitAvailable();
 
-  let result: {
-    release: { id: string; name: string; version?: string; url?: string };
-  } | null = null;
+  let result: CommandPayload | null = null;
 
   switch (command) {
     case "sync":
-      result = await syncCommand();
+      if (profiles.length > 0) {
+        result = { profiles: await syncProfilesCommand() };
+      } else {
+        result = await syncCommand();
+      }
       break;
     case "complete":
       result = await completeCommand();
@@ -785,16 +1902,26 @@ async function main() {
     case "update":
       result = await updateCommand();
       break;
+    case "preview":
+      previewCommand();
+      return;
+    case "explain":
+      await explainCommand();
+      return;
+    case "backfill":
+      result = await backfillCommand();
+      break;
     default:
-      error(`Unknown command "${command}" (available: sync, complete, update)`);
+      error(`Unknown command "${command}" (available: sync, complete, update, preview, explain, backfill)`);
       process.exit(1);
   }
 
   if (jsonOutput) {
-    console.log(JSON.stringify(result ?? { release: null }));
+    printJsonResult(result ?? { release: null });
   }
 }
 
+const startedAt = new Date();
 const timeoutMs = timeoutSeconds * 1000;
 const timeout = setTimeout(() => {
   error(
@@ -0,0 +1,92 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildPreview, formatPreviewTable } from "./preview";
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim();
+}
+
+describe("buildPreview", () => {
+  let cwd: string;
+
+  function commit(message: string, file?: string): string {
+    if (file) {
+      mkdirSync(join(cwd, file, ".."), { recursive: true });
+      writeFileSync(join(cwd, file), message);
+      git(["add", "."], cwd);
+    }
+    git(["commit", "-q", "--allow-empty", "-m", message], cwd);
+    return git(["rev-parse", "HEAD"], cwd);
+  }
+
+  beforeAll(() => {
+    cwd = mkdtempSync(join(tmpdir(), "linear-release-preview-"));
+    git(["init", "-q"], cwd);
+    git(["config", "user.email", "test@example.com"], cwd);
+    git(["config", "user.name", "Test User"], cwd);
+    commit("initial");
+    git(["tag", "v1"], cwd);
+    commit("Fixes ENG-1 web change (#10)", "apps/web/a.txt");
+    commit("fix: api change\n\nFixes ENG-2", "apps/api/b.txt");
+    commit('Revert "Fixes ENG-1 web change (#10)"', "apps/web/a.txt");
+    git(["tag", "v2"], cwd);
+    commit("chore: after v2\n\nFixes ENG-3");
+  });
+
+  afterAll(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("reports issues, reverted issues, pull requests, and per-commit attribution", () => {
+    const preview = buildPreview({ baseRef: "v1", headRef: "v2", cwd });
+    expect(preview.head.sha).toBe(git(["rev-parse", "v2"], cwd));
+    expect(preview.issues).toEqual(["ENG-2"]);
+    expect(preview.revertedIssues).toEqual(["ENG-1"]);
+    expect(preview.pullRequests).toEqual([10]);
+    expect(preview.commits.map((c) => [c.subject, c.issues, c.revertedIssues, c.pullRequests])).toEqual([
+      ["Fixes ENG-1 web change (#10)", ["ENG-1"], [], [10]],
+      ["fix: api change", ["ENG-2"], [], []],
+      ['Revert "Fixes ENG-1 web change (#10)"', [], ["ENG-1"], []],
+    ]);
+  });
+
+  it("defaults the head to HEAD", () => {
+    const preview = buildPreview({ baseRef: "v2", cwd });
+    expect(preview.head).toEqual({ ref: "HEAD", sha: git(["rev-parse", "HEAD"], cwd) });
+    expect(preview.issues).toEqual(["ENG-3"]);
+  });
+
+  it("applies include paths", () => {
+    const preview = buildPreview({ baseRef: "v1", headRef: "v2", includePaths: ["apps/api/**"], cwd });
+    expect(preview.includePaths).toEqual(["apps/api/**"]);
+    expect(preview.commits.map((c) => c.subject)).toEqual(["fix: api change"]);
+  });
+
+  it("applies exclude paths", () => {
+    const preview = buildPreview({ baseRef: "v1", headRef: "v2", excludePaths: ["apps/api/**"], cwd });
+    expect(preview.excludePaths).toEqual(["apps/api/**"]);
+    expect(preview.commits.map((c) => c.subject)).not.toContain("fix: api change");
+  });
+
+  it("rejects refs missing from local history", () => {
+    expect(() => buildPreview({ baseRef: "no-such-ref", cwd })).toThrow(
+      'Could not resolve "no-such-ref" to a commit in local history',
+    );
+  });
+
+  it("rejects a base that isn't an ancestor of the head", () => {
+    expect(() => buildPreview({ baseRef: "v2", headRef: "v1", cwd })).toThrow("is not an ancestor of HEAD");
+  });
+
+  it("formats a table with totals", () => {
+    const table = formatPreviewTable(buildPreview({ baseRef: "v1", headRef: "v2", cwd }));
+    const lines = table.split("\n");
+    expect(lines[0]).toMatch(/^Range v1\.\.v2 \([0-9a-f]{7}\.\.[0-9a-f]{7}\): 3 commits$/);
+    expect(lines[2]!.split(/\s{2,}/)).toEqual(["SHA", "SUBJECT", "ISSUES", "REVERTED", "PRS"]);
+    expect(lines[3]!.split(/\s{2,}/).slice(1)).toEqual(["Fixes ENG-1 web change (#10)", "ENG-1", "-", "#10"]);
+    expect(lines.slice(-3)).toEqual(["Issues: ENG-2", "Reverted issues: ENG-1", "Pull requests: #10"]);
+  });
+});
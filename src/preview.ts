@@ -0,0 +1,203 @@
+import { ExtractionRule } from "./extraction-rules";
+import { getCommitSubject } from "./extractors";
+import { getCommitContextsBetweenShas, isAncestor, resolveLocalCommitRef } from "./git";
+import { scanCommits } from "./scan";
+import { TeamKeyFilter } from "./team-keys";
+import { TrailerKeys } from "./trailers";
+import { assertBaseRefIsAncestor } from "./scan-base";
+import { DebugSink } from "./types";
+import { pluralize } from "./util";
+
+/** What one scanned commit contributes to the release. */
+export type PreviewCommit = {
+  sha: string;
+  subject: string;
+  branchName: string | null;
+  issues: string[];
+  revertedIssues: string[];
+  pullRequests: number[];
+};
+
+/** The payload `sync` would send for a range, computed from local git history only. */
+export type Preview = {
+  base: { ref: string; sha: string };
+  head: { ref: string; sha: string };
+  includePaths: string[] | null;
+  excludePaths: string[] | null;
+  includeSubjects: string | null;
+  excludeSubjects: string | null;
+  includeAuthors: string[] | null;
+  excludeAuthors: string[] | null;
+  issues: string[];
+  revertedIssues: string[];
+  pullRequests: number[];
+  /** Oldest first. Only commits that passed the path and subject filters. */
+  commits: PreviewCommit[];
+  /** Commits that passed the filters but opted out with a skip marker. */
+  skippedCommits: { sha: string; subject: string; marker: string }[];
+  /** Issues kept out of the release by exclude trailers such as `Not-Released`. */
+  excludedIssues: string[];
+};
+
+/**
+ * Scans `baseRef..headRef` the way `sync --base-ref` does, without an access
+ * key or any network access: refs must resolve locally, and pipeline settings
+ * aren't fetched, so only include paths passed on the CLI or in the config
+ * file apply.
+ */
+export function buildPreview(options: {
+  baseRef: string;
+  headRef?: string;
+  includePaths?: string[] | null;
+  excludePaths?: string[] | null;
+  includeSubjects?: string | null;
+  excludeSubjects?: string | null;
+  includeAuthors?: string[] | null;
+  excludeAuthors?: string[] | null;
+  extractionRules?: ExtractionRule[];
+  teamKeys?: TeamKeyFilter | null;
+  trailers?: TrailerKeys;
+  /** Selects host-specific pull request formats; see `ScanOptions.provider`. */
+  provider?: string | null;
+  /** Also scan the commits behind submodule pointer changes; see `getCommitContextsBetweenShas`. */
+  recurseSubmodules?: boolean;
+  cwd?: string;
+}): Preview {
+  const {
+    baseRef,
+    headRef = "HEAD",
+    includeSubjects = null,
+    excludeSubjects = null,
+    includeAuthors = null,
+    excludeAuthors = null,
+    extractionRules,
+    teamKeys,
+    trailers,
+    provider,
+    recurseSubmodules = false,
+    cwd = process.cwd(),
+  } = options;
+  const includePaths = options.includePaths?.length ? options.includePaths : null;
+  const excludePaths = options.excludePaths?.length ? options.excludePaths : null;
+
+  const baseSha = resolveLocalCommitRef(baseRef, cwd);
+  const headSha = resolveLocalCommitRef(headRef, cwd);
+  assertBaseRefIsAncestor(baseRef, baseSha, headSha, {
+    verifyAncestorReachable: (sha, head) => sha === head || isAncestor(sha, head, cwd),
+  });
+
+  const commits = getCommitContextsBetweenShas(baseSha, headSha, {
+    includePaths,
+    excludePaths,
+    inspectSingleCommit: false,
+    cwd,
+    recurseSubmodules,
+  }).reverse();
+  const { issueReferences, revertedIssueReferences, prNumbers, debugSink } = scanCommits(commits, {
+    includePaths,
+    excludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors,
+    excludeAuthors,
+    extractionRules,
+    teamKeys,
+    trailers,
+    provider,
+  });
+
+  const inspected = new Set(debugSink.inspectedShas);
+  return {
+    base: { ref: baseRef, sha: baseSha },
+    head: { ref: headRef, sha: headSha },
+    includePaths,
+    excludePaths,
+    includeSubjects,
+    excludeSubjects,
+    includeAuthors: debugSink.includeAuthors,
+    excludeAuthors: debugSink.excludeAuthors,
+    issues: issueReferences.map((ref) => ref.identifier),
+    revertedIssues: revertedIssueReferences.map((ref) => ref.identifier),
+    pullRequests: prNumbers,
+    commits: commits
+      .filter((commit) => inspected.has(commit.sha))
+      .map((commit) => ({
+        sha: commit.sha,
+        subject: getCommitSubject(commit.message),
+        branchName: commit.branchName ?? null,
+        issues: identifiersForSha(debugSink.issues, commit.sha),
+        revertedIssues: identifiersForSha(debugSink.revertedIssues, commit.sha),
+        pullRequests: debugSink.pullRequests.filter((pr) => pr.sha === commit.sha).map((pr) => pr.number),
+      })),
+    skippedCommits: debugSink.skippedCommits.map(({ sha, marker }) => ({
+      sha,
+      subject: getCommitSubject(commits.find((commit) => commit.sha === sha)?.message),
+      marker,
+    })),
+    excludedIssues: Object.keys(debugSink.excludedIssues),
+  };
+}
+
+function identifiersForSha(sources: DebugSink["issues"], sha: string): string[] {
+  return Object.entries(sources)
+    .filter(([, entries]) => entries.some((entry) => entry.sha === sha))
+    .map(([identifier]) => identifier);
+}
+
+const MAX_SUBJECT_WIDTH = 60;
+
+/** Renders a preview as a per-commit table followed by the release totals. */
+export function formatPreviewTable(preview: Preview): string {
+  const lines: string[] = [];
+  const commitCount = `${preview.commits.length} ${pluralize(preview.commits.length, "commit")}`;
+  lines.push(
+    `Range ${preview.base.ref}..${preview.head.ref} (${preview.base.sha.slice(0, 7)}..${preview.head.sha.slice(0, 7)}): ${commitCount}`,
+  );
+  if (preview.includePaths) lines.push(`Include paths: ${preview.includePaths.join(", ")}`);
+  if (preview.excludePaths) lines.push(`Exclude paths: ${preview.excludePaths.join(", ")}`);
+  if (preview.includeSubjects) lines.push(`Include subjects: ${preview.includeSubjects}`);
+  if (preview.excludeSubjects) lines.push(`Exclude subjects: ${preview.excludeSubjects}`);
+  if (preview.includeAuthors) lines.push(`Include authors: ${preview.includeAuthors.join(", ")}`);
+  if (preview.excludeAuthors) lines.push(`Exclude authors: ${preview.excludeAuthors.join(", ")}`);
+
+  if (preview.commits.length > 0) {
+    const rows = [
+      ["SHA", "SUBJECT", "ISSUES", "REVERTED", "PRS"],
+      ...preview.commits.map((commit) => [
+        commit.sha.slice(0, 7),
+        commit.subject.length > MAX_SUBJECT_WIDTH
+          ? `${commit.subject.slice(0, MAX_SUBJECT_WIDTH - 1)}…`
+          : commit.subject,
+        commit.issues.join(", ") || "-",
+        commit.revertedIssues.join(", ") || "-",
+        commit.pullRequests.map((n) => `#${n}`).join(", ") || "-",
+      ]),
+    ];
+    const widths = rows[0]!.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)));
+    lines.push("");
+    for (const row of rows) {
+      lines.push(
+        row
+          .map((cell, column) => cell.padEnd(widths[column]!))
+          .join("  ")
+          .trimEnd(),
+      );
+    }
+  }
+
+  if (preview.skippedCommits.length > 0) {
+    lines.push("");
+    for (const commit of preview.skippedCommits) {
+      lines.push(`Skipped ${commit.sha.slice(0, 7)} ${commit.subject} (${commit.marker})`);
+    }
+  }
+
+  lines.push("");
+  if (preview.excludedIssues.length > 0) {
+    lines.push(`Excluded issues: ${preview.excludedIssues.join(", ")}`);
+  }
+  lines.push(`Issues: ${preview.issues.join(", ") || "none"}`);
+  lines.push(`Reverted issues: ${preview.revertedIssues.join(", ") || "none"}`);
+  lines.push(`Pull requests: ${preview.pullRequests.map((n) => `#${n}`).join(", ") || "none"}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,63 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseCLIArgs } from "./args";
+import { resolveReleaseIdentity } from "./release-identity";
+
+function runGit(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim();
+}
+
+function createRepo(cwd: string, version: string): string {
+  mkdirSync(cwd, { recursive: true });
+  runGit(["init", "-q", "-b", "main"], cwd);
+  runGit(["config", "user.email", "test@example.com"], cwd);
+  runGit(["config", "user.name", "Test User"], cwd);
+  writeFileSync(join(cwd, "package.json"), JSON.stringify({ name: "app", version }));
+  runGit(["add", "."], cwd);
+  runGit(["commit", "-q", "-m", `release ${version}`], cwd);
+  runGit(["tag", `v${version}`], cwd);
+  return runGit(["rev-parse", "HEAD"], cwd);
+}
+
+describe("resolveReleaseIdentity", () => {
+  let root: string;
+  let webHead: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), "linear-release-identity-"));
+    webHead = createRepo(join(root, "web"), "1.3.0");
+    createRepo(join(root, "ops"), "9.9.9");
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("renders a sync with --repo-path from the primary repository, not the working directory", () => {
+    const args = parseCLIArgs(
+      ["sync", "--repo-path=../web", "--name=web {{tag}} ({{shortSha}})", "--version-from=package.json"],
+      { cwd: join(root, "ops") },
+    );
+
+    const identity = resolveReleaseIdentity(
+      { name: args.releaseName, version: args.releaseVersion },
+      { repoPath: args.repoPaths[0], profile: null, versionFrom: args.versionFrom },
+    );
+
+    expect(identity.releaseName).toBe(`web v1.3.0 (${webHead.slice(0, 7)})`);
+    expect(identity.releaseVersion).toBe("1.3.0");
+    expect(identity.versionOrigin).toBe(join(root, "web", "package.json"));
+  });
+
+  it("prefers an explicit version over --version-from", () => {
+    const identity = resolveReleaseIdentity(
+      { version: "{{package.version}}-hotfix" },
+      { repoPath: join(root, "web"), profile: "web", versionFrom: "tag" },
+    );
+
+    expect(identity).toEqual({ releaseName: undefined, releaseVersion: "1.3.0-hotfix" });
+  });
+});
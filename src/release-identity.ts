@@ -0,0 +1,47 @@
+import { resolve } from "node:path";
+import { resolveReleaseVersion, VersionSource } from "./release-version";
+import { createReleaseTemplateResolvers, renderTemplate } from "./template";
+
+/**
+ * Renders `{{placeholder}}` templates in the release name and version. Without
+ * an explicit version, `--version-from` derives one from a tag or manifest.
+ *
+ * Git and manifest placeholders read the primary repository, whose commit is
+ * the one the release records, not the working directory.
+ *
+ * @param options.repoPath - The first `--repo-path`; defaults to the working directory
+ * @param options.commit - The `--to` commit; defaults to the repository's HEAD
+ * @param options.versionFile - `--version-file`, relative to the working directory
+ */
+export function resolveReleaseIdentity(
+  templates: { name?: string; version?: string },
+  options: {
+    repoPath?: string;
+    commit?: string;
+    profile: string | null;
+    versionFrom?: VersionSource;
+    versionTagPattern?: string;
+    versionFile?: string;
+  },
+): { releaseName?: string; releaseVersion?: string; versionOrigin?: string } {
+  const { profile, commit } = options;
+  const cwd = options.repoPath ?? process.cwd();
+  const resolvers = createReleaseTemplateResolvers({ cwd, profile, commit });
+  const labelPrefix = profile ? `profile "${profile}" ` : "";
+  const releaseName =
+    templates.name === undefined ? undefined : renderTemplate(templates.name, resolvers, `${labelPrefix}--name`);
+  if (templates.version !== undefined || !options.versionFrom) {
+    const releaseVersion =
+      templates.version === undefined
+        ? undefined
+        : renderTemplate(templates.version, resolvers, `${labelPrefix}--release-version`);
+    return { releaseName, releaseVersion };
+  }
+  const derived = resolveReleaseVersion(options.versionFrom, {
+    tagPattern: options.versionTagPattern,
+    ref: commit,
+    path: options.versionFile === undefined ? undefined : resolve(options.versionFile),
+    cwd,
+  });
+  return { releaseName, releaseVersion: derived.version, versionOrigin: derived.origin };
+}
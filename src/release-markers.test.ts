@@ -0,0 +1,118 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { readGitNote } from "./git";
+import { mergeReleaseNote, RELEASE_NOTES_REF, writeReleaseMarkers } from "./release-markers";
+
+const release = {
+  id: "r1",
+  name: "Release 1.2.0",
+  version: "1.2.0",
+  url: "https://linear.app/r1",
+  stage: "Production",
+};
+
+describe("mergeReleaseNote", () => {
+  it("formats the release as trailer-style lines", () => {
+    expect(mergeReleaseNote(null, release)).toBe(
+      [
+        "Linear-Release: Release 1.2.0",
+        "Linear-Release-Id: r1",
+        "Linear-Release-Version: 1.2.0",
+        "Linear-Release-Url: https://linear.app/r1",
+        "Linear-Release-Stage: Production",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps other releases' blocks and replaces the same release's", () => {
+    const other = mergeReleaseNote(null, { id: "r9", name: "Mobile 3.0" });
+    const first = mergeReleaseNote(other, { ...release, stage: "Staging" });
+    const updated = mergeReleaseNote(first, release);
+
+    expect(updated.split("\n\n")).toHaveLength(2);
+    expect(updated).toContain("Linear-Release: Mobile 3.0");
+    expect(updated).toContain("Linear-Release-Stage: Production");
+    expect(updated).not.toContain("Staging");
+  });
+});
+
+describe("writeReleaseMarkers", () => {
+  let root: string;
+  let repo: string;
+  let remote: string;
+  let sha: string;
+
+  const git = (args: string[], cwd = repo) =>
+    execFileSync("git", args, { cwd, stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim();
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "linear-release-markers-"));
+    remote = join(root, "remote.git");
+    repo = join(root, "repo");
+    git(["init", "-q", "--bare", remote], root);
+    git(["init", "-q", repo], root);
+    git(["config", "user.email", "test@example.com"]);
+    git(["config", "user.name", "Test User"]);
+    git(["remote", "add", "origin", remote]);
+    writeFileSync(join(repo, "a.txt"), "a");
+    git(["add", "."]);
+    git(["commit", "-q", "-m", "ENG-1 first"]);
+    sha = git(["rev-parse", "HEAD"]);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("adds a note and a tag rendered from the release", () => {
+    const { tag } = writeReleaseMarkers(
+      release,
+      sha,
+      { gitNotes: true, tagTemplate: "linear/{{release.version}}", push: false, resolvers: {} },
+      repo,
+    );
+
+    expect(tag).toBe("linear/1.2.0");
+    expect(git(["rev-parse", "linear/1.2.0^{commit}"])).toBe(sha);
+    expect(readGitNote(sha, RELEASE_NOTES_REF, repo)).toContain("Linear-Release-Id: r1");
+    expect(git(["log", "-1", "--notes=linear-release", "--format=%N"])).toContain("Linear-Release: Release 1.2.0");
+  });
+
+  it("pushes the note and tag to origin, merging notes already there", () => {
+    const clone = join(root, "clone");
+    git(["push", "-q", "origin", "HEAD:refs/heads/main"]);
+    git(["clone", "-q", remote, clone], root);
+    writeReleaseMarkers({ id: "r9", name: "Mobile 3.0" }, sha, { gitNotes: true, push: true, resolvers: {} }, clone);
+
+    writeReleaseMarkers(
+      release,
+      sha,
+      { gitNotes: true, tagTemplate: "v{{release.version}}", push: true, resolvers: {} },
+      repo,
+    );
+
+    expect(git(["rev-parse", "refs/tags/v1.2.0"], remote)).toBe(sha);
+    const note = git(["notes", `--ref=${RELEASE_NOTES_REF}`, "show", sha], remote);
+    expect(note).toContain("Linear-Release: Mobile 3.0");
+    expect(note).toContain("Linear-Release: Release 1.2.0");
+  });
+
+  it("leaves an existing tag alone and rejects invalid tag names", () => {
+    writeFileSync(join(repo, "b.txt"), "b");
+    git(["add", "."]);
+    git(["commit", "-q", "-m", "second"]);
+    git(["tag", "v1.2.0"]);
+    const options = { gitNotes: false, push: false, resolvers: {} };
+
+    expect(() => writeReleaseMarkers(release, sha, { ...options, tagTemplate: "v{{release.version}}" }, repo)).toThrow(
+      "tag v1.2.0 already exists",
+    );
+    expect(() => writeReleaseMarkers(release, sha, { ...options, tagTemplate: "{{release.name}}" }, repo)).toThrow(
+      '--tag-release rendered "Release 1.2.0", which is not a valid tag name',
+    );
+  });
+});
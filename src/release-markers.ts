@@ -0,0 +1,105 @@
+import { createLightweightTag, fetchRef, isValidTagName, pushRefs, readGitNote, writeGitNote } from "./git";
+import { info, verbose } from "./log";
+import { PlaceholderResolver, renderTemplate } from "./template";
+
+/** Where `--write-git-notes` attaches release notes; `git log --notes=linear-release` shows them. */
+export const RELEASE_NOTES_REF = "refs/notes/linear-release";
+
+/** The release fields a marker records. */
+export type MarkedRelease = {
+  id: string;
+  name: string;
+  version?: string;
+  url?: string;
+  stage?: string | null;
+};
+
+/** One release as `Key: value` lines, the block a git note holds per release. */
+export function formatReleaseNoteBlock(release: MarkedRelease): string {
+  const lines = [`Linear-Release: ${release.name}`, `Linear-Release-Id: ${release.id}`];
+  if (release.version) lines.push(`Linear-Release-Version: ${release.version}`);
+  if (release.url) lines.push(`Linear-Release-Url: ${release.url}`);
+  if (release.stage) lines.push(`Linear-Release-Stage: ${release.stage}`);
+  return lines.join("\n");
+}
+
+/**
+ * Adds the release's block to a commit's existing note. A commit can ship in
+ * several releases (one per pipeline), so other releases' blocks are kept and
+ * only an earlier block for the same release id is replaced.
+ */
+export function mergeReleaseNote(existing: string | null, release: MarkedRelease): string {
+  const idLine = `Linear-Release-Id: ${release.id}`;
+  const blocks = (existing ?? "")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block && !block.split("\n").includes(idLine));
+  return `${[...blocks, formatReleaseNoteBlock(release)].join("\n\n")}\n`;
+}
+
+/** `--tag-release` placeholders: the release name ones, plus the synced release's own fields. */
+export function createTagResolvers(
+  resolvers: Record<string, PlaceholderResolver>,
+  release: MarkedRelease,
+): Record<string, PlaceholderResolver> {
+  return {
+    ...resolvers,
+    "release.name": () => release.name,
+    "release.version": () => {
+      if (!release.version) throw new Error("the release has no version");
+      return release.version;
+    },
+    "release.id": () => release.id,
+  };
+}
+
+/**
+ * Records `release` on `sha` in the repository at `cwd`: a note under
+ * `RELEASE_NOTES_REF` and/or a lightweight tag named by `tagTemplate`. With
+ * `push`, the remote's notes are fetched first so they're merged rather than
+ * overwritten, and both refs are pushed to `origin`. Throws on failure.
+ *
+ * @returns The tag name, when one was requested
+ */
+export function writeReleaseMarkers(
+  release: MarkedRelease,
+  sha: string,
+  options: {
+    gitNotes: boolean;
+    tagTemplate?: string;
+    push: boolean;
+    resolvers: Record<string, PlaceholderResolver>;
+  },
+  cwd: string = process.cwd(),
+): { tag: string | null } {
+  const refs: string[] = [];
+
+  if (options.gitNotes) {
+    if (options.push && !fetchRef(RELEASE_NOTES_REF, "origin", cwd)) {
+      verbose(`origin has no ${RELEASE_NOTES_REF} yet`);
+    }
+    writeGitNote(sha, mergeReleaseNote(readGitNote(sha, RELEASE_NOTES_REF, cwd), release), RELEASE_NOTES_REF, cwd);
+    info(`Added a git note for release ${release.name} to ${sha.slice(0, 7)} (${RELEASE_NOTES_REF})`);
+    refs.push(RELEASE_NOTES_REF);
+  }
+
+  let tag: string | null = null;
+  if (options.tagTemplate !== undefined) {
+    tag = renderTemplate(options.tagTemplate, createTagResolvers(options.resolvers, release), "--tag-release");
+    if (!isValidTagName(tag, cwd)) {
+      throw new Error(`--tag-release rendered "${tag}", which is not a valid tag name`);
+    }
+    if (createLightweightTag(sha, tag, cwd) === "created") {
+      info(`Tagged ${sha.slice(0, 7)} as ${tag}`);
+    } else {
+      verbose(`Tag ${tag} already points at ${sha.slice(0, 7)}`);
+    }
+    refs.push(`refs/tags/${tag}`);
+  }
+
+  if (options.push && refs.length > 0) {
+    pushRefs(refs, "origin", cwd);
+    info(`Pushed ${refs.join(", ")} to origin`);
+  }
+  return { tag };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { generateReleaseNotes, parseConventionalSubject } from "./release-notes";
+import { scanCommits } from "./scan";
+import { DEFAULT_TRAILER_KEYS } from "./trailers";
+import { CommitContext } from "./types";
+
+function notesFor(commits: CommitContext[], includeSubjects: string | null = null): string {
+  return generateReleaseNotes(
+    commits,
+    scanCommits(commits, { includeSubjects, trailers: DEFAULT_TRAILER_KEYS }).debugSink,
+  );
+}
+
+describe("parseConventionalSubject", () => {
+  it("parses type, scope, and breaking marker", () => {
+    expect(parseConventionalSubject("feat(api)!: drop v1 endpoints")).toEqual({
+      type: "feat",
+      scope: "api",
+      breaking: true,
+      description: "drop v1 endpoints",
+    });
+    expect(parseConventionalSubject("Fix: typo")).toEqual({
+      type: "fix",
+      scope: null,
+      breaking: false,
+      description: "typo",
+    });
+  });
+
+  it("returns a null type for non-conventional subjects", () => {
+    expect(parseConventionalSubject("Update README")).toEqual({
+      type: null,
+      scope: null,
+      breaking: false,
+      description: "Update README",
+    });
+  });
+});
+
+describe("generateReleaseNotes", () => {
+  it("groups commits by type, newest first, with issues and pull requests", () => {
+    // Oldest first, as scanCommits expects
+    const commits: CommitContext[] = [
+      { sha: "c1", message: "fix(web): handle empty cart (#12)\n\nFixes ENG-1" },
+      { sha: "c2", message: "feat: add checkout (#13)\n\nCloses ENG-2" },
+      { sha: "c3", message: "chore: bump deps" },
+      { sha: "c4", branchName: "eng-3-search", message: "feat(search): fuzzy matching" },
+      { sha: "c5", message: "Update README" },
+    ];
+    expect(notesFor(commits)).toBe(
+      [
+        "### Features",
+        "",
+        "- **search:** fuzzy matching (ENG-3)",
+        "- add checkout (ENG-2) (#13)",
+        "",
+        "### Bug Fixes",
+        "",
+        "- **web:** handle empty cart (ENG-1) (#12)",
+        "",
+        "### Chores",
+        "",
+        "- bump deps",
+        "",
+        "### Other Changes",
+        "",
+        "- Update README",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("puts breaking changes first", () => {
+    const commits: CommitContext[] = [
+      { sha: "c1", message: "feat: new flag" },
+      { sha: "c2", message: "refactor: rename config\n\nBREAKING CHANGE: config keys are camelCase" },
+      { sha: "c3", message: "feat(api)!: drop v1" },
+    ];
+    expect(notesFor(commits)).toBe(
+      [
+        "### Breaking Changes",
+        "",
+        "- **api:** drop v1",
+        "- rename config",
+        "",
+        "### Features",
+        "",
+        "- new flag",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("lists reverts with the issues they revert", () => {
+    const commits: CommitContext[] = [
+      { sha: "c1", branchName: "eng-7-search", message: "feat: search" },
+      { sha: "c2", branchName: "revert-5-eng-7-search", message: 'Revert "feat: search"' },
+    ];
+    expect(notesFor(commits)).toContain('### Reverts\n\n- Revert "feat: search" (ENG-7)');
+  });
+
+  it("leaves out issues an exclude trailer keeps out of the release", () => {
+    const commits: CommitContext[] = [
+      { sha: "c1", message: "feat: search\n\nFixes: ENG-12\nNot-Released: ENG-13\nRefs: ENG-13" },
+      { sha: "c2", message: "fix: search paging\n\nRefs: ENG-13" },
+    ];
+    expect(notesFor(commits)).toBe("### Features\n\n- search (ENG-12)\n\n### Bug Fixes\n\n- search paging\n");
+  });
+
+  it("keeps an excluded issue whose last mention reverts it", () => {
+    const commits: CommitContext[] = [
+      { sha: "c1", branchName: "eng-7-search", message: "feat: search\n\nNot-Released: ENG-7" },
+      { sha: "c2", branchName: "revert-5-eng-7-search", message: 'Revert "feat: search"' },
+    ];
+    expect(notesFor(commits)).toContain('- Revert "feat: search" (ENG-7)');
+  });
+
+  it("leaves out merge commits", () => {
+    const commits: CommitContext[] = [
+      { sha: "c1", parents: ["c0"], message: "feat: search\n\nFixes ENG-1" },
+      { sha: "c2", parents: ["c0", "c1"], message: "Merge pull request #14 from acme/search" },
+      { sha: "c3", parents: ["c2", "c1"], message: "Merge branch 'main' into release" },
+    ];
+    expect(notesFor(commits)).toBe("### Features\n\n- search (ENG-1)\n");
+  });
+
+  it("skips commits filtered out by --include-subjects", () => {
+    const commits: CommitContext[] = [
+      { sha: "c1", message: "feat: kept\n\nFixes ENG-1" },
+      { sha: "c2", message: "feat: dropped" },
+    ];
+    expect(notesFor(commits, "kept")).toBe("### Features\n\n- kept (ENG-1)\n");
+  });
+
+  it("reports no changes for an empty scan", () => {
+    expect(notesFor([])).toBe("No changes.\n");
+  });
+});
@@ -0,0 +1,130 @@
+import { getEffectiveSubject, getRevertMessageDepth } from "./extractors";
+import { CommitContext, DebugSink } from "./types";
+
+/**
+ * Section headings in output order. Types not listed here (and subjects that
+ * aren't conventional commits at all) land under "Other Changes".
+ */
+const SECTIONS: { title: string; types: string[] }[] = [
+  { title: "Features", types: ["feat", "feature"] },
+  { title: "Bug Fixes", types: ["fix", "bugfix"] },
+  { title: "Performance", types: ["perf"] },
+  { title: "Reverts", types: ["revert"] },
+  { title: "Refactoring", types: ["refactor"] },
+  { title: "Documentation", types: ["docs"] },
+  { title: "Styles", types: ["style"] },
+  { title: "Tests", types: ["test", "tests"] },
+  { title: "Build System", types: ["build", "deps"] },
+  { title: "Continuous Integration", types: ["ci"] },
+  { title: "Chores", types: ["chore"] },
+];
+const BREAKING_TITLE = "Breaking Changes";
+const OTHER_TITLE = "Other Changes";
+
+const CONVENTIONAL_SUBJECT_RE = /^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/;
+const BREAKING_FOOTER_RE = /^BREAKING[ -]CHANGE:\s/m;
+// GitHub's squash-merge `(#123)` suffix; the PR number is appended from the scan instead.
+const SQUASH_PR_SUFFIX_RE = /\s*\(#\d+\)$/;
+
+export type ConventionalSubject = {
+  type: string | null;
+  scope: string | null;
+  breaking: boolean;
+  description: string;
+};
+
+/**
+ * Parses `type(scope)!: description`. Non-conventional subjects come back with
+ * a null type and the whole subject as the description.
+ */
+export function parseConventionalSubject(subject: string): ConventionalSubject {
+  const match = subject.trim().match(CONVENTIONAL_SUBJECT_RE);
+  if (!match) {
+    return { type: null, scope: null, breaking: false, description: subject.trim() };
+  }
+  const [, type, scope, bang, description] = match;
+  return { type: type!.toLowerCase(), scope: scope?.trim() || null, breaking: bang === "!", description: description! };
+}
+
+/**
+ * Builds markdown release notes from scanned commits, grouped by
+ * conventional-commit type. Each entry lists the Linear issues and pull
+ * requests `scanCommits` attributed to that commit, except issues an exclude
+ * trailer kept out of the release. Only commits recorded in
+ * `debugSink.inspectedShas` (i.e. that passed the subject filter) are listed,
+ * and merge commits are left out.
+ *
+ * @param commits - Commits in chronological order, as passed to `scanCommits`
+ */
+export function generateReleaseNotes(commits: CommitContext[], debugSink: DebugSink): string {
+  // An exclude trailer keeps an issue out of the release unless its last
+  // mention reverts it, so the notes leave it out the same way.
+  const positions = new Map(commits.map((commit, index) => [commit.sha, index]));
+  const lastPosition = (sources: { sha: string }[] = []) =>
+    Math.max(-1, ...sources.map(({ sha }) => positions.get(sha) ?? -1));
+  const heldBack = new Set(
+    Object.keys(debugSink.excludedIssues).filter(
+      (identifier) => lastPosition(debugSink.issues[identifier]) >= lastPosition(debugSink.revertedIssues[identifier]),
+    ),
+  );
+
+  // Reverts list the issues they pull back out alongside any they reference themselves.
+  const issuesBySha = new Map<string, string[]>();
+  for (const issues of [debugSink.revertedIssues, debugSink.issues]) {
+    for (const [identifier, sources] of Object.entries(issues)) {
+      if (heldBack.has(identifier)) continue;
+      for (const { sha } of sources) {
+        const list = issuesBySha.get(sha) ?? [];
+        if (!list.includes(identifier)) list.push(identifier);
+        issuesBySha.set(sha, list);
+      }
+    }
+  }
+  const pullRequestsBySha = new Map<string, number[]>();
+  for (const { sha, number } of debugSink.pullRequests) {
+    pullRequestsBySha.set(sha, [...(pullRequestsBySha.get(sha) ?? []), number]);
+  }
+
+  const inspected = new Set(debugSink.inspectedShas);
+  const sections = new Map<string, string[]>();
+  // Newest first, the usual changelog order.
+  for (const commit of [...commits].reverse()) {
+    if (!inspected.has(commit.sha)) continue;
+    // The commits a merge brings in have entries of their own.
+    if ((commit.parents?.length ?? 0) > 1) continue;
+    const message = commit.message ?? "";
+    // Odd depth = revert; a revert of a revert re-lands the original change.
+    const isRevert = getRevertMessageDepth(message) % 2 === 1;
+    const subject = getEffectiveSubject(message);
+    const parsed = parseConventionalSubject(subject);
+    const breaking = !isRevert && (parsed.breaking || BREAKING_FOOTER_RE.test(message));
+
+    let title: string;
+    if (breaking) {
+      title = BREAKING_TITLE;
+    } else if (isRevert) {
+      title = "Reverts";
+    } else {
+      title = SECTIONS.find((section) => parsed.type && section.types.includes(parsed.type))?.title ?? OTHER_TITLE;
+    }
+
+    let line = isRevert
+      ? `- Revert "${subject}"`
+      : `- ${parsed.scope ? `**${parsed.scope}:** ` : ""}${parsed.description.replace(SQUASH_PR_SUFFIX_RE, "")}`;
+    const issues = issuesBySha.get(commit.sha) ?? [];
+    if (issues.length > 0) line += ` (${issues.join(", ")})`;
+    const pullRequests = pullRequestsBySha.get(commit.sha) ?? [];
+    if (pullRequests.length > 0) line += ` (${pullRequests.map((n) => `#${n}`).join(", ")})`;
+
+    sections.set(title, [...(sections.get(title) ?? []), line]);
+  }
+
+  if (sections.size === 0) {
+    return "No changes.\n";
+  }
+  const order = [BREAKING_TITLE, ...SECTIONS.map((section) => section.title), OTHER_TITLE];
+  return `${order
+    .filter((title) => sections.has(title))
+    .map((title) => `### ${title}\n\n${sections.get(title)!.join("\n")}`)
+    .join("\n\n")}\n`;
+}
@@ -0,0 +1,124 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { readManifestVersion, resolveReleaseVersion, versionFromTag } from "./release-version";
+
+function runGit(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim();
+}
+
+describe("versionFromTag", () => {
+  it("strips a leading v before a digit", () => {
+    expect(versionFromTag("v1.2.3")).toBe("1.2.3");
+    expect(versionFromTag("1.2.3")).toBe("1.2.3");
+    expect(versionFromTag("very-important")).toBe("very-important");
+  });
+
+  it("strips the literal prefix of the tag pattern", () => {
+    expect(versionFromTag("web-v1.2.3", "web-v*")).toBe("1.2.3");
+    expect(versionFromTag("web/2.0.0", "web/*")).toBe("2.0.0");
+  });
+
+  it("keeps the tag when it doesn't start with the pattern prefix", () => {
+    expect(versionFromTag("api-v1.0.0", "web-v*")).toBe("api-v1.0.0");
+  });
+});
+
+describe("readManifestVersion", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "linear-release-manifest-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  }
+
+  it("reads package.json", () => {
+    expect(readManifestVersion("package.json", write("package.json", '{"version":"1.2.3"}'))).toBe("1.2.3");
+  });
+
+  it("reads [package] version from Cargo.toml, ignoring other sections", () => {
+    const path = write(
+      "Cargo.toml",
+      ["[dependencies]", 'serde = { version = "1" }', "", "[package]", 'name = "app"', 'version = "0.4.1" # bump'].join(
+        "\n",
+      ),
+    );
+    expect(readManifestVersion("Cargo.toml", path)).toBe("0.4.1");
+  });
+
+  it("falls back to [workspace.package] in a Cargo workspace root", () => {
+    const path = write("Cargo.toml", ["[workspace.package]", 'version = "2.0.0"'].join("\n"));
+    expect(readManifestVersion("Cargo.toml", path)).toBe("2.0.0");
+  });
+
+  it("reads [project] or [tool.poetry] version from pyproject.toml", () => {
+    expect(readManifestVersion("pyproject", write("a.toml", "[project]\nversion = '3.1.0'\n"))).toBe("3.1.0");
+    expect(readManifestVersion("pyproject", write("b.toml", '[tool.poetry]\nversion = "3.2.0"\n'))).toBe("3.2.0");
+  });
+
+  it("reads a trimmed VERSION file", () => {
+    expect(readManifestVersion("VERSION", write("VERSION", "  4.5.6\n"))).toBe("4.5.6");
+  });
+
+  it("throws when the manifest has no version", () => {
+    const path = write("pyproject.toml", '[project]\ndynamic = ["version"]\n');
+    expect(() => readManifestVersion("pyproject", path)).toThrow(`${path} has no version`);
+  });
+
+  it("throws when the manifest is missing", () => {
+    expect(() => readManifestVersion("VERSION", join(dir, "VERSION"))).toThrow(/Could not read/);
+  });
+});
+
+describe("resolveReleaseVersion", () => {
+  let cwd: string;
+
+  beforeAll(() => {
+    cwd = mkdtempSync(join(tmpdir(), "linear-release-version-"));
+    runGit(["init", "-q"], cwd);
+    runGit(["config", "user.email", "test@example.com"], cwd);
+    runGit(["config", "user.name", "Test User"], cwd);
+    writeFileSync(join(cwd, "VERSION"), "9.9.9\n");
+    runGit(["add", "."], cwd);
+    runGit(["commit", "-q", "-m", "one"], cwd);
+    runGit(["tag", "web-v1.0.0"], cwd);
+    runGit(["commit", "-q", "--allow-empty", "-m", "two"], cwd);
+    runGit(["tag", "api-v2.0.0"], cwd);
+  });
+
+  afterAll(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("uses the nearest tag matching the pattern", () => {
+    expect(resolveReleaseVersion("tag", { tagPattern: "web-v*", cwd })).toEqual({
+      version: "1.0.0",
+      origin: "tag web-v1.0.0",
+    });
+  });
+
+  it("uses the nearest tag of any name without a pattern", () => {
+    expect(resolveReleaseVersion("tag", { cwd }).version).toBe("api-v2.0.0");
+  });
+
+  it("throws when no tag matches", () => {
+    expect(() => resolveReleaseVersion("tag", { tagPattern: "mobile-*", cwd })).toThrow(
+      'No tag matching "mobile-*" is reachable from HEAD',
+    );
+  });
+
+  it("reads the standard manifest name relative to cwd", () => {
+    expect(resolveReleaseVersion("VERSION", { cwd })).toEqual({ version: "9.9.9", origin: join(cwd, "VERSION") });
+  });
+});
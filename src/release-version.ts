@@ -0,0 +1,134 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getNearestTag } from "./git";
+
+export const VERSION_SOURCES = ["tag", "package.json", "Cargo.toml", "pyproject", "VERSION"] as const;
+
+/** Where `--version-from` reads the release version. */
+export type VersionSource = (typeof VERSION_SOURCES)[number];
+
+export type ManifestVersionSource = Exclude<VersionSource, "tag">;
+
+const DEFAULT_MANIFEST_PATHS: Record<ManifestVersionSource, string> = {
+  "package.json": "package.json",
+  "Cargo.toml": "Cargo.toml",
+  pyproject: "pyproject.toml",
+  VERSION: "VERSION",
+};
+
+export function isVersionSource(value: string): value is VersionSource {
+  return (VERSION_SOURCES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the release version from the nearest matching tag or a manifest.
+ * Returns the version and a short description of where it came from, for logs.
+ *
+ * @param options.tagPattern - Glob passed to `git describe --match` (source `tag` only)
+ * @param options.ref - Commit the tag must be reachable from (source `tag` only); defaults to HEAD
+ * @param options.path - Manifest path relative to `cwd` (manifest sources only)
+ */
+export function resolveReleaseVersion(
+  source: VersionSource,
+  options: { tagPattern?: string; ref?: string; path?: string; cwd?: string } = {},
+): { version: string; origin: string } {
+  const { tagPattern, ref = "HEAD", path, cwd = process.cwd() } = options;
+  if (source === "tag") {
+    const tag = getNearestTag(tagPattern, ref, cwd);
+    if (!tag) {
+      throw new Error(
+        tagPattern ? `No tag matching "${tagPattern}" is reachable from ${ref}` : `No tag is reachable from ${ref}`,
+      );
+    }
+    return { version: versionFromTag(tag, tagPattern), origin: `tag ${tag}` };
+  }
+  const manifestPath = resolve(cwd, path ?? DEFAULT_MANIFEST_PATHS[source]);
+  return { version: readManifestVersion(source, manifestPath), origin: manifestPath };
+}
+
+/**
+ * Turns a tag into a version: strips the tag pattern's literal prefix (the
+ * part before its first glob character, e.g. `web-v` for `web-v*`), then a
+ * leading `v` before a digit. `web-v1.2.3` → `1.2.3`, `v2.0.0` → `2.0.0`.
+ */
+export function versionFromTag(tag: string, tagPattern?: string): string {
+  const prefix = tagPattern ? tagPattern.split(/[*?[]/)[0]! : "";
+  const withoutPrefix = prefix && tag.startsWith(prefix) && tag.length > prefix.length ? tag.slice(prefix.length) : tag;
+  return withoutPrefix.replace(/^v(?=\d)/i, "");
+}
+
+/** Reads the version field from a manifest. Throws naming the file when it's missing or has no version. */
+export function readManifestVersion(source: ManifestVersionSource, path: string): string {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf8");
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new Error(`Could not read ${path}: ${reason}`);
+  }
+  return parseManifestVersion(source, content, path);
+}
+
+/**
+ * The version field of manifest `content`. `path` names the manifest in
+ * errors; throws when it can't be parsed or has no version.
+ */
+export function parseManifestVersion(source: ManifestVersionSource, content: string, path: string): string {
+  let version: string | null;
+  switch (source) {
+    case "package.json":
+      version = readPackageJsonVersion(content, path);
+      break;
+    case "Cargo.toml":
+      // A workspace root declares the version shared by its members under [workspace.package].
+      version =
+        readTomlString(content, "package", "version") ?? readTomlString(content, "workspace.package", "version");
+      break;
+    case "pyproject":
+      version = readTomlString(content, "project", "version") ?? readTomlString(content, "tool.poetry", "version");
+      break;
+    case "VERSION":
+      version = content.trim() || null;
+      break;
+  }
+  if (!version) {
+    throw new Error(`${path} has no version`);
+  }
+  return version;
+}
+
+function readPackageJsonVersion(content: string, path: string): string | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new Error(`Could not parse ${path}: ${reason}`);
+  }
+  const version = (parsed as { version?: unknown } | null)?.version;
+  return typeof version === "string" && version ? version : null;
+}
+
+/**
+ * Reads a quoted string `key = "value"` from one `[section]` of a TOML file.
+ * Deliberately minimal — manifests only need this one lookup, and dynamic or
+ * inherited versions (`version.workspace = true`, `dynamic = ["version"]`)
+ * can't be resolved statically anyway.
+ */
+function readTomlString(content: string, section: string, key: string): string | null {
+  let current: string | null = null;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, "").trim();
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      current = header[1]!.trim();
+      continue;
+    }
+    if (current !== section) continue;
+    const match = line.match(/^([\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')$/);
+    if (match && match[1] === key) {
+      return match[2] ?? match[3] ?? null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,117 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import type { BackfillEntry } from "./backfill";
+import { createCommandResult, RESULT_SCHEMA_VERSION, ScanSummary } from "./result";
+
+const scan: ScanSummary = {
+  range: { from: "a".repeat(40), to: "b".repeat(40) },
+  baseKind: "release",
+  baseRef: null,
+  releasesSearched: 1,
+  firstSync: null,
+  commitCount: 2,
+  issues: [{ identifier: "ENG-1", commitSha: "b".repeat(40) }],
+  revertedIssues: [],
+  pullRequests: [12],
+  repositories: [
+    {
+      path: "/work/web",
+      url: "https://github.com/acme/web",
+      range: { from: "a".repeat(40), to: "b".repeat(40) },
+      baseKind: "release",
+      releasesSearched: 1,
+      commitCount: 2,
+      issues: [{ identifier: "ENG-1", commitSha: "b".repeat(40) }],
+      revertedIssues: [],
+      pullRequests: [12],
+    },
+  ],
+};
+
+const baseOptions = {
+  command: "sync" as const,
+  dryRun: false,
+  startedAt: new Date("2025-01-01T00:00:00.000Z"),
+  finishedAt: new Date("2025-01-01T00:00:01.250Z"),
+  links: [{ url: "https://ci.example.com/1", label: "CI" }],
+  documents: [{ title: "Runbook" }],
+  releaseNotes: true,
+};
+
+describe("createCommandResult", () => {
+  it("wraps the payload with version, timing, links, and document titles", () => {
+    const result = createCommandResult(baseOptions, { release: { id: "r1", name: "Release 1" }, scan });
+
+    expect(result).toEqual({
+      schemaVersion: RESULT_SCHEMA_VERSION,
+      command: "sync",
+      dryRun: false,
+      timing: { startedAt: "2025-01-01T00:00:00.000Z", durationMs: 1250 },
+      links: [{ url: "https://ci.example.com/1", label: "CI" }],
+      documents: ["Runbook"],
+      releaseNotes: true,
+      release: { id: "r1", name: "Release 1" },
+      scan,
+    });
+  });
+
+  it("passes profile results through", () => {
+    const result = createCommandResult(
+      { ...baseOptions, dryRun: true },
+      { profiles: [{ profile: "web", release: null, scan }] },
+    );
+
+    expect(result).toMatchObject({ dryRun: true, profiles: [{ profile: "web", release: null, scan }] });
+    expect(result).not.toHaveProperty("release");
+  });
+});
+
+describe("published schema", () => {
+  const schema = JSON.parse(
+    readFileSync(join(__dirname, "..", "schema", `result.v${RESULT_SCHEMA_VERSION}.json`), "utf8"),
+  );
+
+  it("matches the current schema version", () => {
+    expect(schema.properties.schemaVersion.const).toBe(RESULT_SCHEMA_VERSION);
+  });
+
+  it("requires every top-level field the result always carries", () => {
+    const result = createCommandResult(baseOptions, { release: null });
+    const alwaysPresent = Object.keys(result).filter((key) => key !== "release");
+
+    expect([...schema.required].sort()).toEqual(alwaysPresent.sort());
+  });
+
+  it("describes every backfill entry field", () => {
+    const entry: BackfillEntry = {
+      tag: "v1.1.0",
+      sha: "b".repeat(40),
+      from: "a".repeat(40),
+      name: "v1.1.0",
+      version: "1.1.0",
+      commitCount: 2,
+      issues: [],
+      revertedIssues: [],
+      pullRequests: [],
+      release: null,
+    };
+    const result = createCommandResult(
+      { ...baseOptions, command: "backfill" },
+      { backfill: { resumedAfter: null, releases: [entry] } },
+    );
+
+    expect(schema.properties.command.enum).toContain(result.command);
+    expect(Object.keys(schema.properties.backfill.properties).sort()).toEqual(
+      Object.keys((result as { backfill: object }).backfill).sort(),
+    );
+    expect(Object.keys(schema.$defs.backfillEntry.properties).sort()).toEqual(Object.keys(entry).sort());
+  });
+
+  it("describes every scan field", () => {
+    expect(Object.keys(schema.$defs.scan.properties).sort()).toEqual(Object.keys(scan).sort());
+    expect(Object.keys(schema.$defs.scan.properties.repositories.items.properties).sort()).toEqual(
+      Object.keys(scan.repositories![0]!).sort(),
+    );
+  });
+});
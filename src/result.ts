@@ -0,0 +1,104 @@
+import { ReleaseLink } from "./args";
+import type { BackfillEntry } from "./backfill";
+import { ScanBase } from "./scan-base";
+import { IssueReference } from "./types";
+
+/**
+ * Version of the `--json` result for sync, complete, update, and backfill, described by
+ * `schema/result.v<N>.json`. Adding optional fields or enum values (a new
+ * `command` or `baseKind`) keeps the version, so consumers should tolerate
+ * values they don't know; renaming, removing, or retyping a field needs a new
+ * version and schema file.
+ */
+export const RESULT_SCHEMA_VERSION = 1;
+
+export type ReleaseSummary = { id: string; name: string; version?: string; url?: string };
+
+/** What a sync scanned and found. Present even when no release was created. */
+export type ScanSummary = {
+  /** `from` is exclusive, `to` inclusive; equal when only the current commit was inspected. */
+  range: { from: string; to: string };
+  baseKind: ScanBase["kind"];
+  /** The `--base-ref` as given, when `baseKind` is `base-ref`. */
+  baseRef: string | null;
+  /** Recent releases checked for the scan base, across pages; null when it came from `--base-ref` or `--state-file`. */
+  releasesSearched: number | null;
+  /** The `--first-sync` strategy that chose the base, e.g. `merge-base:main`, when `baseKind` is `first-sync`. */
+  firstSync: string | null;
+  commitCount: number;
+  issues: IssueReference[];
+  revertedIssues: IssueReference[];
+  pullRequests: number[];
+  /** Per-repository scans when syncing more than one `--repo-path`; the fields above merge them. */
+  repositories?: RepositoryScanSummary[];
+};
+
+export type RepositoryScanSummary = {
+  path: string;
+  url: string | null;
+  range: { from: string; to: string };
+  baseKind: ScanBase["kind"];
+  releasesSearched: number | null;
+  commitCount: number;
+  issues: IssueReference[];
+  revertedIssues: IssueReference[];
+  pullRequests: number[];
+};
+
+export type ProfileResult = {
+  profile: string;
+  release: ReleaseSummary | null;
+  scan: ScanSummary | null;
+  error?: string;
+};
+
+/** What `backfill` replayed; `resumedAfter` is the newest tag that already had a release. */
+export type BackfillResult = {
+  resumedAfter: string | null;
+  releases: BackfillEntry[];
+};
+
+/** The command-specific part of a result: a release, per-profile results, or a backfill. */
+export type CommandPayload =
+  | { release: ReleaseSummary | null; scan?: ScanSummary | null }
+  | { profiles: ProfileResult[] }
+  | { backfill: BackfillResult };
+
+export type CommandResult = {
+  schemaVersion: typeof RESULT_SCHEMA_VERSION;
+  command: "sync" | "complete" | "update" | "backfill";
+  dryRun: boolean;
+  timing: { startedAt: string; durationMs: number };
+  links: ReleaseLink[];
+  documents: string[];
+  releaseNotes: boolean;
+} & CommandPayload;
+
+/**
+ * Wraps a command's payload with the fields every `--json` result carries.
+ * `documents` are reported by title only; release notes only by presence.
+ */
+export function createCommandResult(
+  options: {
+    command: CommandResult["command"];
+    dryRun: boolean;
+    startedAt: Date;
+    finishedAt?: Date;
+    links: ReleaseLink[];
+    documents: { title: string }[];
+    releaseNotes: boolean;
+  },
+  payload: CommandPayload,
+): CommandResult {
+  const { startedAt, finishedAt = new Date() } = options;
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    command: options.command,
+    dryRun: options.dryRun,
+    timing: { startedAt: startedAt.toISOString(), durationMs: finishedAt.getTime() - startedAt.getTime() },
+    links: options.links,
+    documents: options.documents.map((document) => document.title),
+    releaseNotes: options.releaseNotes,
+    ...payload,
+  };
+}
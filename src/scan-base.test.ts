@@ -6,8 +6,11 @@ import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import { getCommitContextsBetweenShas, resolveCommitRef, verifyAncestorReachable } from "./git";
 import {
   assertBaseRefIsAncestor,
+  parseFirstSyncStrategy,
+  resolveFirstSyncBase,
   type ScanBase,
   selectAutomaticScanBase,
+  selectStateScanBase,
   shouldCreateReleaseForScan,
 } from "./scan-base";
 
@@ -130,11 +133,71 @@ describe("scan base selection", () => {
     expect(shouldCreateReleaseForScan(commits.length, scanBase)).toBe(true);
   });
 
-  it("keeps normal automatic scans from creating releases with zero commits", () => {
-    const scanBase = selectAutomaticScanBase([], repo.commits.head, deps, repo.cwd);
+  it("keeps normal automatic scans from creating releases with zero commits", async () => {
+    const scanBase = await selectAutomaticScanBase([], repo.commits.head, deps, repo.cwd);
     expect(shouldCreateReleaseForScan(0, scanBase)).toBe(false);
   });
 
+  it("reaches back as far as the --first-sync strategy says when there is no previous release", async () => {
+    const boundary = (value: string) =>
+      resolveFirstSyncBase(parseFirstSyncStrategy(value), repo.commits.head, repo.cwd).sha;
+    const scanned = (value: string) => {
+      const base = resolveFirstSyncBase(parseFirstSyncStrategy(value), repo.commits.head, repo.cwd);
+      return getCommitContextsBetweenShas(base.sha, repo.commits.head, {
+        includeFrom: base.includesBase,
+        cwd: repo.cwd,
+      }).map((c) => c.sha);
+    };
+
+    expect(boundary("head")).toBe(repo.commits.head);
+    expect(boundary("merge-base:stale")).toBe(repo.commits.root);
+    expect(boundary("tag:api-*")).toBe(repo.commits.api1);
+    expect(boundary("commits:2")).toBe(repo.commits.api1);
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    expect(boundary(`since:${tomorrow}`)).toBe(repo.commits.head);
+    expect(scanned("commits:2")).toEqual([repo.commits.api2, repo.commits.web]);
+    // Shorter history than asked for: the root is the boundary, and it's scanned too.
+    const everything = [repo.commits.api2, repo.commits.web, repo.commits.api1, repo.commits.root];
+    expect(boundary("commits:10")).toBe(repo.commits.root);
+    expect(scanned("commits:10")).toEqual(everything);
+    expect(boundary("since:2000-01-01")).toBe(repo.commits.root);
+    expect(scanned("since:2000-01-01")).toEqual(everything);
+
+    const scanBase = await selectAutomaticScanBase([], repo.commits.head, deps, repo.cwd, {
+      firstSync: { kind: "commits", count: 2 },
+    });
+    expect(scanBase).toEqual({
+      kind: "first-sync",
+      sha: repo.commits.api1,
+      candidatesConsidered: 0,
+      lookbackExhausted: false,
+      strategy: { kind: "commits", count: 2 },
+      includesBase: false,
+    });
+  });
+
+  it("falls back to the head strategy when the --first-sync tag or branch can't be found", () => {
+    expect(resolveFirstSyncBase({ kind: "tag", pattern: "web-*" }, repo.commits.head, repo.cwd)).toEqual({
+      sha: repo.commits.head,
+      strategy: { kind: "head" },
+      includesBase: false,
+    });
+    expect(resolveFirstSyncBase({ kind: "merge-base", ref: "missing-branch" }, repo.commits.head, repo.cwd)).toEqual({
+      sha: repo.commits.head,
+      strategy: { kind: "head" },
+      includesBase: false,
+    });
+  });
+
+  it("uses the state file's commit only when it is an ancestor of HEAD", () => {
+    expect(selectStateScanBase(repo.commits.web, repo.commits.head, deps, "/cache/state.json")).toEqual({
+      kind: "state",
+      sha: repo.commits.web,
+      path: "/cache/state.json",
+    });
+    expect(selectStateScanBase(repo.commits.stale, repo.commits.head, deps, "/cache/state.json")).toBeNull();
+  });
+
   it("fails clearly for refs that do not resolve to a commit", () => {
     expect(() => resolveCommitRef("missing-ref", repo.cwd)).toThrow('Could not resolve "missing-ref"');
   });
@@ -173,14 +236,14 @@ describe("scan base selection", () => {
     );
   });
 
-  it("supports GitFlow hotfix releases by letting --base-ref use the integration fork point", () => {
+  it("supports GitFlow hotfix releases by letting --base-ref use the integration fork point", async () => {
     const gitFlowRepo = createGitFlowHotfixRepo();
     const gitFlowDeps = {
       verifyAncestorReachable: (sha: string, headSha: string) => verifyAncestorReachable(sha, headSha, gitFlowRepo.cwd),
     };
 
     try {
-      const automaticBase = selectAutomaticScanBase(
+      const automaticBase = await selectAutomaticScanBase(
         [
           {
             id: "previous",
@@ -194,7 +257,11 @@ describe("scan base selection", () => {
         gitFlowRepo.cwd,
       );
 
-      expect(automaticBase).toEqual({ kind: "release", sha: gitFlowRepo.commits.previousRelease });
+      expect(automaticBase).toEqual({
+        kind: "release",
+        sha: gitFlowRepo.commits.previousRelease,
+        candidatesConsidered: 1,
+      });
       expect(
         getCommitContextsBetweenShas(automaticBase.sha, gitFlowRepo.commits.head, { cwd: gitFlowRepo.cwd }).map(
           (c) => c.message?.split("\n")[0],
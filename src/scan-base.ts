@@ -1,30 +1,189 @@
 import { findBaseSha, FindBaseShaDeps } from "./base-sha";
-import { resolveFirstSyncBoundary } from "./git";
+import {
+  getFirstParentBoundary,
+  getMergeBase,
+  getNearestTagCommit,
+  resolveCommitRef,
+  resolveFirstSyncBoundary,
+} from "./git";
+import { warn } from "./log";
 import type { Release } from "./types";
 
+/**
+ * `--first-sync`: how far back the scan reaches when there is no usable
+ * previous release. The boundary itself is excluded from the scan.
+ *   - head: HEAD's own changes (HEAD^1 as the boundary when HEAD is a merge)
+ *   - merge-base: where HEAD forked from `ref`
+ *   - since: the newest first-parent commit made before `date`
+ *   - tag: the nearest tag matching `pattern`
+ *   - commits: `count` commits back along the first-parent history
+ */
+export type FirstSyncStrategy =
+  | { kind: "head" }
+  | { kind: "merge-base"; ref: string }
+  | { kind: "since"; date: string }
+  | { kind: "tag"; pattern: string }
+  | { kind: "commits"; count: number };
+
+export const FIRST_SYNC_STRATEGY_HINT = "head, merge-base:<branch>, since:<date>, tag:<glob>, or commits:<n>";
+
+/** Parses a `--first-sync` value. Throws a message without the option name, for the caller to prefix. */
+export function parseFirstSyncStrategy(value: string): FirstSyncStrategy {
+  const separator = value.indexOf(":");
+  const kind = (separator === -1 ? value : value.slice(0, separator)).trim();
+  const argument = separator === -1 ? "" : value.slice(separator + 1).trim();
+
+  if (kind === "head" && separator === -1) {
+    return { kind: "head" };
+  }
+  if (kind === "merge-base" && argument) {
+    return { kind: "merge-base", ref: argument };
+  }
+  if (kind === "since" && argument) {
+    if (Number.isNaN(Date.parse(argument))) {
+      throw new Error(`"${argument}" is not a date. Use an ISO 8601 date such as 2026-01-31.`);
+    }
+    return { kind: "since", date: argument };
+  }
+  if (kind === "tag" && argument) {
+    return { kind: "tag", pattern: argument };
+  }
+  if (kind === "commits" && argument) {
+    const count = Number(argument);
+    if (!/^\d+$/.test(argument) || !Number.isSafeInteger(count) || count < 1) {
+      throw new Error(`"${argument}" is not a positive whole number of commits.`);
+    }
+    return { kind: "commits", count };
+  }
+  throw new Error(`Expected ${FIRST_SYNC_STRATEGY_HINT}.`);
+}
+
+/** The strategy in its `--first-sync` form, e.g. `merge-base:main`. */
+export function formatFirstSyncStrategy(strategy: FirstSyncStrategy): string {
+  switch (strategy.kind) {
+    case "head":
+      return "head";
+    case "merge-base":
+      return `merge-base:${strategy.ref}`;
+    case "since":
+      return `since:${strategy.date}`;
+    case "tag":
+      return `tag:${strategy.pattern}`;
+    case "commits":
+      return `commits:${strategy.count}`;
+  }
+}
+
+/**
+ * Resolves a `--first-sync` strategy to the scan boundary for `currentSha`,
+ * deepening a shallow clone when the boundary lies beyond it. A merge-base or
+ * tag that can't be found falls back to `head` with a warning, so `strategy`
+ * is the one that was applied. `includesBase` is set when `since:` or
+ * `commits:` reach past the start of history: the boundary is then the root
+ * commit, which falls within the requested window and is scanned too.
+ */
+export function resolveFirstSyncBase(
+  strategy: FirstSyncStrategy,
+  currentSha: string,
+  cwd: string = process.cwd(),
+): { sha: string; strategy: FirstSyncStrategy; includesBase: boolean } {
+  const fallBack = (reason: string) => {
+    warn(`--first-sync ${formatFirstSyncStrategy(strategy)}: ${reason}; inspecting HEAD's own changes instead`);
+    return { sha: resolveFirstSyncBoundary(currentSha, cwd), strategy: { kind: "head" } as const, includesBase: false };
+  };
+  const walkFirstParents = (limit: { count: number } | { before: string }) => {
+    const boundary = getFirstParentBoundary(currentSha, limit, cwd);
+    return { sha: boundary.sha, strategy, includesBase: boundary.reachedRoot };
+  };
+
+  switch (strategy.kind) {
+    case "head":
+      return { sha: resolveFirstSyncBoundary(currentSha, cwd), strategy, includesBase: false };
+    case "merge-base": {
+      let refSha: string;
+      try {
+        refSha = resolveCommitRef(strategy.ref, cwd);
+      } catch (e) {
+        return fallBack(e instanceof Error ? e.message : String(e));
+      }
+      const sha = getMergeBase(refSha, currentSha, cwd);
+      return sha
+        ? { sha, strategy, includesBase: false }
+        : fallBack(`${strategy.ref} shares no history with ${currentSha.slice(0, 7)}`);
+    }
+    case "since":
+      return walkFirstParents({ before: strategy.date });
+    case "tag": {
+      const tagged = getNearestTagCommit(strategy.pattern, currentSha, cwd);
+      return tagged
+        ? { sha: tagged.sha, strategy, includesBase: false }
+        : fallBack(`no tag matching "${strategy.pattern}" is reachable`);
+    }
+    case "commits":
+      return walkFirstParents({ count: strategy.count });
+  }
+}
+
+/** `candidatesConsidered` is how many releases the automatic search checked; see `findBaseSha`. */
 export type ScanBase =
-  | { kind: "release"; sha: string }
-  | { kind: "first-sync"; sha: string; candidatesConsidered: number }
-  | { kind: "base-ref"; sha: string; ref: string };
+  | { kind: "release"; sha: string; candidatesConsidered: number }
+  | {
+      kind: "first-sync";
+      sha: string;
+      candidatesConsidered: number;
+      lookbackExhausted: boolean;
+      /** The `--first-sync` strategy that picked `sha`. */
+      strategy: FirstSyncStrategy;
+      /** `sha` is a root commit inside the strategy's window, so the scan includes it; see `resolveFirstSyncBase`. */
+      includesBase: boolean;
+    }
+  | { kind: "base-ref"; sha: string; ref: string }
+  /** The last synced commit from `--state-file`, used when recent releases couldn't be fetched. */
+  | { kind: "state"; sha: string; path: string };
 
-export function selectAutomaticScanBase(
+/**
+ * @param options.maxCandidates - `--max-release-lookback`: how many releases to check, across pages, before falling back
+ * @param options.firstSync - `--first-sync`: how the fallback boundary is chosen (default: head)
+ */
+export async function selectAutomaticScanBase(
   candidates: Release[],
   currentSha: string,
   deps: FindBaseShaDeps,
   cwd: string = process.cwd(),
-): ScanBase {
-  const result = findBaseSha(candidates, currentSha, deps);
+  options: { maxCandidates?: number; firstSync?: FirstSyncStrategy } = {},
+): Promise<ScanBase> {
+  const result = await findBaseSha(candidates, currentSha, deps, { maxCandidates: options.maxCandidates });
   if (result.kind === "found") {
-    return { kind: "release", sha: result.sha };
+    return { kind: "release", sha: result.sha, candidatesConsidered: result.candidatesConsidered };
   }
 
+  const firstSync = resolveFirstSyncBase(options.firstSync ?? { kind: "head" }, currentSha, cwd);
   return {
     kind: "first-sync",
-    sha: resolveFirstSyncBoundary(currentSha, cwd),
-    candidatesConsidered: candidates.length,
+    sha: firstSync.sha,
+    candidatesConsidered: result.candidatesConsidered,
+    lookbackExhausted: result.lookbackExhausted,
+    strategy: firstSync.strategy,
+    includesBase: firstSync.includesBase,
   };
 }
 
+/**
+ * The scan base recorded in the state file by the last sync. Null when it
+ * isn't an ancestor of `currentSha`, e.g. after history was rewritten.
+ */
+export function selectStateScanBase(
+  stateSha: string,
+  currentSha: string,
+  deps: FindBaseShaDeps,
+  path: string,
+): ScanBase | null {
+  if (!deps.verifyAncestorReachable(stateSha, currentSha)) {
+    return null;
+  }
+  return { kind: "state", sha: stateSha, path };
+}
+
 export function assertBaseRefIsAncestor(
   baseRef: string,
   resolvedSha: string,
@@ -1,5 +1,7 @@
 import { describe, expect, it } from "vitest";
-import { scanCommits } from "./scan";
+import { parseExtractionRuleSpec } from "./extraction-rules";
+import { mergeScanResults, scanCommits } from "./scan";
+import { DEFAULT_TRAILER_KEYS } from "./trailers";
 import { CommitContext } from "./types";
 
 function ids(refs: { identifier: string }[]): string[] {
@@ -228,4 +230,178 @@ describe("scanCommits", () => {
       expect(ids(result.revertedIssueReferences)).toEqual([]);
     });
   });
+
+  describe("custom extraction rules", () => {
+    it("records the rule name as the debug sink source", () => {
+      const rule = parseExtractionRuleSpec("snake-branch:branch:^(?<team>[a-z]+)_(?<number>\\d+)_");
+      const commits: CommitContext[] = [{ sha: "c1", branchName: "eng_12_feature", message: "Add feature" }];
+      const result = scanCommits(commits, { extractionRules: [rule] });
+      expect(ids(result.issueReferences)).toEqual(["ENG-12"]);
+      expect(result.debugSink.issues["ENG-12"]).toEqual([
+        { sha: "c1", source: "custom:snake-branch", value: "eng_12_feature" },
+      ]);
+    });
+  });
+
+  describe("opt-out markers", () => {
+    it("skips opted-out commits entirely and records the marker", () => {
+      const commits: CommitContext[] = [
+        { sha: "c1", message: "Fixes ENG-1 (#4)" },
+        { sha: "c2", message: "chore: backport ENG-2 (#5) [skip linear-release]" },
+        { sha: "c3", message: "chore: backport\n\nFixes: ENG-1\nLinear-Release: skip" },
+      ];
+      const result = scanCommits(commits);
+      expect(ids(result.issueReferences)).toEqual(["ENG-1"]);
+      expect(result.issueReferences[0]!.commitSha).toBe("c1");
+      expect(result.prNumbers).toEqual([4]);
+      expect(result.debugSink.inspectedShas).toEqual(["c1"]);
+      expect(result.debugSink.skippedCommits).toEqual([
+        { sha: "c2", marker: "[skip linear-release]" },
+        { sha: "c3", marker: "Linear-Release: skip" },
+      ]);
+    });
+
+    it("skips a revert of an opted-out commit", () => {
+      const commits: CommitContext[] = [
+        { sha: "c1", message: "Fixes ENG-1" },
+        { sha: "c2", message: 'Revert "chore: Fixes ENG-1 [skip linear-release]"' },
+      ];
+      const result = scanCommits(commits);
+      expect(ids(result.issueReferences)).toEqual(["ENG-1"]);
+      expect(result.revertedIssueReferences).toEqual([]);
+    });
+
+    it("excludes issues named in Not-Released trailers by default", () => {
+      const commits: CommitContext[] = [{ sha: "c1", message: "Backport\n\nFixes: ENG-1\nNot-Released: ENG-5" }];
+      const result = scanCommits(commits);
+      expect(ids(result.issueReferences)).toEqual(["ENG-1"]);
+      expect(Object.keys(result.debugSink.excludedIssues)).toEqual(["ENG-5"]);
+    });
+  });
+
+  describe("trailers", () => {
+    const trailers = { ...DEFAULT_TRAILER_KEYS, exclude: ["Not-Released"] };
+
+    it("records trailer matches with the trailer source", () => {
+      const commits: CommitContext[] = [{ sha: "c1", message: "Add search\n\nLinear-Issue: ENG-12" }];
+      const result = scanCommits(commits);
+      expect(result.debugSink.issues["ENG-12"]).toEqual([
+        { sha: "c1", source: "trailer", value: "Linear-Issue: ENG-12" },
+      ]);
+    });
+
+    it("keeps excluded issues out of the release, whichever commit adds them", () => {
+      const commits: CommitContext[] = [
+        { sha: "c1", message: "Add search. Fixes ENG-12" },
+        { sha: "c2", message: "Tidy search\n\nFixes: ENG-13\nNot-Released: ENG-12" },
+        { sha: "c3", message: "Polish search\n\nRefs: ENG-12" },
+      ];
+      const result = scanCommits(commits, { trailers });
+      expect(ids(result.issueReferences)).toEqual(["ENG-13"]);
+      expect(result.debugSink.excludedIssues).toEqual({
+        "ENG-12": [{ sha: "c2", source: "trailer", value: "Not-Released: ENG-12" }],
+      });
+      expect(result.debugSink.issues["ENG-12"]).toHaveLength(2);
+    });
+
+    it("reads pull request trailers", () => {
+      const commits: CommitContext[] = [{ sha: "c1", message: "Add search\n\nPR: #42" }];
+      expect(scanCommits(commits).prNumbers).toEqual([42]);
+      expect(scanCommits(commits, { trailers: { ...trailers, pullRequests: [] } }).prNumbers).toEqual([]);
+    });
+  });
+
+  describe("subject and author filters", () => {
+    const renovate = { name: "renovate[bot]", email: "bot@renovateapp.com" };
+    const commits: CommitContext[] = [
+      { sha: "c1", message: "ENG-1 chore(deps): bump parser", author: renovate },
+      { sha: "c2", message: "ENG-2 Add search", author: { name: "Ada", email: "ada@example.com" } },
+      { sha: "c3", message: "ENG-3 Update lockfile", author: renovate },
+    ];
+
+    it("drops commits matching --exclude-subjects", () => {
+      const result = scanCommits(commits, { excludeSubjects: "chore\\(deps\\)" });
+      expect(ids(result.issueReferences)).toEqual(["ENG-2", "ENG-3"]);
+      expect(result.debugSink.excludeSubjects).toBe("chore\\(deps\\)");
+      expect(result.debugSink.filteredCommits).toEqual([{ sha: "c1", filter: "exclude-subjects" }]);
+    });
+
+    it("filters by author name or email", () => {
+      const excluded = scanCommits(commits, { excludeAuthors: ["*[bot]"] });
+      expect(ids(excluded.issueReferences)).toEqual(["ENG-2"]);
+      expect(excluded.debugSink.excludeAuthors).toEqual(["*[bot]"]);
+
+      const included = scanCommits(commits, { includeAuthors: ["*@renovateapp.com"] });
+      expect(ids(included.issueReferences)).toEqual(["ENG-1", "ENG-3"]);
+      expect(included.debugSink.filteredCommits).toEqual([{ sha: "c2", filter: "include-authors" }]);
+    });
+
+    it("drops commits without a known author under --include-authors", () => {
+      const result = scanCommits([{ sha: "c4", message: "ENG-4 Fix" }], { includeAuthors: ["Ada"] });
+      expect(result.issueReferences).toEqual([]);
+    });
+  });
+
+  describe("submodule commits", () => {
+    it("records the submodule path and leaves its pull requests out", () => {
+      const result = scanCommits([
+        { sha: "s1", submodule: "vendor/lib", message: "ENG-1 Fix parser (#12)" },
+        { sha: "c1", message: "Bump lib (#40)" },
+      ]);
+      expect(ids(result.issueReferences)).toEqual(["ENG-1"]);
+      expect(result.debugSink.issues["ENG-1"]).toEqual([
+        { sha: "s1", source: "commit_message", value: "ENG-1 Fix parser (#12)", submodule: "vendor/lib" },
+      ]);
+      expect(result.prNumbers).toEqual([40]);
+    });
+  });
+
+  describe("pull request formats", () => {
+    it("picks host-specific formats by provider", () => {
+      const commits: CommitContext[] = [{ sha: "c1", message: "Merged PR 7: Add search" }];
+      expect(scanCommits(commits, { provider: "azure" }).prNumbers).toEqual([7]);
+      expect(scanCommits(commits, { provider: "bitbucket" }).prNumbers).toEqual([]);
+      expect(scanCommits(commits).prNumbers).toEqual([7]);
+    });
+  });
+});
+
+describe("mergeScanResults", () => {
+  it("adds an issue any repository adds and keeps excluded issues out", () => {
+    const web = scanCommits([
+      { sha: "w1", message: "ENG-1 Add search" },
+      { sha: "w2", message: "ENG-2 Add filters" },
+    ]);
+    const api = scanCommits([
+      { sha: "a1", message: "ENG-1 Search endpoint" },
+      {
+        sha: "a2",
+        branchName: "revert-12-eng-3-cache",
+        message: 'Merge pull request #12 from org/revert-12-eng-3-cache Revert "Cache results"',
+      },
+      { sha: "a3", message: "Tune filters\n\nNot-Released: ENG-2" },
+    ]);
+
+    const merged = mergeScanResults([web, api]);
+    expect(ids(merged.issueReferences)).toEqual(["ENG-1"]);
+    expect(ids(merged.revertedIssueReferences)).toEqual(["ENG-3"]);
+    expect(merged.debugSink.inspectedShas).toEqual(["w1", "w2", "a1", "a2", "a3"]);
+    expect(merged.debugSink.issues["ENG-1"]).toHaveLength(2);
+    expect(web.debugSink.issues["ENG-1"]).toHaveLength(1);
+  });
+
+  it("keeps an issue reverted in one repository but added in another", () => {
+    const web = scanCommits([{ sha: "w1", message: "ENG-4 Add export" }]);
+    const api = scanCommits([
+      {
+        sha: "a1",
+        branchName: "revert-13-eng-4-export",
+        message: 'Merge pull request #13 from org/revert-13-eng-4-export Revert "Export endpoint"',
+      },
+    ]);
+
+    const merged = mergeScanResults([web, api]);
+    expect(ids(merged.issueReferences)).toEqual(["ENG-4"]);
+    expect(merged.revertedIssueReferences).toEqual([]);
+  });
 });
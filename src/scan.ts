@@ -1,15 +1,54 @@
 import {
+  ExtractionTraceEvent,
+  extractExcludedIssueIdentifiersForCommit,
   extractLinearIssueIdentifiersForCommit,
   extractPullRequestNumbersForCommit,
   extractRevertedIssueIdentifiersForCommit,
   getEffectiveSubject,
+  getReleaseOptOut,
 } from "./extractors";
+import { matchesAuthor } from "./authors";
+import { ExtractionRule } from "./extraction-rules";
 import { verbose } from "./log";
-import { CommitContext, DebugSink, IssueReference, PullRequestSource } from "./types";
+import { describeTeamKeyFilter, TeamKeyFilter } from "./team-keys";
+import { TrailerKeys } from "./trailers";
+import { CommitContext, CommitFilter, DebugSink, IssueReference, PullRequestSource } from "./types";
 
 export type ScanOptions = {
   includePaths?: string[] | null;
+  excludePaths?: string[] | null;
   includeSubjects?: string | null;
+  /** Commits whose subject matches this regex are dropped. */
+  excludeSubjects?: string | null;
+  /** Only commits whose author name or email matches one of these patterns are scanned; see `matchesAuthor`. */
+  includeAuthors?: string[] | null;
+  excludeAuthors?: string[] | null;
+  /** User-defined extraction rules, run alongside the built-in ones. */
+  extractionRules?: ExtractionRule[];
+  /** Only team keys this filter accepts are attributed; see `--team-keys`. */
+  teamKeys?: TeamKeyFilter | null;
+  /** Trailer keys for issues, pull requests, and release exclusion. Defaults to `DEFAULT_TRAILER_KEYS`. */
+  trailers?: TrailerKeys;
+  /** `RepoInfo.provider`; selects host-specific pull request formats. Null tries them all. */
+  provider?: string | null;
+  trace?: ScanTrace;
+};
+
+export type ScanResult = {
+  issueReferences: IssueReference[];
+  revertedIssueReferences: IssueReference[];
+  prNumbers: number[];
+  debugSink: DebugSink;
+};
+
+/** Receives extractor trace events for each scanned commit; `action` names the extractor that emitted it. */
+export type ScanTrace = (commit: CommitContext, action: "added" | "reverted", event: ExtractionTraceEvent) => void;
+
+const FILTER_DESCRIPTIONS: Record<CommitFilter, string> = {
+  "include-subjects": "subject does not match --include-subjects",
+  "exclude-subjects": "subject matches --exclude-subjects",
+  "include-authors": "author does not match --include-authors",
+  "exclude-authors": "author matches --exclude-authors",
 };
 
 /**
@@ -17,17 +56,30 @@ export type ScanOptions = {
  * Expects commits in chronological order (oldest first). The caller must reverse
  * git log output before passing it here.
  */
-export function scanCommits(
-  commits: CommitContext[],
-  options: ScanOptions = {},
-): {
-  issueReferences: IssueReference[];
-  revertedIssueReferences: IssueReference[];
-  prNumbers: number[];
-  debugSink: DebugSink;
-} {
-  const { includePaths = null, includeSubjects = null } = options;
+export function scanCommits(commits: CommitContext[], options: ScanOptions = {}): ScanResult {
+  const {
+    includePaths = null,
+    excludePaths = null,
+    includeSubjects = null,
+    excludeSubjects = null,
+    includeAuthors = null,
+    excludeAuthors = null,
+    extractionRules: rules = [],
+    teamKeys = null,
+    trailers,
+    provider = null,
+    trace,
+  } = options;
   const subjectRegex = includeSubjects ? new RegExp(includeSubjects) : null;
+  const excludeSubjectRegex = excludeSubjects ? new RegExp(excludeSubjects) : null;
+  const getCommitFilter = (commit: CommitContext): CommitFilter | null => {
+    const subject = getEffectiveSubject(commit.message);
+    if (subjectRegex && !subjectRegex.test(subject)) return "include-subjects";
+    if (excludeSubjectRegex?.test(subject)) return "exclude-subjects";
+    if (includeAuthors?.length && !matchesAuthor(includeAuthors, commit.author)) return "include-authors";
+    if (excludeAuthors?.length && matchesAuthor(excludeAuthors, commit.author)) return "exclude-authors";
+    return null;
+  };
   const lastAction = new Map<string, "added" | "reverted">();
   const addedRefs = new Map<string, IssueReference>();
   const revertedRefs = new Map<string, IssueReference>();
@@ -37,30 +89,52 @@ export function scanCommits(
     inspectedShas: [],
     issues: {},
     revertedIssues: {},
+    excludedIssues: {},
+    skippedCommits: [],
     pullRequests: [],
     includePaths,
+    excludePaths,
     includeSubjects,
+    excludeSubjects,
+    includeAuthors: includeAuthors?.length ? includeAuthors : null,
+    excludeAuthors: excludeAuthors?.length ? excludeAuthors : null,
+    filteredCommits: [],
+    teamKeys: teamKeys && describeTeamKeyFilter(teamKeys),
   };
 
   for (const commit of commits) {
-    if (subjectRegex) {
-      const subject = getEffectiveSubject(commit.message);
-      if (!subjectRegex.test(subject)) {
-        verbose(`Skipping commit ${commit.sha} — subject does not match --include-subjects`);
-        continue;
-      }
+    const filter = getCommitFilter(commit);
+    if (filter) {
+      debugSink.filteredCommits.push({ sha: commit.sha, filter });
+      verbose(`Skipping commit ${commit.sha} — ${FILTER_DESCRIPTIONS[filter]}`);
+      continue;
+    }
+
+    // An opted-out commit contributes nothing: no issues, reverts, exclusions, or pull requests.
+    const optOut = getReleaseOptOut(commit);
+    if (optOut) {
+      debugSink.skippedCommits.push({ sha: commit.sha, marker: optOut });
+      verbose(`Skipping commit ${commit.sha} — opted out with "${optOut}"`);
+      trace?.(commit, "added", { kind: "skipped", reason: `commit opts out of releases with "${optOut}"` });
+      continue;
     }
 
     debugSink.inspectedShas.push(commit.sha);
 
-    for (const { identifier, source } of extractRevertedIssueIdentifiersForCommit(commit)) {
+    for (const { identifier, source, value } of extractRevertedIssueIdentifiersForCommit(commit, {
+      rules,
+      teamKeys,
+      trailers,
+      trace: trace && ((event) => trace(commit, "reverted", event)),
+    })) {
       if (!debugSink.revertedIssues[identifier]) {
         debugSink.revertedIssues[identifier] = [];
       }
       debugSink.revertedIssues[identifier].push({
         sha: commit.sha,
         source,
-        value: source === "branch_name" ? (commit.branchName ?? "") : (commit.message ?? ""),
+        value: value ?? (source === "branch_name" ? (commit.branchName ?? "") : (commit.message ?? "")),
+        ...(commit.submodule && { submodule: commit.submodule }),
       });
 
       lastAction.set(identifier, "reverted");
@@ -68,24 +142,58 @@ export function scanCommits(
       verbose(`Detected reverted issue key ${identifier} from commit ${commit.sha}`);
     }
 
-    for (const { identifier, source } of extractLinearIssueIdentifiersForCommit(commit)) {
+    for (const { identifier, source, value } of extractLinearIssueIdentifiersForCommit(commit, {
+      rules,
+      teamKeys,
+      trailers,
+      trace: trace && ((event) => trace(commit, "added", event)),
+    })) {
       if (!debugSink.issues[identifier]) {
         debugSink.issues[identifier] = [];
       }
       debugSink.issues[identifier].push({
         sha: commit.sha,
         source,
-        value: source === "branch_name" ? (commit.branchName ?? "") : (commit.message ?? ""),
+        value: value ?? (source === "branch_name" ? (commit.branchName ?? "") : (commit.message ?? "")),
+        ...(commit.submodule && { submodule: commit.submodule }),
       });
 
       lastAction.set(identifier, "added");
       addedRefs.set(identifier, { identifier, commitSha: commit.sha });
       verbose(
-        `Detected issue key ${identifier} from ${source === "branch_name" ? `branch "${commit.branchName}"` : `message "${commit.message}"`}`,
+        `Detected issue key ${identifier} from ${
+          source === "branch_name"
+            ? `branch "${commit.branchName}"`
+            : source === "commit_message"
+              ? `message "${commit.message}"`
+              : `${source} "${value}"`
+        }`,
       );
     }
 
-    for (const prNumber of extractPullRequestNumbersForCommit(commit)) {
+    // Exclusions hold for the whole release, whichever commit mentions the issue.
+    for (const { identifier, value } of extractExcludedIssueIdentifiersForCommit(commit, {
+      rules,
+      teamKeys,
+      trailers,
+    })) {
+      if (!debugSink.excludedIssues[identifier]) {
+        debugSink.excludedIssues[identifier] = [];
+      }
+      debugSink.excludedIssues[identifier].push({
+        sha: commit.sha,
+        source: "trailer",
+        value: value ?? "",
+        ...(commit.submodule && { submodule: commit.submodule }),
+      });
+      verbose(`Excluding issue key ${identifier} from the release per commit ${commit.sha} (${value})`);
+    }
+
+    // A submodule's pull requests live in its own repository, not the one the release is synced with.
+    if (commit.submodule) {
+      continue;
+    }
+    for (const prNumber of extractPullRequestNumbersForCommit(commit, { trailers, provider })) {
       if (!prNumbersSet.has(prNumber)) {
         prNumbersSet.add(prNumber);
         const prSource: PullRequestSource = {
@@ -102,6 +210,9 @@ export function scanCommits(
   const issueReferences: IssueReference[] = [];
   const revertedIssueReferences: IssueReference[] = [];
   for (const [identifier, action] of lastAction) {
+    if (action === "added" && debugSink.excludedIssues[identifier]) {
+      continue;
+    }
     if (action === "added") {
       issueReferences.push(addedRefs.get(identifier)!);
     } else {
@@ -116,3 +227,47 @@ export function scanCommits(
     debugSink,
   };
 }
+
+/**
+ * Combines the scans of several repositories into one release payload. There
+ * is no order between repositories, so last-write-wins doesn't apply: an issue
+ * any repository adds is added, and an exclude trailer in any repository keeps
+ * the issue out. Pull request numbers are kept per repository by the caller,
+ * so only the debug sink lists them here.
+ */
+export function mergeScanResults(results: ScanResult[]): Omit<ScanResult, "prNumbers"> {
+  const [first, ...rest] = results;
+  if (!first) {
+    throw new Error("mergeScanResults needs at least one scan");
+  }
+  const debugSink: DebugSink = structuredClone(first.debugSink);
+  for (const { debugSink: sink } of rest) {
+    debugSink.inspectedShas.push(...sink.inspectedShas);
+    for (const key of ["issues", "revertedIssues", "excludedIssues"] as const) {
+      for (const [identifier, sources] of Object.entries(sink[key])) {
+        debugSink[key][identifier] = [...(debugSink[key][identifier] ?? []), ...sources];
+      }
+    }
+    debugSink.skippedCommits.push(...sink.skippedCommits);
+    debugSink.filteredCommits.push(...sink.filteredCommits);
+    debugSink.pullRequests.push(...sink.pullRequests);
+  }
+
+  const added = new Map<string, IssueReference>();
+  for (const { issueReferences } of results) {
+    for (const ref of issueReferences) {
+      if (!added.has(ref.identifier) && !debugSink.excludedIssues[ref.identifier]) {
+        added.set(ref.identifier, ref);
+      }
+    }
+  }
+  const reverted = new Map<string, IssueReference>();
+  for (const { revertedIssueReferences } of results) {
+    for (const ref of revertedIssueReferences) {
+      if (!added.has(ref.identifier) && !reverted.has(ref.identifier)) {
+        reverted.set(ref.identifier, ref);
+      }
+    }
+  }
+  return { issueReferences: [...added.values()], revertedIssueReferences: [...reverted.values()], debugSink };
+}
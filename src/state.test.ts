@@ -0,0 +1,55 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getPipelineStateKey, PipelineState, readPipelineState, readStateFile, writePipelineState } from "./state";
+
+describe("state file", () => {
+  let dir: string;
+  let path: string;
+
+  const web: PipelineState = {
+    profile: "web",
+    release: { id: "r1", name: "1.2.0" },
+    commits: { "https://github.com/acme/web": "a".repeat(40) },
+    syncedAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "linear-release-state-"));
+    path = join(dir, "cache", "linear-release.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keys pipelines by a hash of the access key, never the key itself", () => {
+    const key = getPipelineStateKey("lin_secret");
+    expect(key).toMatch(/^[0-9a-f]{16}$/);
+    expect(key).toBe(getPipelineStateKey("lin_secret"));
+    expect(key).not.toBe(getPipelineStateKey("lin_other"));
+  });
+
+  it("treats a missing file as empty", () => {
+    expect(readPipelineState(path, "k1")).toBeNull();
+  });
+
+  it("writes a pipeline and keeps the others", () => {
+    writePipelineState(path, "k1", web);
+    writePipelineState(path, "k2", { ...web, profile: "api" });
+    writePipelineState(path, "k1", { ...web, release: { id: "r2", name: "1.3.0" } });
+
+    expect(readPipelineState(path, "k1")?.release).toEqual({ id: "r2", name: "1.3.0" });
+    expect(readPipelineState(path, "k2")?.profile).toBe("api");
+    expect(JSON.parse(readFileSync(path, "utf8")).version).toBe(1);
+  });
+
+  it("throws on a malformed file", () => {
+    writePipelineState(path, "k1", web);
+    writeFileSync(path, "{");
+    expect(() => readStateFile(path)).toThrow(`Could not parse state file ${path}`);
+    writeFileSync(path, JSON.stringify({ pipelines: {} }));
+    expect(() => readStateFile(path)).toThrow(`Invalid state file ${path}`);
+  });
+});
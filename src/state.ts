@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+/** What the last successful sync of one pipeline recorded. */
+export type PipelineState = {
+  /** Config profile the pipeline was synced as, for readability; null without profiles. */
+  profile: string | null;
+  release: { id: string; name: string };
+  /** The commit synced from each repository, keyed by `getStateRepositoryKey`. */
+  commits: Record<string, string>;
+  syncedAt: string;
+};
+
+/**
+ * The `--state-file` contents. Pipelines are keyed by a hash of their access
+ * key, so one file can hold several pipelines without storing the keys.
+ */
+export type StateFile = {
+  version: 1;
+  pipelines: Record<string, PipelineState>;
+};
+
+export function getPipelineStateKey(accessKey: string): string {
+  return createHash("sha256").update(accessKey).digest("hex").slice(0, 16);
+}
+
+/** The repository's URL when it has a remote, otherwise its checkout path. */
+export function getStateRepositoryKey(repository: { path: string; url: string | null }): string {
+  return repository.url ?? repository.path;
+}
+
+/** Reads the state file; a missing file is an empty state. Throws on a malformed one. */
+export function readStateFile(path: string): StateFile {
+  if (!existsSync(path)) {
+    return { version: 1, pipelines: {} };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not parse state file ${path}: ${detail}`);
+  }
+  const state = parsed as Partial<StateFile> | null;
+  if (!state || typeof state !== "object" || state.version !== 1 || typeof state.pipelines !== "object") {
+    throw new Error(`Invalid state file ${path}: expected {"version":1,"pipelines":{...}}`);
+  }
+  return { version: 1, pipelines: state.pipelines ?? {} };
+}
+
+export function readPipelineState(path: string, key: string): PipelineState | null {
+  return readStateFile(path).pipelines[key] ?? null;
+}
+
+/**
+ * Records a pipeline's sync, keeping the other pipelines in the file. Writes
+ * to a temporary file first so an interrupted run can't leave it truncated.
+ */
+export function writePipelineState(path: string, key: string, pipeline: PipelineState): void {
+  const state = readStateFile(path);
+  state.pipelines[key] = pipeline;
+  mkdirSync(dirname(path), { recursive: true });
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(temporaryPath, `${JSON.stringify(state, null, 2)}\n`);
+  renameSync(temporaryPath, path);
+}
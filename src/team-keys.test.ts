@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createTeamKeyFilter, getTeamKeyRejection, loadTeamKeyFilter, parseTeamKeys } from "./team-keys";
+
+describe("parseTeamKeys", () => {
+  it("splits allowed, denied, and auto entries", () => {
+    expect(parseTeamKeys(["eng", "WEB", "!utf", "auto", "ENG"], "--team-keys")).toEqual({
+      allow: ["ENG", "WEB"],
+      deny: ["UTF"],
+      auto: true,
+    });
+  });
+
+  it("returns null for an empty list", () => {
+    expect(parseTeamKeys([], "--team-keys")).toBeNull();
+  });
+
+  it.each(["ENG-1", "TOOLONGKEY", "!", "e g"])("rejects %j", (entry) => {
+    expect(() => parseTeamKeys([entry], "--team-keys")).toThrow(`Invalid --team-keys entry: "${entry}"`);
+  });
+});
+
+describe("getTeamKeyRejection", () => {
+  it("accepts only allowed keys when an allow list is given", () => {
+    const filter = createTeamKeyFilter({ allow: ["ENG"], deny: [], auto: false });
+    expect(getTeamKeyRejection(filter, "ENG-12")).toBeNull();
+    expect(getTeamKeyRejection(filter, "UTF-8")).toBe("team key UTF is not in the team-key allow list");
+  });
+
+  it("accepts every key not denied when there is no allow list", () => {
+    const filter = createTeamKeyFilter({ allow: [], deny: ["SHA"], auto: false });
+    expect(getTeamKeyRejection(filter, "WEB-3")).toBeNull();
+    expect(getTeamKeyRejection(filter, "SHA-256")).toBe("team key SHA is excluded");
+  });
+
+  it("merges workspace keys fetched for auto with the explicit ones", () => {
+    const filter = createTeamKeyFilter({ allow: ["OPS"], deny: [], auto: true }, ["eng", "WEB"]);
+    expect([...filter.allow!].sort()).toEqual(["ENG", "OPS", "WEB"]);
+  });
+
+  it("lets a deny entry win over auto", () => {
+    const filter = createTeamKeyFilter({ allow: [], deny: ["ENG"], auto: true }, ["ENG", "WEB"]);
+    expect(getTeamKeyRejection(filter, "ENG-1")).toBe("team key ENG is excluded");
+    expect(getTeamKeyRejection(filter, "WEB-1")).toBeNull();
+  });
+});
+
+describe("loadTeamKeyFilter", () => {
+  it("allows the workspace's team keys for auto", async () => {
+    const filter = await loadTeamKeyFilter({ allow: [], deny: [], auto: true }, async () => ["eng", "WEB"]);
+    expect(filter).toEqual({ allow: new Set(["ENG", "WEB"]), deny: new Set() });
+  });
+
+  it("falls back to the explicit keys when the team-key query fails", async () => {
+    const filter = await loadTeamKeyFilter({ allow: [], deny: ["UTF"], auto: true }, async () => {
+      throw new Error('Cannot query field "teamKeysByAccessKey"');
+    });
+    expect(filter).toEqual({ allow: null, deny: new Set(["UTF"]) });
+    expect(getTeamKeyRejection(filter, "ENG-12")).toBeNull();
+  });
+});
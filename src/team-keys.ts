@@ -0,0 +1,100 @@
+import { verbose, warn } from "./log";
+import { pluralize } from "./util";
+
+/** `--team-keys` as written: keys to accept, `!KEY` keys to drop, and whether to fetch the workspace's keys. */
+export type TeamKeysSetting = {
+  allow: string[];
+  deny: string[];
+  auto: boolean;
+};
+
+/** The effective filter. A null `allow` accepts every team key that isn't denied. */
+export type TeamKeyFilter = {
+  allow: Set<string> | null;
+  deny: Set<string>;
+};
+
+const TEAM_KEY_REGEX = /^\w{1,7}$/;
+
+/**
+ * Parses `--team-keys` entries: `ENG` allows a key, `!UTF` denies one, and
+ * `auto` allows every team key in the access key's workspace. Keys are
+ * case-insensitive and stored upper-cased.
+ *
+ * @param label - Names the flag or config key in error messages
+ */
+export function parseTeamKeys(entries: string[], label: string): TeamKeysSetting | null {
+  if (entries.length === 0) return null;
+  const setting: TeamKeysSetting = { allow: [], deny: [], auto: false };
+  for (const entry of entries) {
+    if (entry.toLowerCase() === "auto") {
+      setting.auto = true;
+      continue;
+    }
+    const denied = entry.startsWith("!");
+    const key = (denied ? entry.slice(1) : entry).trim();
+    if (!TEAM_KEY_REGEX.test(key)) {
+      throw new Error(`Invalid ${label} entry: "${entry}". Team keys are 1-7 letters, digits, or underscores.`);
+    }
+    const list = denied ? setting.deny : setting.allow;
+    if (!list.includes(key.toUpperCase())) list.push(key.toUpperCase());
+  }
+  return setting;
+}
+
+/** Combines the configured keys with the workspace's keys fetched for `auto`. */
+export function createTeamKeyFilter(setting: TeamKeysSetting, workspaceKeys: string[] = []): TeamKeyFilter {
+  const allowed = [...setting.allow, ...workspaceKeys.map((key) => key.toUpperCase())];
+  return {
+    allow: setting.auto || setting.allow.length > 0 ? new Set(allowed) : null,
+    deny: new Set(setting.deny),
+  };
+}
+
+/**
+ * Builds one pipeline's filter. `auto` fetches the team keys of the access
+ * key's workspace; if none come back or the query fails, only the explicit
+ * keys apply, so an API without the query doesn't fail the sync.
+ *
+ * @param fetchWorkspaceKeys - Queries the workspace's team keys; null when there is no access key
+ */
+export async function loadTeamKeyFilter(
+  setting: TeamKeysSetting,
+  fetchWorkspaceKeys: (() => Promise<string[]>) | null,
+): Promise<TeamKeyFilter> {
+  let workspaceKeys: string[] = [];
+  if (setting.auto && fetchWorkspaceKeys) {
+    try {
+      workspaceKeys = await fetchWorkspaceKeys();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      warn(
+        `--team-keys=auto could not fetch the workspace's team keys: ${message}. Identifiers are not filtered by workspace teams; list the team keys in --team-keys instead`,
+      );
+      return createTeamKeyFilter({ ...setting, auto: false });
+    }
+    if (workspaceKeys.length === 0) {
+      warn("--team-keys=auto found no teams for this access key; identifiers are not filtered by workspace teams");
+    } else {
+      verbose(`Fetched ${workspaceKeys.length} workspace ${pluralize(workspaceKeys.length, "team key")}`);
+    }
+  }
+  return createTeamKeyFilter({ ...setting, auto: workspaceKeys.length > 0 }, workspaceKeys);
+}
+
+/** Returns why `identifier` (`KEY-N`) is dropped by the filter, or null when its team key is accepted. */
+export function getTeamKeyRejection(filter: TeamKeyFilter, identifier: string): string | null {
+  const teamKey = identifier.slice(0, identifier.lastIndexOf("-")).toUpperCase();
+  if (filter.deny.has(teamKey)) {
+    return `team key ${teamKey} is excluded`;
+  }
+  if (filter.allow && !filter.allow.has(teamKey)) {
+    return `team key ${teamKey} is not in the team-key allow list`;
+  }
+  return null;
+}
+
+/** Debug-sink form of a filter; sets don't survive `JSON.stringify`. */
+export function describeTeamKeyFilter(filter: TeamKeyFilter): { allow: string[] | null; deny: string[] } {
+  return { allow: filter.allow ? [...filter.allow].sort() : null, deny: [...filter.deny].sort() };
+}
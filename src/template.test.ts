@@ -0,0 +1,147 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createReleaseTemplateResolvers, formatDate, renderTemplate } from "./template";
+
+function runGit(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" }).trim();
+}
+
+describe("renderTemplate", () => {
+  const resolvers = {
+    name: () => "world",
+    upper: (arg: string | undefined) => (arg ?? "").toUpperCase(),
+    broken: () => {
+      throw new Error("not available here");
+    },
+  };
+
+  it("returns text without placeholders unchanged", () => {
+    expect(renderTemplate("Release 1.2.0", resolvers, "--name")).toBe("Release 1.2.0");
+  });
+
+  it("substitutes placeholders, tolerating inner whitespace", () => {
+    expect(renderTemplate("hello {{name}} / {{ name }}", resolvers, "--name")).toBe("hello world / world");
+  });
+
+  it("passes the text after the first colon as the argument", () => {
+    expect(renderTemplate("{{upper:a:b}}", resolvers, "--name")).toBe("A:B");
+  });
+
+  it("throws on unknown placeholders and lists the available ones", () => {
+    expect(() => renderTemplate("{{nope}}", resolvers, "--name")).toThrow(
+      "Unknown placeholder {{nope}} in --name. Available: {{name}}, {{upper}}, {{broken}}",
+    );
+  });
+
+  it("wraps resolver failures with the placeholder and label", () => {
+    expect(() => renderTemplate("v{{broken}}", resolvers, "--release-version")).toThrow(
+      "Could not resolve {{broken}} in --release-version: not available here",
+    );
+  });
+});
+
+describe("formatDate", () => {
+  const date = new Date(Date.UTC(2026, 0, 5, 7, 8, 9));
+
+  it("formats all supported tokens in UTC", () => {
+    expect(formatDate(date, "YYYY.MM.DD HH:mm:ss")).toBe("2026.01.05 07:08:09");
+  });
+
+  it("supports two-digit years and copies other characters through", () => {
+    expect(formatDate(date, "release-YY.MM")).toBe("release-26.01");
+  });
+});
+
+describe("createReleaseTemplateResolvers", () => {
+  const originalEnv = process.env;
+  let cwd: string;
+  let head: string;
+
+  beforeAll(() => {
+    cwd = mkdtempSync(join(tmpdir(), "linear-release-template-"));
+    runGit(["init", "-q", "-b", "main"], cwd);
+    runGit(["config", "user.email", "test@example.com"], cwd);
+    runGit(["config", "user.name", "Test User"], cwd);
+    writeFileSync(join(cwd, "package.json"), JSON.stringify({ name: "app", version: "3.4.5" }));
+    runGit(["add", "."], cwd);
+    runGit(["commit", "-q", "-m", "initial"], cwd);
+    runGit(["tag", "v3.4.5"], cwd);
+    writeFileSync(join(cwd, "package.json"), JSON.stringify({ name: "app", version: "3.5.0" }));
+    runGit(["add", "."], cwd);
+    runGit(["commit", "-q", "-m", "change"], cwd);
+    head = runGit(["rev-parse", "HEAD"], cwd);
+  });
+
+  afterAll(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GITHUB_ACTIONS;
+    delete process.env.GITLAB_CI;
+    delete process.env.CIRCLECI;
+    delete process.env.BUILD_TAG;
+    delete process.env.TRAVIS;
+    delete process.env.TF_BUILD;
+    delete process.env.BUILDKITE;
+    delete process.env.TEAMCITY_VERSION;
+    delete process.env.RWX;
+    delete process.env.CI;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  function render(template: string, profile: string | null = null) {
+    const resolvers = createReleaseTemplateResolvers({ cwd, now: new Date(Date.UTC(2026, 9, 19)), profile });
+    return renderTemplate(template, resolvers, "--name");
+  }
+
+  it("resolves git placeholders", () => {
+    expect(render("{{tag}} ({{shortSha}})")).toBe(`v3.4.5 (${head.slice(0, 7)})`);
+    expect(render("{{sha}}")).toBe(head);
+    expect(render("{{branch}}")).toBe("main");
+    expect(render("{{describe}}")).toBe(`v3.4.5-1-g${runGit(["rev-parse", "--short", "HEAD"], cwd)}`);
+  });
+
+  it("resolves commit placeholders against the --to commit when given", () => {
+    const base = runGit(["rev-parse", "HEAD~1"], cwd);
+    const resolvers = createReleaseTemplateResolvers({ cwd, commit: base });
+    expect(renderTemplate("{{tag}} {{sha}}", resolvers, "--name")).toBe(`v3.4.5 ${base}`);
+    expect(renderTemplate("{{describe}}", resolvers, "--name")).toBe("v3.4.5");
+    expect(renderTemplate("{{package.version}}", resolvers, "--name")).toBe("3.4.5");
+  });
+
+  it("resolves the date with a default and a custom format", () => {
+    expect(render("{{date}}")).toBe("2026-10-19");
+    expect(render("{{date:YYYY.MM.DD}}")).toBe("2026.10.19");
+  });
+
+  it("reads the version from package.json", () => {
+    expect(render("{{package.version}}")).toBe("3.5.0");
+  });
+
+  it("resolves CI placeholders from the detected provider", () => {
+    process.env.GITHUB_ACTIONS = "true";
+    process.env.GITHUB_RUN_NUMBER = "42";
+    process.env.GITHUB_REF_NAME = "release/1.0";
+    delete process.env.GITHUB_HEAD_REF;
+    expect(render("{{ci.buildNumber}} on {{branch}}")).toBe("42 on release/1.0");
+  });
+
+  it("fails clearly when not running in CI", () => {
+    expect(() => render("{{ci.buildNumber}}")).toThrow(
+      "Could not resolve {{ci.buildNumber}} in --name: the CI provider exposes no build number",
+    );
+  });
+
+  it("resolves the profile name only in profile mode", () => {
+    expect(render("{{profile}}-{{shortSha}}", "web")).toBe(`web-${head.slice(0, 7)}`);
+    expect(() => render("{{profile}}")).toThrow(/only available with --profile/);
+  });
+});
@@ -0,0 +1,109 @@
+import { join } from "node:path";
+import { getCIBuildInfo } from "./ci-env";
+import { describeCommit, getCurrentGitInfo, getNearestTag, readFileAtCommit } from "./git";
+import { parseManifestVersion, readManifestVersion } from "./release-version";
+
+/**
+ * Resolves one placeholder. `arg` is the text after the first `:` inside the
+ * braces (e.g. the format in `{{date:YYYY.MM.DD}}`), or undefined.
+ * Throws with a short reason when the value is unavailable.
+ */
+export type PlaceholderResolver = (arg: string | undefined) => string;
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.]+)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * Substitutes `{{placeholder}}` tokens in `template`. `label` names the flag
+ * or config key the template came from, for error messages.
+ */
+export function renderTemplate(
+  template: string,
+  resolvers: Record<string, PlaceholderResolver>,
+  label: string,
+): string {
+  return template.replace(PLACEHOLDER_REGEX, (token: string, key: string, arg: string | undefined) => {
+    const resolver = resolvers[key];
+    if (!resolver) {
+      const available = Object.keys(resolvers)
+        .map((name) => `{{${name}}}`)
+        .join(", ");
+      throw new Error(`Unknown placeholder ${token} in ${label}. Available: ${available}`);
+    }
+    try {
+      return resolver(arg?.trim() || undefined);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new Error(`Could not resolve ${token} in ${label}: ${reason}`);
+    }
+  });
+}
+
+/**
+ * Formats `date` in UTC. Supported tokens: `YYYY`, `YY`, `MM`, `DD`, `HH`,
+ * `mm`, `ss`; anything else is copied through.
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    YY: String(date.getUTCFullYear()).slice(-2),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (token) => tokens[token]!);
+}
+
+/**
+ * Built-in placeholders for release names and versions. Each value is
+ * computed on first use, so a template that doesn't mention `{{tag}}` never
+ * runs `git describe`.
+ *
+ * @param options.cwd - The primary repository (`--repo-path`); defaults to the working directory
+ * @param options.commit - SHA the release is for (`--to`); defaults to HEAD
+ */
+export function createReleaseTemplateResolvers(
+  options: { cwd?: string; now?: Date; profile?: string | null; commit?: string } = {},
+): Record<string, PlaceholderResolver> {
+  const { cwd = process.cwd(), now = new Date(), profile = null } = options;
+  const ref = options.commit ?? "HEAD";
+  const once = <T>(compute: () => T): (() => T) => {
+    let cached: { value: T } | undefined;
+    return () => (cached ??= { value: compute() }).value;
+  };
+  const gitInfo = once(() => getCurrentGitInfo(cwd));
+  const ciInfo = once(() => getCIBuildInfo());
+  const required = (value: string | null, reason: string): string => {
+    if (!value) throw new Error(reason);
+    return value;
+  };
+  const commit = () => options.commit ?? required(gitInfo().commit, "could not read the current commit");
+
+  return {
+    sha: () => commit(),
+    shortSha: () => commit().slice(0, 7),
+    // CI checkouts are usually a detached HEAD, so prefer the branch the CI reports.
+    branch: () => {
+      const branch = ciInfo().branch ?? gitInfo().branch;
+      return required(branch === "detached" ? null : branch, "HEAD is detached and the CI provider reports no branch");
+    },
+    tag: () => required(getNearestTag(undefined, ref, cwd), `no tag is reachable from ${ref}`),
+    describe: () => required(describeCommit(ref, cwd), "git describe failed"),
+    date: (format) => formatDate(now, format ?? "YYYY-MM-DD"),
+    "ci.buildNumber": () => required(ciInfo().buildNumber, "the CI provider exposes no build number"),
+    "ci.branch": () => required(ciInfo().branch, "the CI provider exposes no branch"),
+    "ci.buildUrl": () => required(ciInfo().buildUrl, "the CI provider exposes no build URL"),
+    // With --to, the manifest is read as committed there rather than from the working tree.
+    "package.version": () => {
+      if (!options.commit) {
+        return readManifestVersion("package.json", join(cwd, "package.json"));
+      }
+      const label = `package.json at ${options.commit.slice(0, 7)}`;
+      const content = required(readFileAtCommit(options.commit, "package.json", cwd), `${label} does not exist`);
+      return parseManifestVersion("package.json", content, label);
+    },
+    profile: () => required(profile, "only available with --profile or --all-profiles"),
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseTrailerKeyList, parseTrailers, removeTrailerLines } from "./trailers";
+
+describe("parseTrailers", () => {
+  it("parses the last paragraph when it is made only of trailers", () => {
+    expect(parseTrailers("Add search\n\nBody text.\n\nIssue: ENG-1\nReviewed-by: B")).toEqual([
+      { key: "Issue", value: "ENG-1", lines: [4, 5] },
+      { key: "Reviewed-by", value: "B", lines: [5, 6] },
+    ]);
+  });
+
+  it("never treats the subject paragraph as trailers", () => {
+    expect(parseTrailers("Issue: ENG-1")).toEqual([]);
+    expect(parseTrailers("Issue: ENG-1\nFixes: ENG-2")).toEqual([]);
+  });
+
+  it("ignores trailers that are not in the last paragraph", () => {
+    expect(parseTrailers("Add search\n\nIssue: ENG-1\n\nMore text.")).toEqual([]);
+  });
+
+  it("unfolds continuation lines", () => {
+    expect(parseTrailers("Add search\n\nIssue: ENG-1,\n  ENG-2\n\tENG-3")).toEqual([
+      { key: "Issue", value: "ENG-1, ENG-2 ENG-3", lines: [2, 5] },
+    ]);
+  });
+
+  it("accepts mixed blocks with a known or git-generated trailer and at least 25% trailer lines", () => {
+    const signedOff = "Add search\n\nline one\nline two\nline three\nSigned-off-by: A <a@example.com>";
+    expect(parseTrailers(signedOff).map((trailer) => trailer.key)).toEqual(["Signed-off-by"]);
+
+    const known = "Add search\n\nline one\nIssue: ENG-1";
+    expect(parseTrailers(known)).toEqual([]);
+    expect(parseTrailers(known, ["issue"])).toEqual([{ key: "Issue", value: "ENG-1", lines: [3, 4] }]);
+  });
+
+  it("rejects mixed blocks under 25% trailer lines", () => {
+    const message = "Add search\n\none\ntwo\nthree\nfour\nSigned-off-by: A <a@example.com>";
+    expect(parseTrailers(message)).toEqual([]);
+  });
+
+  it("skips comment lines and trailing blank lines", () => {
+    expect(parseTrailers("Add search\n\nIssue: ENG-1\n# comment\n\n\n")).toEqual([
+      { key: "Issue", value: "ENG-1", lines: [2, 3] },
+    ]);
+  });
+
+  it("reads a lone paragraph when the subject has been stripped", () => {
+    expect(parseTrailers("Issue: ENG-1", [], { hasSubject: false })).toEqual([
+      { key: "Issue", value: "ENG-1", lines: [0, 1] },
+    ]);
+  });
+});
+
+describe("removeTrailerLines", () => {
+  it("removes the given trailers, including folded lines", () => {
+    const message = "Add search\n\nIssue: ENG-1,\n  ENG-2\nReviewed-by: B";
+    const [issue] = parseTrailers(message);
+    expect(removeTrailerLines(message, [issue!])).toBe("Add search\n\nReviewed-by: B");
+  });
+});
+
+describe("parseTrailerKeyList", () => {
+  it("accepts an empty list", () => {
+    expect(parseTrailerKeyList([], "--issue-trailers")).toEqual([]);
+  });
+
+  it("rejects keys with spaces or colons", () => {
+    expect(() => parseTrailerKeyList(["Fixed by"], "--issue-trailers")).toThrow(
+      'Invalid --issue-trailers entry: "Fixed by"',
+    );
+    expect(() => parseTrailerKeyList(["Issue:"], "--issue-trailers")).toThrow('"Issue:"');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * A `Key: value` line in a commit's trailer block. Folded values (continuation
+ * lines starting with whitespace) are unfolded into a single line.
+ */
+export type Trailer = {
+  key: string;
+  value: string;
+  /** Line range `[start, end)` within the message, covering continuation lines. */
+  lines: [number, number];
+};
+
+/** Which trailers feed issue attribution, pull requests, and release exclusion. Keys are case-insensitive. */
+export type TrailerKeys = {
+  issues: string[];
+  pullRequests: string[];
+  exclude: string[];
+};
+
+export const DEFAULT_TRAILER_KEYS: TrailerKeys = {
+  issues: [
+    "Linear-Issue",
+    "Issue",
+    "Closes",
+    "Fixes",
+    "Resolves",
+    "Implements",
+    "Refs",
+    "References",
+    "Part-of",
+    "Related-to",
+    "Relates-to",
+    "Contributes-to",
+  ],
+  pullRequests: ["Pull-Request", "PR", "Merge-Request", "MR"],
+  exclude: ["Not-Released"],
+};
+
+/**
+ * Validates trailer keys from `--issue-trailers` and friends. An empty list is
+ * valid and turns that kind of trailer off.
+ *
+ * @param label - Names the flag or config key in error messages
+ */
+export function parseTrailerKeyList(entries: string[], label: string): string[] {
+  for (const entry of entries) {
+    if (!TRAILER_KEY_REGEX.test(entry)) {
+      throw new Error(`Invalid ${label} entry: "${entry}". Trailer keys are letters, digits, and "-".`);
+    }
+  }
+  return entries;
+}
+
+/** Lines git itself writes into trailer blocks; they mark a block as trailers even among free text. */
+const GIT_GENERATED_PREFIXES = ["signed-off-by: ", "(cherry picked from commit "];
+
+const TRAILER_KEY_REGEX = /^[A-Za-z0-9][A-Za-z0-9-]*$/;
+// Token characters are alphanumerics and "-"; whitespace may separate the token from ":".
+const TRAILER_LINE_REGEX = /^([A-Za-z0-9][A-Za-z0-9-]*)\s*:\s?(.*)$/;
+
+/**
+ * Parses the trailer block the way `git interpret-trailers --parse` does for a
+ * commit message: the block is the last paragraph, never the subject's, and
+ * qualifies when it is made only of trailers, or when it has at least one
+ * git-generated or known trailer (`knownKeys`) and at least 25% trailer lines.
+ * Other lines in a qualifying block are kept as free text and not returned.
+ *
+ * @param options.hasSubject - False when `message` is a body without its subject line
+ */
+export function parseTrailers(
+  message: string,
+  knownKeys: string[] = [],
+  options: { hasSubject?: boolean } = {},
+): Trailer[] {
+  const { hasSubject = true } = options;
+  const lines = message.split(/\r?\n/);
+  let end = lines.length;
+  while (end > 0 && lines[end - 1]!.trim() === "") end--;
+  let start = end;
+  while (start > 0 && lines[start - 1]!.trim() !== "") start--;
+  // The first paragraph is the subject, even when it looks like a trailer.
+  if (hasSubject && !lines.slice(0, start).some((line) => line.trim() !== "")) return [];
+
+  const known = new Set(knownKeys.map((key) => key.toLowerCase()));
+  const trailers: Trailer[] = [];
+  let trailerLines = 0;
+  let otherLines = 0;
+  let recognized = false;
+  let current: Trailer | null = null;
+  for (let index = start; index < end; index++) {
+    const line = lines[index]!;
+    if (line.startsWith("#")) continue;
+    if (current && /^\s/.test(line)) {
+      current.value = `${current.value} ${line.trim()}`.trim();
+      current.lines[1] = index + 1;
+      continue;
+    }
+    current = null;
+    if (GIT_GENERATED_PREFIXES.some((prefix) => line.toLowerCase().startsWith(prefix))) {
+      recognized = true;
+    }
+    const match = line.match(TRAILER_LINE_REGEX);
+    if (match) {
+      trailerLines++;
+      if (known.has(match[1]!.toLowerCase())) recognized = true;
+      current = { key: match[1]!, value: match[2]!.trim(), lines: [index, index + 1] };
+      trailers.push(current);
+    } else if (line.startsWith("(cherry picked from commit ")) {
+      trailerLines++;
+    } else {
+      otherLines++;
+    }
+  }
+
+  const isTrailerBlock = (trailerLines > 0 && otherLines === 0) || (recognized && trailerLines * 3 >= otherLines);
+  return isTrailerBlock ? trailers : [];
+}
+
+export function isTrailerKey(trailer: Trailer, keys: string[]): boolean {
+  const key = trailer.key.toLowerCase();
+  return keys.some((candidate) => candidate.toLowerCase() === key);
+}
+
+/** Removes the given trailers' lines, so free-text scanning doesn't see them again. */
+export function removeTrailerLines(message: string, trailers: Trailer[]): string {
+  if (trailers.length === 0) return message;
+  const removed = new Set(trailers.flatMap(({ lines: [start, end] }) => range(start, end)));
+  return message
+    .split(/\r?\n/)
+    .filter((_, index) => !removed.has(index))
+    .join("\n");
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, offset) => start + offset);
+}
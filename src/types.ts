@@ -6,6 +6,20 @@ export type Release = {
   commitSha?: string;
   createdAt: string;
   url?: string;
+  /** Per-repository commit SHAs of a multi-repository release (`--repo-path`); `commitSha` is the first's. */
+  repositories?: ReleaseRepository[];
+  /**
+   * Returned by the sync and complete mutations. Backfill also asks for the
+   * stage's `type` when listing releases, to tell completed ones apart.
+   */
+  stage?: { name: string; type?: string } | null;
+};
+
+export type ReleaseRepository = {
+  owner: string | null;
+  name: string | null;
+  url: string | null;
+  commitSha: string;
 };
 
 // Access key endpoint response types
@@ -23,6 +37,20 @@ export type AccessKeyPipelineSettingsResponse = {
   };
 };
 
+export type AccessKeyPipelineExcludePathsResponse = {
+  data: {
+    releasePipelineByAccessKey: {
+      excludePathPatterns: string[] | null;
+    };
+  };
+};
+
+export type AccessKeyTeamKeysResponse = {
+  data: {
+    teamKeysByAccessKey: string[];
+  };
+};
+
 export type AccessKeySyncReleaseResponse = {
   data: {
     releaseSyncByAccessKey: {
@@ -41,6 +69,9 @@ export type AccessKeyCompleteReleaseResponse = {
         name: string;
         version?: string;
         url?: string;
+        stage?: {
+          name: string;
+        } | null;
       } | null;
     };
   };
@@ -64,11 +95,20 @@ export type AccessKeyUpdateByPipelineResponse = {
 };
 
 // Git and context specific types
+/** A commit's author, as `git log` records it (`%an`, `%ae`). */
+export type CommitAuthor = {
+  name: string;
+  email: string;
+};
+
 export type CommitContext = {
   sha: string;
   branchName?: string | null;
   message?: string | null;
   parents?: string[];
+  author?: CommitAuthor | null;
+  /** Path of the submodule the commit was read from, relative to the superproject root. */
+  submodule?: string;
 };
 
 export type GitInfo = {
@@ -90,10 +130,13 @@ export type IssueReference = {
 };
 
 // Debug sink types
+export type IssueSourceKind = "branch_name" | "commit_message" | "trailer" | `custom:${string}`; // custom:<extraction rule name>
+
 export type IssueSource = {
   sha: string;
-  source: "branch_name" | "commit_message";
-  value: string; // The actual branch name or commit message
+  source: IssueSourceKind;
+  value: string; // The actual branch name or commit message, the `Key: value` trailer, or the text a custom rule matched
+  submodule?: string; // Set when the commit belongs to a submodule whose pointer moved in the range
 };
 
 export type PullRequestSource = {
@@ -102,11 +145,22 @@ export type PullRequestSource = {
   value: string; // The commit message containing the PR reference
 };
 
+/** The subject or author filter that dropped a commit from the scan. */
+export type CommitFilter = "include-subjects" | "exclude-subjects" | "include-authors" | "exclude-authors";
+
 export type DebugSink = {
   inspectedShas: string[]; // From oldest to newest
   issues: Record<string, IssueSource[]>; // Issue identifier -> array of sources
   revertedIssues: Record<string, IssueSource[]>; // Issue identifier -> array of sources (reverted)
+  excludedIssues: Record<string, IssueSource[]>; // Issue identifier -> exclude trailers that kept it out of the release
+  skippedCommits: { sha: string; marker: string }[]; // Commits opted out with `[skip linear-release]` or `Linear-Release: skip`
   pullRequests: PullRequestSource[]; // PR numbers found in commits
   includePaths: string[] | null; // Path filters applied during commit scanning
+  excludePaths: string[] | null; // Paths that don't count toward the include paths
   includeSubjects: string | null; // Subject regex source applied during scanning
+  excludeSubjects: string | null; // Subject regex source whose matches are dropped
+  includeAuthors: string[] | null; // Author patterns a commit must match
+  excludeAuthors: string[] | null; // Author patterns whose commits are dropped
+  filteredCommits: { sha: string; filter: CommitFilter }[]; // Commits dropped by a subject or author filter
+  teamKeys: { allow: string[] | null; deny: string[] } | null; // Team-key filter applied to extracted identifiers
 };
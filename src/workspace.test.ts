@@ -0,0 +1,104 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getWorkspaceClosure, readWorkspace, resolveWorkspaceIncludePaths, Workspace } from "./workspace";
+
+describe("getWorkspaceClosure", () => {
+  const workspace: Workspace = {
+    manifest: "pnpm-workspace.yaml",
+    packages: [
+      { name: "web", dir: "apps/web", dependencies: ["ui", "react"] },
+      { name: "admin", dir: "apps/admin", dependencies: ["ui"] },
+      { name: "ui", dir: "packages/ui", dependencies: ["tokens", "web"] },
+      { name: "tokens", dir: "packages/tokens", dependencies: [] },
+    ],
+  };
+
+  it("follows internal dependencies transitively, ignoring external ones and cycles", () => {
+    expect(getWorkspaceClosure(workspace, ["web"]).map((pkg) => pkg.name)).toEqual(["web", "ui", "tokens"]);
+  });
+
+  it("lists each package once across several names", () => {
+    expect(getWorkspaceClosure(workspace, ["admin", "tokens"]).map((pkg) => pkg.name)).toEqual([
+      "admin",
+      "tokens",
+      "ui",
+      "web",
+    ]);
+  });
+
+  it("throws on an unknown package", () => {
+    expect(() => getWorkspaceClosure(workspace, ["mobile"])).toThrow(
+      `Unknown workspace package "mobile": no package in pnpm-workspace.yaml's globs has that name`,
+    );
+  });
+});
+
+describe("readWorkspace", () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), "linear-release-workspace-"));
+    execFileSync("git", ["init", "-q"], { cwd: repo });
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  function write(path: string, content: unknown, track = true) {
+    mkdirSync(dirname(join(repo, path)), { recursive: true });
+    writeFileSync(join(repo, path), typeof content === "string" ? content : JSON.stringify(content));
+    if (track) execFileSync("git", ["add", path], { cwd: repo });
+  }
+
+  it("reads package globs from pnpm-workspace.yaml, dropping negated ones", () => {
+    write("pnpm-workspace.yaml", "packages:\n  - apps/*\n  - packages/**\n  - '!**/fixtures/**'\n");
+    write("apps/web/package.json", { name: "web", dependencies: { ui: "workspace:*" }, devDependencies: { ui: "*" } });
+    write("packages/ui/package.json", { name: "ui" });
+    write("packages/ui/fixtures/demo/package.json", { name: "demo" });
+    write("tools/package.json", { name: "tools" });
+
+    expect(readWorkspace(repo)).toEqual({
+      manifest: "pnpm-workspace.yaml",
+      packages: [
+        { name: "web", dir: "apps/web", dependencies: ["ui"] },
+        { name: "ui", dir: "packages/ui", dependencies: [] },
+      ],
+    });
+  });
+
+  it("reads package.json workspaces, in array or object form, and ignores untracked packages", () => {
+    write("package.json", { name: "root", workspaces: ["apps/*"] });
+    write("apps/web/package.json", { name: "web" });
+    write("apps/scratch/package.json", { name: "scratch" }, false);
+    expect(readWorkspace(repo).packages.map((pkg) => pkg.name)).toEqual(["web"]);
+
+    write("package.json", { name: "root", workspaces: { packages: ["apps/*"], nohoist: ["**/react"] } });
+    expect(readWorkspace(repo).manifest).toBe("package.json");
+  });
+
+  it("throws when the repository has no workspace", () => {
+    write("package.json", { name: "app" });
+    expect(() => readWorkspace(repo)).toThrow(/No workspace found/);
+  });
+
+  it("throws on a malformed package list", () => {
+    write("pnpm-workspace.yaml", "packages: apps/*\n");
+    expect(() => readWorkspace(repo)).toThrow(
+      "Invalid packages in pnpm-workspace.yaml: expected a list of package globs",
+    );
+  });
+
+  it("resolves include paths from a subdirectory of the repository", () => {
+    write("package.json", { workspaces: ["apps/*", "packages/*"] });
+    write("apps/web/package.json", { name: "@acme/web", dependencies: { "@acme/ui": "^1.0.0" } });
+    write("packages/ui/package.json", { name: "@acme/ui" });
+    expect(resolveWorkspaceIncludePaths(["@acme/web"], join(repo, "apps", "web"))).toEqual({
+      paths: ["apps/web/**", "packages/ui/**"],
+      packages: ["@acme/web", "@acme/ui"],
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join, posix } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { getRepositoryRoot, listTrackedFiles } from "./git";
+
+/** A package in the workspace, with the names of everything it depends on. */
+export type WorkspacePackage = {
+  name: string;
+  /** Directory relative to the repository root; `.` for the root package. */
+  dir: string;
+  dependencies: string[];
+};
+
+export type Workspace = {
+  /** The file the package globs came from, relative to the repository root. */
+  manifest: string;
+  packages: WorkspacePackage[];
+};
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "optionalDependencies", "peerDependencies"] as const;
+
+/** The package.json fields workspaces use; values are checked where they're read. */
+type PackageManifest = { name?: unknown; workspaces?: unknown } & Partial<
+  Record<(typeof DEPENDENCY_FIELDS)[number], unknown>
+>;
+
+/**
+ * Reads the workspace's package globs from `pnpm-workspace.yaml`, or else from
+ * the root package.json's `workspaces` (npm, Yarn, Bun, and Nx), and loads
+ * every tracked package.json they match. Negated globs (`!**\/test/**`) drop
+ * packages. Throws when the repository has neither.
+ */
+export function readWorkspace(root: string): Workspace {
+  const { manifest, globs } = readWorkspaceGlobs(root);
+  const include = globs.filter((glob) => !glob.startsWith("!"));
+  const exclude = globs.filter((glob) => glob.startsWith("!")).map((glob) => glob.slice(1));
+  const toManifestGlob = (glob: string) => posix.join(glob.replace(/\/+$/, ""), "package.json");
+
+  const packages: WorkspacePackage[] = [];
+  for (const path of listTrackedFiles(include.map(toManifestGlob), exclude.map(toManifestGlob), root)) {
+    const json = readPackageManifest(join(root, path));
+    if (typeof json?.name !== "string" || !json.name) continue;
+    const dependencies = DEPENDENCY_FIELDS.flatMap((field) => {
+      const value = json[field];
+      return value && typeof value === "object" ? Object.keys(value) : [];
+    });
+    packages.push({ name: json.name, dir: posix.dirname(path), dependencies: [...new Set(dependencies)] });
+  }
+  return { manifest, packages };
+}
+
+function readWorkspaceGlobs(root: string): { manifest: string; globs: string[] } {
+  const pnpmManifest = "pnpm-workspace.yaml";
+  if (existsSync(join(root, pnpmManifest))) {
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(readFileSync(join(root, pnpmManifest), "utf8"));
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      throw new Error(`Could not parse ${pnpmManifest}: ${detail}`);
+    }
+    const globs = (parsed as { packages?: unknown } | null)?.packages;
+    return { manifest: pnpmManifest, globs: readGlobList(globs, `packages in ${pnpmManifest}`) };
+  }
+
+  const json = existsSync(join(root, "package.json")) ? readPackageManifest(join(root, "package.json")) : null;
+  const workspaces = json?.workspaces;
+  if (workspaces !== undefined) {
+    // Yarn also accepts `{ packages: [...], nohoist: [...] }`.
+    const globs = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | null)?.packages;
+    return { manifest: "package.json", globs: readGlobList(globs, "workspaces in package.json") };
+  }
+  throw new Error(`No workspace found in ${root}: expected pnpm-workspace.yaml or a package.json with "workspaces"`);
+}
+
+function readGlobList(value: unknown, label: string): string[] {
+  if (!Array.isArray(value) || !value.every((entry) => typeof entry === "string")) {
+    throw new Error(`Invalid ${label}: expected a list of package globs`);
+  }
+  return value;
+}
+
+function readPackageManifest(path: string): PackageManifest | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not parse ${path}: ${detail}`);
+  }
+  return parsed && typeof parsed === "object" ? (parsed as PackageManifest) : null;
+}
+
+/**
+ * Resolves `--workspace` package names to the packages they depend on within
+ * the workspace, directly or transitively, each listed once: the named
+ * packages first, then their dependencies in breadth-first order.
+ */
+export function getWorkspaceClosure(workspace: Workspace, names: string[]): WorkspacePackage[] {
+  const byName = new Map(workspace.packages.map((pkg) => [pkg.name, pkg]));
+  for (const name of names) {
+    if (!byName.has(name)) {
+      throw new Error(`Unknown workspace package "${name}": no package in ${workspace.manifest}'s globs has that name`);
+    }
+  }
+  const closure: WorkspacePackage[] = [];
+  const seen = new Set<string>();
+  const queue = [...names];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    const pkg = byName.get(name);
+    if (!pkg || seen.has(name)) continue;
+    seen.add(name);
+    closure.push(pkg);
+    queue.push(...pkg.dependencies);
+  }
+  return closure;
+}
+
+/**
+ * Include paths for `--workspace`: the directory of each named package and of
+ * every workspace package it depends on, read from the repository containing
+ * `cwd`.
+ */
+export function resolveWorkspaceIncludePaths(
+  names: string[],
+  cwd: string = process.cwd(),
+): { paths: string[]; packages: string[] } {
+  const closure = getWorkspaceClosure(readWorkspace(getRepositoryRoot(cwd)), names);
+  return {
+    paths: closure.map((pkg) => (pkg.dir === "." ? "**" : `${pkg.dir}/**`)),
+    packages: closure.map((pkg) => pkg.name),
+  };
+}